@@ -46,6 +46,10 @@ export default defineConfig({
           label: 'API Reference',
           items: [
             { label: 'generate-api executor', slug: 'reference/generate-api' },
+            { label: 'validate-spec executor', slug: 'reference/validate-spec' },
+            { label: 'diff-spec executor', slug: 'reference/diff-spec' },
+            { label: 'refresh-specs executor', slug: 'reference/refresh-specs' },
+            { label: 'export-spec executor', slug: 'reference/export-spec' },
           ],
         },
         {
@@ -0,0 +1,173 @@
+import { execFileSync } from 'node:child_process';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ExecutorContext, logger } from '@nx/devkit';
+import executor from './executor';
+
+function spec(paths: Record<string, unknown>) {
+  return JSON.stringify({
+    openapi: '3.0.3',
+    info: { title: 'A', version: '1' },
+    paths,
+  });
+}
+
+const v1 = spec({ '/pets': { get: {} }, '/owners': { get: {} } });
+const v2 = spec({ '/pets': { get: {}, post: {} }, '/owners': { get: {} } });
+const v3 = spec({ '/pets': { get: {} } });
+
+describe('diff-spec executor', () => {
+  let root: string;
+  let ctx: ExecutorContext;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'core-diff-spec-'));
+    ctx = {
+      root,
+      cwd: root,
+      projectName: 'demo',
+      targetName: 'diff-spec',
+      isVerbose: false,
+      projectsConfigurations: { version: 2, projects: {} },
+      nxJsonConfiguration: {},
+      projectGraph: { nodes: {}, dependencies: {} },
+    } as unknown as ExecutorContext;
+    jest.spyOn(logger, 'info').mockImplementation(() => undefined);
+    jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should compare against a baseline file and write a summary', async () => {
+    writeFileSync(join(root, 'base.json'), v1);
+    writeFileSync(join(root, 'api.json'), v2);
+
+    const res = await executor(
+      {
+        inputSpec: 'api.json',
+        baselineSpec: 'base.json',
+        outputFile: 'dist/spec-changes.md',
+      },
+      ctx
+    );
+
+    expect(res.success).toBe(true);
+    const summary = readFileSync(join(root, 'dist/spec-changes.md'), 'utf-8');
+    expect(summary).toContain('POST /pets was added');
+  });
+
+  it('should fail on breaking changes unless allowed', async () => {
+    writeFileSync(join(root, 'base.json'), v1);
+    writeFileSync(join(root, 'api.json'), v3);
+
+    const res = await executor(
+      { inputSpec: 'api.json', baselineSpec: 'base.json' },
+      ctx
+    );
+    expect(res.success).toBe(false);
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.stringContaining('GET /owners was removed')
+    );
+
+    const allowed = await executor(
+      { inputSpec: 'api.json', baselineSpec: 'base.json', allowBreaking: true },
+      ctx
+    );
+    expect(allowed.success).toBe(true);
+  });
+
+  it('should use the previous run as baseline by default', async () => {
+    writeFileSync(join(root, 'api.json'), v1);
+    expect((await executor({ inputSpec: 'api.json' }, ctx)).success).toBe(true);
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.stringContaining('No baseline found')
+    );
+    expect(
+      existsSync(
+        join(root, '.nx-plugin-openapi/spec-baselines/demo/diff-spec/spec.json')
+      )
+    ).toBe(true);
+
+    writeFileSync(join(root, 'api.json'), v3);
+    expect((await executor({ inputSpec: 'api.json' }, ctx)).success).toBe(
+      false
+    );
+  });
+
+  it('should compare against a git revision', async () => {
+    const git = (...args: string[]) =>
+      execFileSync('git', args, { cwd: root, stdio: 'ignore' });
+    git('init', '-q');
+    writeFileSync(join(root, 'api.json'), v1);
+    git('add', 'api.json');
+    git(
+      '-c',
+      'user.name=test',
+      '-c',
+      'user.email=test@example.com',
+      'commit',
+      '-q',
+      '-m',
+      'init'
+    );
+    writeFileSync(join(root, 'api.json'), v3);
+
+    const res = await executor({ inputSpec: 'api.json', baseRef: 'HEAD' }, ctx);
+
+    expect(res.success).toBe(false);
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.stringContaining('GET /owners was removed')
+    );
+  });
+
+  it('should read git revisions of workspaces in a subdirectory of the repository', async () => {
+    const git = (...args: string[]) =>
+      execFileSync('git', args, { cwd: root, stdio: 'ignore' });
+    git('init', '-q');
+    const workspace = join(root, 'workspace');
+    mkdirSync(workspace);
+    writeFileSync(join(workspace, 'api.json'), v1);
+    git('add', 'workspace/api.json');
+    git(
+      '-c',
+      'user.name=test',
+      '-c',
+      'user.email=test@example.com',
+      'commit',
+      '-q',
+      '-m',
+      'init'
+    );
+    writeFileSync(join(workspace, 'api.json'), v3);
+
+    const res = await executor(
+      { inputSpec: 'api.json', baseRef: 'HEAD' },
+      { ...ctx, root: workspace, cwd: workspace }
+    );
+
+    expect(res.success).toBe(false);
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.stringContaining('GET /owners was removed')
+    );
+  });
+
+  it('should reject remote specs with baseRef', async () => {
+    const res = await executor(
+      { inputSpec: 'https://example.com/api.json', baseRef: 'HEAD' },
+      ctx
+    );
+
+    expect(res.success).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { ExecutorContext, logger, PromiseExecutor } from '@nx/devkit';
+import { ConfigurationError } from '../../lib/errors';
+import { getInputSpecEntries, isRemoteSpec } from '../../lib/input-spec';
+import { InputSpec } from '../../lib/interfaces';
+import { bundleSpec } from '../../lib/spec-bundler';
+import {
+  diffSpecs,
+  formatSpecChangesMarkdown,
+  hasBreakingChanges,
+  SpecChanges,
+} from '../../lib/spec-diff';
+import { resolveSpecLocation } from '../../lib/spec-source';
+import { resolveInputSpec } from '../../lib/spec-reference';
+import { gitFileExists, readGitFile } from '../../lib/utils/git';
+import { DiffSpecExecutorSchema } from './schema';
+
+const BASELINE_CACHE_DIR = '.nx-plugin-openapi/spec-baselines';
+
+const runExecutor: PromiseExecutor<DiffSpecExecutorSchema> = async (
+  options,
+  context: ExecutorContext
+) => {
+  const { baseRef, outputFile, fetchOptions } = options;
+  const root = context.root;
+  try {
+    const projects = context.projectsConfigurations.projects;
+    const inputSpec = await resolveInputSpec(options.inputSpec, projects);
+    const baselineSpec = options.baselineSpec
+      ? await resolveInputSpec(options.baselineSpec, projects)
+      : undefined;
+    if (baseRef && baselineSpec) {
+      throw new ConfigurationError(
+        'Only one of baseRef and baselineSpec can be set'
+      );
+    }
+    const useCache = !baseRef && !baselineSpec;
+
+    const results: SpecChanges[] = [];
+    const current = new Map<string, unknown>();
+    for (const { name, spec } of getInputSpecEntries(inputSpec)) {
+      let baseline: unknown;
+      if (baseRef) {
+        baseline = await loadGitBaseline(spec, baseRef, root);
+      } else if (baselineSpec) {
+        const baselineEntry = getBaselineEntry(baselineSpec, name);
+        baseline = baselineEntry
+          ? await bundleSpec(baselineEntry, {
+              root,
+              fetch: fetchOptions,
+              mode: 'dereference',
+            })
+          : undefined;
+      } else {
+        baseline = loadCachedBaseline(getCachePath(root, context, name));
+      }
+
+      const document = await bundleSpec(spec, {
+        root,
+        fetch: fetchOptions,
+        mode: 'dereference',
+      });
+      current.set(name ?? '', document);
+
+      results.push({
+        name,
+        spec,
+        hasBaseline: baseline !== undefined,
+        changes: baseline === undefined ? [] : diffSpecs(baseline, document),
+      });
+    }
+
+    const summary = formatSpecChangesMarkdown(results);
+    logger.info(summary);
+    if (outputFile) {
+      const path = join(root, outputFile);
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, summary);
+      logger.info(`Wrote summary to ${outputFile}`);
+    }
+
+    const breaking = results.some((r) => hasBreakingChanges(r.changes));
+    if (breaking && !options.allowBreaking) {
+      logger.error(
+        'Breaking spec changes found. Set allowBreaking to accept them.'
+      );
+      return { success: false };
+    }
+
+    if (useCache) {
+      for (const [name, document] of current) {
+        const path = getCachePath(root, context, name || undefined);
+        mkdirSync(dirname(path), { recursive: true });
+        writeFileSync(path, JSON.stringify(document, null, 2));
+      }
+    }
+    return { success: true };
+  } catch (e) {
+    logger.error('Spec diff failed');
+    logger.error(e as unknown as Error);
+    return { success: false };
+  }
+};
+
+export default runExecutor;
+
+async function loadGitBaseline(
+  spec: string,
+  ref: string,
+  root: string
+): Promise<unknown> {
+  if (isRemoteSpec(spec)) {
+    throw new ConfigurationError(
+      `Cannot read remote spec ${spec} at git revision '${ref}', use baselineSpec instead`
+    );
+  }
+  if (!gitFileExists(root, ref, resolveSpecLocation(spec, root))) {
+    logger.info(`${spec} does not exist at '${ref}'`);
+    return undefined;
+  }
+  return bundleSpec(spec, {
+    root,
+    mode: 'dereference',
+    readFile: async (path) => readGitFile(root, ref, path),
+  });
+}
+
+function getBaselineEntry(
+  baselineSpec: InputSpec,
+  name: string | undefined
+): string | undefined {
+  if (typeof baselineSpec === 'string') {
+    return baselineSpec;
+  }
+  return getInputSpecEntries(baselineSpec).find((entry) => entry.name === name)
+    ?.spec;
+}
+
+function getCachePath(
+  root: string,
+  context: ExecutorContext,
+  name: string | undefined
+): string {
+  return join(
+    root,
+    BASELINE_CACHE_DIR,
+    context.projectName ?? 'default',
+    context.targetName ?? 'diff-spec',
+    `${name ?? 'spec'}.json`
+  );
+}
+
+function loadCachedBaseline(path: string): unknown {
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  return JSON.parse(readFileSync(path, 'utf-8'));
+}
@@ -0,0 +1,24 @@
+import { InputSpecOption } from '../../lib/interfaces';
+import { SpecFetchOptions } from '../../lib/spec-fetch';
+
+export interface DiffSpecExecutorSchema {
+  inputSpec: InputSpecOption;
+  /**
+   * Compare against the specs at this git revision, e.g. 'origin/main'.
+   */
+  baseRef?: string;
+  /**
+   * Compare against these specs, same shape as `inputSpec`.
+   */
+  baselineSpec?: InputSpecOption;
+  allowBreaking?: boolean; // default: false
+  /**
+   * File to write the Markdown summary to, relative to the workspace root.
+   */
+  outputFile?: string;
+  /**
+   * Headers (from environment variables), CA bundle and proxy used to
+   * download remote specs.
+   */
+  fetchOptions?: SpecFetchOptions;
+}
@@ -0,0 +1,70 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ExecutorContext, logger } from '@nx/devkit';
+import executor from './executor';
+
+describe('export-spec executor', () => {
+  let root: string;
+  let ctx: ExecutorContext;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'core-export-spec-'));
+    ctx = {
+      root,
+      cwd: root,
+      projectName: 'backend',
+      isVerbose: false,
+      projectsConfigurations: { version: 2, projects: {} },
+      nxJsonConfiguration: {},
+      projectGraph: { nodes: {}, dependencies: {} },
+    } as unknown as ExecutorContext;
+
+    writeFileSync(
+      join(root, 'export.js'),
+      `module.exports = () => ({
+        paths: { '/users': {}, '/orders': {} },
+        info: { version: '1', title: 'Backend' },
+        openapi: '3.0.3',
+      });`
+    );
+    jest.spyOn(logger, 'info').mockImplementation(() => undefined);
+    jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should write the exported document with sorted keys', async () => {
+    const res = await executor(
+      { entry: 'export.js', outputFile: 'dist/backend/openapi.json' },
+      ctx
+    );
+
+    expect(res.success).toBe(true);
+    const content = readFileSync(
+      join(root, 'dist/backend/openapi.json'),
+      'utf-8'
+    );
+    expect(Object.keys(JSON.parse(content))).toEqual([
+      'info',
+      'openapi',
+      'paths',
+    ]);
+    expect(Object.keys(JSON.parse(content).paths)).toEqual([
+      '/orders',
+      '/users',
+    ]);
+  });
+
+  it('should fail if the export fails', async () => {
+    const res = await executor(
+      { entry: 'missing.js', outputFile: 'dist/backend/openapi.json' },
+      ctx
+    );
+
+    expect(res.success).toBe(false);
+  });
+});
@@ -0,0 +1,39 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { ExecutorContext, logger, PromiseExecutor } from '@nx/devkit';
+import { createGenerationSignal } from '../../lib/abort';
+import { exportSpec, serializeSpecDocument } from '../../lib/spec-export';
+import { ExportSpecExecutorSchema } from './schema';
+
+/**
+ * Exports the OpenAPI document of a backend and writes it with sorted keys,
+ * so it can be the cached input of the generate-api targets of its clients.
+ */
+const runExecutor: PromiseExecutor<ExportSpecExecutorSchema> = async (
+  options,
+  context: ExecutorContext
+) => {
+  const { outputFile, timeoutMs, ...exportOptions } = options;
+  const { signal, dispose } = createGenerationSignal(timeoutMs);
+  try {
+    const document = await exportSpec(exportOptions, {
+      root: context.root,
+      signal,
+      verbose: context.isVerbose,
+    });
+
+    const path = join(context.root, outputFile);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, serializeSpecDocument(document, outputFile));
+    logger.info(`Exported OpenAPI document to ${outputFile}`);
+    return { success: true };
+  } catch (e) {
+    logger.error('Exporting the OpenAPI document failed');
+    logger.error(e as unknown as Error);
+    return { success: false };
+  } finally {
+    dispose();
+  }
+};
+
+export default runExecutor;
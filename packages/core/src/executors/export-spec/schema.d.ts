@@ -0,0 +1,11 @@
+import { SpecExportOptions } from '../../lib/spec-export';
+
+export interface ExportSpecExecutorSchema extends SpecExportOptions {
+  /**
+   * File the document is written to, relative to the workspace root. `.json`,
+   * `.yaml` or `.yml`.
+   */
+  outputFile: string;
+  /** Stops the export after the given number of milliseconds */
+  timeoutMs?: number;
+}
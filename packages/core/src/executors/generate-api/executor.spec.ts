@@ -1,4 +1,15 @@
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { ExecutorContext } from '@nx/devkit';
+import { validateObject } from 'nx/src/utils/params';
 
 jest.mock('../../lib/plugin-loader', () => ({
   loadPlugin: jest.fn(),
@@ -30,7 +41,12 @@ describe('core generate-api executor', () => {
     });
 
     const res = await executor(
-      { generator: 'test-plugin', inputSpec: 'a.json', outputPath: 'out' },
+      {
+        generator: 'test-plugin',
+        inputSpec: 'a.json',
+        outputPath: 'out',
+        validateSpec: false,
+      },
       ctx
     );
     expect(res.success).toBe(true);
@@ -55,10 +71,449 @@ describe('core generate-api executor', () => {
         generator: 'test-plugin',
         inputSpec: { a: 'a.json', b: 'b.json' },
         outputPath: 'out',
+        validateSpec: false,
       },
       ctx
     );
     expect(res.success).toBe(true);
     expect(generate).toHaveBeenCalledTimes(1);
   });
+
+  it('bundles specs into temp files when bundle is enabled', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'core-executor-bundle-'));
+    writeFileSync(
+      join(root, 'api.json'),
+      JSON.stringify({
+        openapi: '3.0.0',
+        components: { schemas: { User: { $ref: 'user.json' } } },
+      })
+    );
+    writeFileSync(join(root, 'user.json'), JSON.stringify({ type: 'object' }));
+
+    let bundled: Record<string, string> = {};
+    const generate = jest.fn(
+      async (opts: { inputSpec: Record<string, string> }) => {
+        bundled = opts.inputSpec;
+        expect(JSON.parse(readFileSync(bundled['api'], 'utf-8'))).toEqual({
+          openapi: '3.0.0',
+          components: { schemas: { User: { type: 'object' } } },
+        });
+      }
+    );
+    GeneratorRegistry.instance().register({
+      name: 'bundle-plugin',
+      generate,
+    } as unknown as GeneratorPlugin);
+
+    try {
+      const res = await executor(
+        {
+          generator: 'bundle-plugin',
+          inputSpec: { api: 'api.json' },
+          outputPath: 'out',
+          validateSpec: false,
+          bundle: true,
+        },
+        { ...ctx, root }
+      );
+
+      expect(res.success).toBe(true);
+      expect(generate).toHaveBeenCalledTimes(1);
+      // Temp files are removed after generation
+      expect(existsSync(bundled['api'])).toBe(false);
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('applies transforms to the spec passed to the plugin', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'core-executor-transforms-'));
+    writeFileSync(
+      join(root, 'api.json'),
+      JSON.stringify({
+        openapi: '3.0.0',
+        info: { title: 'API', version: '1' },
+        paths: {
+          '/users': { get: { tags: ['users'] } },
+          '/admin': { get: { tags: ['internal'] } },
+        },
+      })
+    );
+    writeFileSync(
+      join(root, 'overlay.json'),
+      JSON.stringify({
+        overlay: '1.0.0',
+        actions: [{ target: '$.info', update: { title: 'Users' } }],
+      })
+    );
+
+    let transformed: unknown;
+    const generate = jest.fn(async (opts: { inputSpec: string }) => {
+      transformed = JSON.parse(readFileSync(opts.inputSpec, 'utf-8'));
+    });
+    GeneratorRegistry.instance().register({
+      name: 'transform-plugin',
+      generate,
+    } as unknown as GeneratorPlugin);
+
+    try {
+      const res = await executor(
+        {
+          generator: 'transform-plugin',
+          inputSpec: 'api.json',
+          outputPath: 'out',
+          validateSpec: false,
+          transforms: [
+            { type: 'filter', exclude: { tags: ['internal'] } },
+            { type: 'overlay', path: 'overlay.json' },
+          ],
+        },
+        { ...ctx, root }
+      );
+
+      expect(res.success).toBe(true);
+      expect(transformed).toEqual({
+        openapi: '3.0.0',
+        info: { title: 'Users', version: '1' },
+        paths: { '/users': { get: { tags: ['users'] } } },
+      });
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('generates only included operations and their schemas', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'core-executor-include-'));
+    writeFileSync(
+      join(root, 'api.json'),
+      JSON.stringify({
+        openapi: '3.0.0',
+        paths: {
+          '/users': {
+            get: {
+              operationId: 'listUsers',
+              responses: { '200': { $ref: '#/components/responses/Users' } },
+            },
+            delete: { operationId: 'deleteUsers' },
+          },
+          '/orders': {
+            get: { schema: { $ref: '#/components/schemas/Order' } },
+          },
+        },
+        components: {
+          responses: {
+            Users: { schema: { $ref: '#/components/schemas/User' } },
+          },
+          schemas: { User: {}, Order: {} },
+        },
+      })
+    );
+
+    let filtered: Record<string, unknown> = {};
+    const generate = jest.fn(async (opts: { inputSpec: string }) => {
+      filtered = JSON.parse(readFileSync(opts.inputSpec, 'utf-8'));
+    });
+    GeneratorRegistry.instance().register({
+      name: 'include-plugin',
+      generate,
+    } as unknown as GeneratorPlugin);
+
+    try {
+      const res = await executor(
+        {
+          generator: 'include-plugin',
+          inputSpec: 'api.json',
+          outputPath: 'out',
+          validateSpec: false,
+          include: { paths: ['/users'] },
+          exclude: { methods: ['delete'] },
+        },
+        { ...ctx, root }
+      );
+
+      expect(res.success).toBe(true);
+      expect(filtered['paths']).toEqual({
+        '/users': {
+          get: {
+            operationId: 'listUsers',
+            responses: { '200': { $ref: '#/components/responses/Users' } },
+          },
+        },
+      });
+      expect(filtered['components']).toEqual({
+        responses: { Users: { schema: { $ref: '#/components/schemas/User' } } },
+        schemas: { User: {} },
+      });
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('fails when a ref cannot be resolved', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'core-executor-bundle-'));
+    writeFileSync(
+      join(root, 'api.json'),
+      JSON.stringify({ openapi: '3.0.0', paths: { '/a': { $ref: 'a.json' } } })
+    );
+    const generate = jest.fn(async () => {});
+    GeneratorRegistry.instance().register({
+      name: 'bundle-plugin',
+      generate,
+    } as unknown as GeneratorPlugin);
+
+    try {
+      const res = await executor(
+        {
+          generator: 'bundle-plugin',
+          inputSpec: 'api.json',
+          outputPath: 'out',
+          bundle: 'dereference',
+        },
+        { ...ctx, root }
+      );
+
+      expect(res.success).toBe(false);
+      expect(generate).not.toHaveBeenCalled();
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('validates specs by default and fails before generating', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'core-executor-validate-'));
+    writeFileSync(
+      join(root, 'api.json'),
+      JSON.stringify({ openapi: '3.0.0', info: { title: 'A' }, paths: {} })
+    );
+    const generate = jest.fn(async () => {});
+    GeneratorRegistry.instance().register({
+      name: 'validate-plugin',
+      generate,
+    } as unknown as GeneratorPlugin);
+
+    try {
+      const res = await executor(
+        {
+          generator: 'validate-plugin',
+          inputSpec: 'api.json',
+          outputPath: 'out',
+        },
+        { ...ctx, root }
+      );
+
+      expect(res.success).toBe(false);
+      expect(generate).not.toHaveBeenCalled();
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('reports changes of the output directory', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'core-executor-changes-'));
+    mkdirSync(join(root, 'out'));
+    writeFileSync(join(root, 'out/api.ts'), 'a\nb\n');
+    writeFileSync(join(root, 'out/old.ts'), 'old\n');
+    const generate = jest.fn(async () => {
+      rmSync(join(root, 'out'), { recursive: true, force: true });
+      mkdirSync(join(root, 'out'));
+      writeFileSync(join(root, 'out/api.ts'), 'a\nc\n');
+      writeFileSync(join(root, 'out/new.ts'), 'new\n');
+    });
+    GeneratorRegistry.instance().register({
+      name: 'changes-plugin',
+      generate,
+    } as unknown as GeneratorPlugin);
+
+    try {
+      const res = await executor(
+        {
+          generator: 'changes-plugin',
+          inputSpec: 'api.json',
+          outputPath: 'out',
+          validateSpec: false,
+          changeReportFile: 'dist/changes.json',
+        },
+        { ...ctx, root }
+      );
+
+      expect(res.success).toBe(true);
+      const report = JSON.parse(
+        readFileSync(join(root, 'dist/changes.json'), 'utf-8')
+      );
+      expect(report).toMatchObject({
+        outputPath: 'out',
+        added: 1,
+        removed: 1,
+        modified: 1,
+        files: [
+          { path: 'api.ts', type: 'modified', additions: 1, deletions: 1 },
+          { path: 'new.ts', type: 'added', additions: 1, deletions: 0 },
+          { path: 'old.ts', type: 'removed', additions: 0, deletions: 1 },
+        ],
+      });
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('fails in check mode when the output is out of date', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'core-executor-check-'));
+    mkdirSync(join(root, 'out'));
+    writeFileSync(join(root, 'out/api.ts'), 'old\n');
+    const outputPaths: string[] = [];
+    const generate = jest.fn(
+      async (options: { outputPath: string }, { root }: { root: string }) => {
+        outputPaths.push(options.outputPath);
+        mkdirSync(join(root, options.outputPath), { recursive: true });
+        writeFileSync(join(root, options.outputPath, 'api.ts'), 'new\n');
+      }
+    );
+    GeneratorRegistry.instance().register({
+      name: 'check-plugin',
+      generate,
+    } as unknown as GeneratorPlugin);
+    const options = {
+      generator: 'check-plugin',
+      inputSpec: 'api.json',
+      outputPath: 'out',
+      validateSpec: false,
+      check: true,
+    };
+
+    try {
+      const outdated = await executor(options, { ...ctx, root });
+
+      expect(outdated.success).toBe(false);
+      expect(outputPaths[0]).toMatch(/^tmp\/nx-plugin-openapi\/check-/);
+      expect(existsSync(join(root, outputPaths[0]))).toBe(false);
+      expect(readFileSync(join(root, 'out/api.ts'), 'utf-8')).toBe('old\n');
+
+      writeFileSync(join(root, 'out/api.ts'), 'new\n');
+      const upToDate = await executor(options, { ...ctx, root });
+
+      expect(upToDate.success).toBe(true);
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('downloads remote specs once and passes local copies to the plugin', async () => {
+    const originalFetch = global.fetch;
+    process.env['SPEC_TOKEN'] = 'secret';
+    global.fetch = jest.fn(async () => ({
+      ok: true,
+      text: async () => '{"openapi":"3.0.0"}',
+    })) as unknown as typeof fetch;
+
+    let specs: Record<string, string> = {};
+    const generate = jest.fn(
+      async (opts: { inputSpec: Record<string, string> }) => {
+        specs = opts.inputSpec;
+        expect(readFileSync(specs['users'], 'utf-8')).toBe(
+          '{"openapi":"3.0.0"}'
+        );
+      }
+    );
+    GeneratorRegistry.instance().register({
+      name: 'remote-plugin',
+      generate,
+    } as unknown as GeneratorPlugin);
+
+    try {
+      const res = await executor(
+        {
+          generator: 'remote-plugin',
+          inputSpec: {
+            users: 'https://example.com/api.json',
+            admin: 'https://example.com/api.json',
+            local: 'local.json',
+          },
+          outputPath: 'out',
+          validateSpec: false,
+          fetchOptions: { headers: { Authorization: 'Bearer ${SPEC_TOKEN}' } },
+        },
+        ctx
+      );
+
+      expect(res.success).toBe(true);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://example.com/api.json',
+        {
+          headers: { Authorization: 'Bearer secret' },
+          signal: expect.any(Object),
+          redirect: 'manual',
+        }
+      );
+      expect(specs['admin']).toBe(specs['users']);
+      expect(specs['local']).toBe('local.json');
+      expect(existsSync(specs['users'])).toBe(false);
+    } finally {
+      global.fetch = originalFetch;
+      delete process.env['SPEC_TOKEN'];
+    }
+  });
+
+  it('cancels generation after timeoutMs', async () => {
+    const generate = jest.fn(
+      (_options: unknown, { signal }: { signal: AbortSignal }) =>
+        new Promise<void>((_resolve, reject) =>
+          signal.addEventListener('abort', () => reject(signal.reason))
+        )
+    );
+    GeneratorRegistry.instance().register({
+      name: 'slow-plugin',
+      generate,
+    } as unknown as GeneratorPlugin);
+    const listeners = process.listenerCount('SIGINT');
+
+    const res = await executor(
+      {
+        generator: 'slow-plugin',
+        inputSpec: 'a.json',
+        outputPath: 'out',
+        validateSpec: false,
+        timeoutMs: 5,
+      },
+      ctx
+    );
+
+    expect(res.success).toBe(false);
+    expect(generate).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ signal: expect.any(Object) })
+    );
+    expect(process.listenerCount('SIGINT')).toBe(listeners);
+  });
+
+  it('accepts every transform type in the executor schema', () => {
+    const schema = JSON.parse(
+      readFileSync(join(__dirname, 'schema.json'), 'utf-8')
+    );
+    const options = (transforms: unknown[]) => ({
+      generator: 'test-plugin',
+      inputSpec: 'a.json',
+      outputPath: 'out',
+      transforms,
+    });
+
+    expect(() =>
+      validateObject(
+        options([
+          { type: 'overlay', path: 'overlay.yaml' },
+          { type: 'filter', include: { tags: ['users'] }, prune: true },
+          { type: 'module', path: 'tools/transform.ts' },
+        ]),
+        schema,
+        {}
+      )
+    ).not.toThrow();
+    expect(() =>
+      validateObject(
+        options([{ type: 'filter', include: { tags: ['users'] }, foo: 1 }]),
+        schema,
+        {}
+      )
+    ).toThrow();
+  });
 });
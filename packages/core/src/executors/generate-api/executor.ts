@@ -1,6 +1,31 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join, relative, sep } from 'node:path';
 import { ExecutorContext, logger, PromiseExecutor } from '@nx/devkit';
 import { GeneratorRegistry } from '../../lib/registry';
 import { loadPlugin } from '../../lib/plugin-loader';
+import {
+  getInputSpecEntries,
+  isRemoteSpec,
+  mapInputSpec,
+} from '../../lib/input-spec';
+import { BundleMode, writeBundledSpec } from '../../lib/spec-bundler';
+import {
+  applySpecTransforms,
+  loadSpecTransforms,
+} from '../../lib/spec-transforms';
+import { downloadSpec } from '../../lib/spec-download';
+import { resolveInputSpec } from '../../lib/spec-reference';
+import { validateSpec } from '../../lib/spec-validator';
+import { formatDiagnostic } from '../../lib/diagnostics';
+import { SpecValidationError } from '../../lib/errors';
+import { createGenerationSignal } from '../../lib/abort';
+import {
+  compareSnapshots,
+  formatOutputChangeSummary,
+  OutputSnapshot,
+  snapshotDirectory,
+} from '../../lib/output-changes';
 import { CoreGenerateApiExecutorSchema } from './schema';
 
 const runExecutor: PromiseExecutor<CoreGenerateApiExecutorSchema> = async (
@@ -9,10 +34,16 @@ const runExecutor: PromiseExecutor<CoreGenerateApiExecutorSchema> = async (
 ) => {
   const {
     generator = 'openapi-tools',
-    inputSpec,
     outputPath,
     generatorOptions,
+    concurrency,
+    retry,
+    fetchOptions,
+    include,
+    exclude,
   } = options;
+  const tempDirs: string[] = [];
+  const { signal, dispose } = createGenerationSignal(options.timeoutMs);
   try {
     // Ensure plugin is available (load + register if needed)
     if (!GeneratorRegistry.instance().has(generator)) {
@@ -22,6 +53,83 @@ const runExecutor: PromiseExecutor<CoreGenerateApiExecutorSchema> = async (
 
     const plugin = GeneratorRegistry.instance().get(generator);
 
+    let inputSpec = await resolveInputSpec(
+      options.inputSpec,
+      context.projectsConfigurations.projects
+    );
+
+    // Remote specs are downloaded once, with the configured credentials, and
+    // every later step reads the local copies
+    if (getInputSpecEntries(inputSpec).some(({ spec }) => isRemoteSpec(spec))) {
+      const dir = mkdtempSync(join(tmpdir(), 'nx-plugin-openapi-specs-'));
+      tempDirs.push(dir);
+      const downloads = new Map<string, Promise<string>>();
+      inputSpec = await mapInputSpec(inputSpec, async ({ spec }) => {
+        if (!isRemoteSpec(spec)) return spec;
+        if (!downloads.has(spec)) {
+          downloads.set(
+            spec,
+            downloadSpec(spec, dir, {
+              root: context.root,
+              signal,
+              fetch: fetchOptions,
+            })
+          );
+        }
+        return downloads.get(spec) as Promise<string>;
+      });
+    }
+
+    if (options.validateSpec !== false) {
+      for (const { spec } of getInputSpecEntries(inputSpec)) {
+        const result = await validateSpec(spec, {
+          root: context.root,
+          signal,
+          fetch: fetchOptions,
+        });
+        for (const diagnostic of result.diagnostics) {
+          const message = formatDiagnostic(diagnostic);
+          if (diagnostic.severity === 'error') logger.error(message);
+          else logger.warn(message);
+        }
+        if (!result.valid) {
+          throw new SpecValidationError(spec, result.diagnostics);
+        }
+      }
+    }
+
+    // Operations are filtered after the transforms, which may fix their tags
+    // or operationIds
+    const transforms = [...(options.transforms ?? [])];
+    if (include || exclude) {
+      transforms.push({ type: 'filter', include, exclude, prune: true });
+    }
+
+    // Transforms work on self-contained documents, so they imply bundling
+    const bundleMode =
+      getBundleMode(options.bundle) ??
+      (transforms.length > 0 ? 'bundle' : undefined);
+    if (bundleMode) {
+      const dir = mkdtempSync(join(tmpdir(), 'nx-plugin-openapi-bundle-'));
+      tempDirs.push(dir);
+      const loadedTransforms = await loadSpecTransforms(transforms, {
+        root: context.root,
+      });
+      inputSpec = await mapInputSpec(inputSpec, ({ name, spec }) =>
+        writeBundledSpec(spec, dir, {
+          root: context.root,
+          signal,
+          fetch: fetchOptions,
+          mode: bundleMode,
+          name: name ?? 'spec',
+          transform:
+            loadedTransforms.length > 0
+              ? (document) => applySpecTransforms(document, loadedTransforms)
+              : undefined,
+        })
+      );
+    }
+
     // Validate if plugin offers it
     if (typeof plugin.validate === 'function') {
       await plugin.validate({
@@ -31,22 +139,89 @@ const runExecutor: PromiseExecutor<CoreGenerateApiExecutorSchema> = async (
       } as never);
     }
 
+    // In check mode the plugin generates into a scratch directory inside the
+    // workspace, which is compared against the committed output
+    const targetPath = options.check
+      ? createCheckOutputPath(context.root)
+      : outputPath;
+    if (options.check) {
+      tempDirs.push(join(context.root, targetPath));
+    }
+
+    const reportChanges =
+      options.check || options.reportChanges || !!options.changeReportFile;
+    const snapshot: OutputSnapshot | undefined = reportChanges
+      ? snapshotDirectory(join(context.root, outputPath))
+      : undefined;
+
     // Execute
     await plugin.generate(
-      { inputSpec, outputPath, generatorOptions } as never,
+      {
+        inputSpec,
+        outputPath: targetPath,
+        generatorOptions,
+        concurrency,
+        retry,
+      } as never,
       {
         root: context.root,
         workspaceName: context.projectName,
+        verbose: context.isVerbose,
+        signal,
       }
     );
 
+    if (snapshot) {
+      const report = compareSnapshots(
+        snapshot,
+        snapshotDirectory(join(context.root, targetPath)),
+        outputPath
+      );
+      logger.info(formatOutputChangeSummary(report));
+      if (options.changeReportFile) {
+        const reportPath = join(context.root, options.changeReportFile);
+        mkdirSync(dirname(reportPath), { recursive: true });
+        writeFileSync(reportPath, JSON.stringify(report, null, 2));
+      }
+      if (options.check && report.files.length > 0) {
+        logger.error(
+          `Generated code in ${outputPath} is out of date. Run the target without check to update it.`
+        );
+        return { success: false };
+      }
+    }
+
+    if (options.check) {
+      logger.info(`Generated code in ${outputPath} is up to date`);
+      return { success: true };
+    }
+
     logger.info(`Finished generating API using '${generator}'`);
     return { success: true };
   } catch (e) {
     logger.error(`API generation failed using '${generator}'`);
     logger.error(e as unknown as Error);
     return { success: false };
+  } finally {
+    dispose();
+    for (const dir of tempDirs) {
+      rmSync(dir, { recursive: true, force: true });
+    }
   }
 };
 
+function getBundleMode(
+  bundle: CoreGenerateApiExecutorSchema['bundle']
+): BundleMode | undefined {
+  if (bundle === true) return 'bundle';
+  return bundle || undefined;
+}
+
+function createCheckOutputPath(root: string): string {
+  const parent = join(root, 'tmp', 'nx-plugin-openapi');
+  mkdirSync(parent, { recursive: true });
+  const dir = mkdtempSync(join(parent, 'check-'));
+  return relative(root, dir).split(sep).join('/');
+}
+
 export default runExecutor;
@@ -0,0 +1,230 @@
+import { HasherContext, Task, TaskHasher } from '@nx/devkit';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+const mockWorkspaceRoot = mkdtempSync(join(tmpdir(), 'core-hasher-'));
+
+jest.mock('@nx/devkit', () => ({
+  ...jest.requireActual('@nx/devkit'),
+  workspaceRoot: mockWorkspaceRoot,
+}));
+
+import { generateApiHasher } from './hasher';
+
+describe('core generate-api hasher', () => {
+  const task: Task = {
+    id: 'demo:generate-api',
+    target: { project: 'demo', target: 'generate-api' },
+    overrides: {},
+    outputs: [],
+    parallelism: true,
+  };
+
+  function writeFile(path: string, content: string) {
+    const full = join(mockWorkspaceRoot, path);
+    mkdirSync(dirname(full), { recursive: true });
+    writeFileSync(full, content);
+  }
+
+  function createContext(
+    options: Record<string, unknown>,
+    configurations?: Record<string, Record<string, unknown>>
+  ): HasherContext {
+    return {
+      hasher: {
+        hashTask: jest.fn().mockResolvedValue({
+          value: 'base-hash',
+          details: { command: 'cmd', nodes: {}, implicitDeps: {}, runtime: {} },
+        }),
+      } as unknown as TaskHasher,
+      projectsConfigurations: {
+        version: 2,
+        projects: {
+          demo: {
+            root: 'apps/demo',
+            targets: {
+              'generate-api': {
+                executor: '@nx-plugin-openapi/core:generate-api',
+                options,
+                configurations,
+              },
+            },
+          },
+        },
+      },
+      taskGraph: { tasks: {}, dependencies: {}, roots: [] },
+      projectGraph: { nodes: {}, dependencies: {} },
+      nxJsonConfiguration: {},
+    } as unknown as HasherContext;
+  }
+
+  async function hash(
+    options: Record<string, unknown>,
+    t: Task = task,
+    configurations?: Record<string, Record<string, unknown>>
+  ) {
+    return (await generateApiHasher(t, createContext(options, configurations)))
+      .value;
+  }
+
+  beforeEach(() => {
+    writeFile('apps/demo/api.json', '{"openapi":"3.0.0"}');
+  });
+
+  afterAll(() => {
+    rmSync(mockWorkspaceRoot, { recursive: true, force: true });
+  });
+
+  it('should keep the details of the default task hash', async () => {
+    const result = await generateApiHasher(
+      task,
+      createContext({ inputSpec: 'apps/demo/api.json', outputPath: 'out' })
+    );
+
+    expect(result.value).not.toBe('base-hash');
+    expect(result.details).toEqual({
+      command: 'cmd',
+      nodes: {},
+      implicitDeps: {},
+      runtime: {},
+    });
+  });
+
+  it('should change when the spec content changes', async () => {
+    const options = { inputSpec: 'apps/demo/api.json', outputPath: 'out' };
+    const before = await hash(options);
+
+    writeFile('apps/demo/api.json', '{"openapi":"3.1.0"}');
+
+    expect(await hash(options)).not.toBe(before);
+  });
+
+  it('should change when a file referenced via $ref changes', async () => {
+    writeFile(
+      'specs/root.yaml',
+      "components:\n  schemas:\n    User:\n      $ref: 'schemas/user.yaml'"
+    );
+    writeFile('specs/schemas/user.yaml', 'type: object');
+    const options = { inputSpec: 'specs/root.yaml', outputPath: 'out' };
+    const before = await hash(options);
+
+    writeFile('specs/schemas/user.yaml', 'type: string');
+
+    expect(await hash(options)).not.toBe(before);
+  });
+
+  it('should hash every spec of a service map', async () => {
+    writeFile('specs/users.yaml', 'openapi: 3.0.0');
+    const options = {
+      inputSpec: { demo: 'apps/demo/api.json', users: 'specs/users.yaml' },
+      outputPath: 'out',
+    };
+    const before = await hash(options);
+
+    writeFile('specs/users.yaml', 'openapi: 3.1.0');
+
+    expect(await hash(options)).not.toBe(before);
+  });
+
+  it('should change when the generator or generatorOptions change', async () => {
+    const options = { inputSpec: 'apps/demo/api.json', outputPath: 'out' };
+    const base = await hash(options);
+
+    expect(await hash({ ...options, generator: 'hey-api' })).not.toBe(base);
+    expect(
+      await hash({ ...options, generatorOptions: { client: 'fetch' } })
+    ).not.toBe(base);
+  });
+
+  it('should hash the config file and template directory contents', async () => {
+    writeFile('apps/demo/openapi-config.json', '{"a":1}');
+    writeFile('apps/demo/templates/api.mustache', 'template');
+    const options = {
+      inputSpec: 'apps/demo/api.json',
+      outputPath: 'out',
+      generatorOptions: {
+        configFile: 'apps/demo/openapi-config.json',
+        templateDirectory: 'apps/demo/templates',
+      },
+    };
+    const base = await hash(options);
+
+    writeFile('apps/demo/openapi-config.json', '{"a":2}');
+    const afterConfig = await hash(options);
+    expect(afterConfig).not.toBe(base);
+
+    writeFile('apps/demo/templates/nested/model.mustache', 'model');
+    expect(await hash(options)).not.toBe(afterConfig);
+  });
+
+  it('should hash overlays and transform modules with their imports', async () => {
+    writeFile('tools/overlay.yaml', 'overlay: 1.0.0\nactions: []');
+    writeFile(
+      'tools/transform.ts',
+      `import { rename } from './helpers/rename.js';\nexport default rename;`
+    );
+    writeFile('tools/helpers/rename.ts', 'export const rename = (d) => d;');
+    const options = {
+      inputSpec: 'apps/demo/api.json',
+      outputPath: 'out',
+      transforms: [
+        { type: 'overlay', path: 'tools/overlay.yaml' },
+        { type: 'module', path: 'tools/transform.ts' },
+      ],
+    };
+    const base = await hash(options);
+
+    writeFile('tools/overlay.yaml', 'overlay: 1.0.0\nactions: [{}]');
+    const afterOverlay = await hash(options);
+    expect(afterOverlay).not.toBe(base);
+
+    writeFile('tools/helpers/rename.ts', 'export const rename = () => ({});');
+    expect(await hash(options)).not.toBe(afterOverlay);
+  });
+
+  it('should hash the options of the selected configuration', async () => {
+    writeFile('apps/demo/other.json', '{"openapi":"3.1.0"}');
+    const options = { inputSpec: 'apps/demo/api.json', outputPath: 'out' };
+    const configurations = { other: { inputSpec: 'apps/demo/other.json' } };
+
+    const base = await hash(options, task, configurations);
+    const other = await hash(
+      options,
+      { ...task, target: { ...task.target, configuration: 'other' } },
+      configurations
+    );
+
+    expect(other).not.toBe(base);
+  });
+
+  it('should hash remote specs by content', async () => {
+    const fetchSpy = jest.fn().mockResolvedValue({
+      ok: true,
+      text: async () => '{"openapi":"3.0.0"}',
+    });
+    global.fetch = fetchSpy;
+    const options = {
+      inputSpec: 'https://example.com/openapi.json',
+      outputPath: 'out',
+    };
+
+    const before = await hash(options);
+    fetchSpy.mockResolvedValue({
+      ok: true,
+      text: async () => '{"openapi":"3.1.0"}',
+    });
+
+    expect(await hash(options)).not.toBe(before);
+    expect(fetchSpy).toHaveBeenCalledWith(
+      'https://example.com/openapi.json',
+      expect.any(Object)
+    );
+  });
+
+  it('should fail for invalid options', async () => {
+    await expect(hash({ outputPath: 'out' })).rejects.toThrow(
+      'Error parsing executor options'
+    );
+  });
+});
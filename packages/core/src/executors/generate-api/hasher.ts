@@ -0,0 +1,106 @@
+import {
+  CustomHasher,
+  Hash,
+  hashArray,
+  logger,
+  workspaceRoot,
+} from '@nx/devkit';
+import { join } from 'node:path';
+import { getInputSpecEntries } from '../../lib/input-spec';
+import { getPluginPackageName } from '../../lib/plugin-loader';
+import { OptionsValidator } from '../../lib/validation';
+import { resolveInputSpec } from '../../lib/spec-reference';
+import { log } from '../../generators/utils/log';
+import {
+  getPackageVersion,
+  getTaskOptions,
+  hashLocalPath,
+  hashModule,
+  hashSpec,
+} from '../utils/hashing';
+import { CoreGenerateApiExecutorSchema } from './schema';
+
+/**
+ * Hashes the contents of every spec of the task (local or remote) including
+ * all documents reachable through external `$ref`s, the generator plugin and
+ * its version, the generator options and any referenced config file or
+ * template directory, overlay and transform module (with its local imports).
+ */
+export const generateApiHasher: CustomHasher = async (task, context) => {
+  const options = getTaskOptions<CoreGenerateApiExecutorSchema>(task, context);
+
+  const result = new OptionsValidator().validate(options);
+  if (!result.valid) {
+    const message = result.errors.map((e) => e.message).join('; ');
+    logger.error(
+      log(`Error parsing executor options for task ${task.target.target}`)
+    );
+    throw new Error(
+      log(
+        `Error parsing executor options for task ${task.target.target}: ${message}`
+      )
+    );
+  }
+
+  const taskHash = await context.hasher.hashTask(
+    task,
+    context.taskGraph,
+    process.env
+  );
+
+  const generator = options.generator ?? 'openapi-tools';
+  const hashes: string[] = [
+    taskHash.value,
+    generator,
+    getPackageVersion(getPluginPackageName(generator)),
+    JSON.stringify(options.generatorOptions ?? {}),
+  ];
+
+  const generatorOptionSets = [options.generatorOptions ?? {}];
+  const inputSpec = await resolveInputSpec(
+    options.inputSpec,
+    context.projectsConfigurations.projects
+  );
+  for (const entry of getInputSpecEntries(inputSpec)) {
+    const { name, spec, outputPath, generatorOptions } = entry;
+    hashes.push(name ?? '', spec, await hashSpec(spec, options.fetchOptions));
+    if (outputPath || generatorOptions) {
+      hashes.push(JSON.stringify({ outputPath, generatorOptions }));
+      generatorOptionSets.push(generatorOptions ?? {});
+    }
+  }
+
+  hashes.push(
+    JSON.stringify({ include: options.include, exclude: options.exclude })
+  );
+  for (const transform of options.transforms ?? []) {
+    hashes.push(JSON.stringify(transform));
+    if (transform.type === 'overlay') {
+      hashes.push(hashLocalPath(join(workspaceRoot, transform.path)));
+    } else if (transform.type === 'module') {
+      hashes.push(hashModule(join(workspaceRoot, transform.path)));
+    }
+  }
+
+  for (const generatorOptions of generatorOptionSets) {
+    const configFile = generatorOptions['configFile'];
+    if (typeof configFile === 'string' && configFile.length > 0) {
+      hashes.push(configFile, hashLocalPath(join(workspaceRoot, configFile)));
+    }
+    const templateDirectory = generatorOptions['templateDirectory'];
+    if (typeof templateDirectory === 'string' && templateDirectory.length > 0) {
+      hashes.push(
+        templateDirectory,
+        hashLocalPath(join(workspaceRoot, templateDirectory))
+      );
+    }
+  }
+
+  const hash: Hash = {
+    value: hashArray(hashes),
+    details: taskHash.details,
+  };
+  return hash;
+};
+
+export default generateApiHasher;
@@ -1,8 +1,67 @@
-import { InputSpec } from '../../lib/interfaces';
+import { InputSpecOption } from '../../lib/interfaces';
+import { RetryOptions } from '../../lib/retry';
+import { SpecFetchOptions } from '../../lib/spec-fetch';
+import { OperationSelector, SpecTransform } from '../../lib/spec-transforms';
 
 export interface CoreGenerateApiExecutorSchema {
   generator?: string; // default: 'openapi-tools'
-  inputSpec: InputSpec;
+  inputSpec: InputSpecOption;
   outputPath: string;
   generatorOptions?: Record<string, unknown>;
+  /**
+   * Resolve external $refs into a single document before generating.
+   * `true`/'bundle' keeps internal refs, 'dereference' inlines all refs.
+   */
+  bundle?: boolean | 'bundle' | 'dereference';
+  /**
+   * Overlays, operation filters and transform modules applied, in order, to
+   * the bundled spec before it is passed to the generator. Implies `bundle`.
+   */
+  transforms?: SpecTransform[];
+  /**
+   * Only generate the operations matching this selector. Components that are
+   * no longer referenced are removed. Implies `bundle`.
+   */
+  include?: OperationSelector;
+  /**
+   * Don't generate the operations matching this selector. Components that
+   * are no longer referenced are removed. Implies `bundle`.
+   */
+  exclude?: OperationSelector;
+  /**
+   * Validate specs against the OpenAPI/Swagger JSON Schema before generating.
+   * Defaults to true.
+   */
+  validateSpec?: boolean;
+  /**
+   * Print the added/removed/modified files of the output directory.
+   */
+  reportChanges?: boolean;
+  /**
+   * Write the change report as JSON to this file, implies `reportChanges`.
+   */
+  changeReportFile?: string;
+  /**
+   * Generate into a temporary directory and fail if it differs from
+   * `outputPath`, without touching `outputPath`.
+   */
+  check?: boolean;
+  /**
+   * Max. number of services of a multi-service inputSpec generated in parallel.
+   */
+  concurrency?: number; // default: 1
+  /**
+   * Retries of failed generator runs. By default, spawn, network and exit
+   * code failures are retried up to 3 attempts, validation errors never.
+   */
+  retry?: RetryOptions;
+  /**
+   * Cancel generation if it takes longer, killing generator processes.
+   */
+  timeoutMs?: number;
+  /**
+   * Headers (from environment variables), CA bundle and proxy used to
+   * download remote specs.
+   */
+  fetchOptions?: SpecFetchOptions;
 }
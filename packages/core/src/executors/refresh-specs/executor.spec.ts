@@ -0,0 +1,101 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ExecutorContext, logger } from '@nx/devkit';
+import { hashSpecContent, SPEC_LOCK_FILE } from '../../lib/spec-lock';
+import executor from './executor';
+
+describe('refresh-specs executor', () => {
+  const originalFetch = global.fetch;
+  let root: string;
+  let ctx: ExecutorContext;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'core-refresh-specs-'));
+    ctx = {
+      root,
+      cwd: root,
+      projectName: 'demo',
+      isVerbose: false,
+      projectsConfigurations: { version: 2, projects: {} },
+      nxJsonConfiguration: {},
+      projectGraph: { nodes: {}, dependencies: {} },
+    } as unknown as ExecutorContext;
+
+    const documents: Record<string, string> = {
+      'https://example.com/specs/api.yaml': "a:\n  $ref: 'common.yaml'",
+      'https://example.com/specs/common.yaml': 'type: object',
+    };
+    global.fetch = jest.fn(async (url: string) => ({
+      ok: true,
+      status: 200,
+      headers: new Map([['etag', `"${url.length}"`]]),
+      text: async () => documents[url],
+    })) as unknown as typeof fetch;
+    jest.spyOn(logger, 'info').mockImplementation(() => undefined);
+    jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    rmSync(root, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should lock remote specs and their remote refs', async () => {
+    writeFileSync(
+      join(root, SPEC_LOCK_FILE),
+      JSON.stringify({
+        version: 1,
+        specs: { 'https://other.com/api.yaml': { sha256: 'abc' } },
+      })
+    );
+
+    const res = await executor(
+      {
+        inputSpec: {
+          api: 'https://example.com/specs/api.yaml',
+          again: 'https://example.com/specs/api.yaml',
+        },
+      },
+      ctx
+    );
+
+    expect(res.success).toBe(true);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(
+      JSON.parse(readFileSync(join(root, SPEC_LOCK_FILE), 'utf-8'))
+    ).toEqual({
+      version: 1,
+      specs: {
+        'https://example.com/specs/api.yaml': {
+          etag: '"34"',
+          sha256: hashSpecContent("a:\n  $ref: 'common.yaml'"),
+        },
+        'https://example.com/specs/common.yaml': {
+          etag: '"37"',
+          sha256: hashSpecContent('type: object'),
+        },
+        'https://other.com/api.yaml': { sha256: 'abc' },
+      },
+    });
+    expect(logger.info).toHaveBeenCalledWith(
+      'added     https://example.com/specs/api.yaml'
+    );
+  });
+
+  it('should fail if a spec cannot be fetched', async () => {
+    global.fetch = jest.fn(async () => ({
+      ok: false,
+      status: 503,
+      statusText: 'Service Unavailable',
+    })) as unknown as typeof fetch;
+
+    const res = await executor(
+      { inputSpec: 'https://example.com/specs/api.yaml' },
+      ctx
+    );
+
+    expect(res.success).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+import { ExecutorContext, logger, PromiseExecutor } from '@nx/devkit';
+import { getInputSpecEntries } from '../../lib/input-spec';
+import { resolveSpecDependencies } from '../../lib/spec-dependencies';
+import { resolveInputSpec } from '../../lib/spec-reference';
+import {
+  readSpecLock,
+  refreshLockedSpec,
+  SPEC_LOCK_FILE,
+  SpecLockChange,
+  writeSpecLock,
+} from '../../lib/spec-lock';
+import { RefreshSpecsExecutorSchema } from './schema';
+
+/**
+ * Fetches every remote document reachable from the input specs and records
+ * it in the spec lockfile. Entries of other specs are kept.
+ */
+const runExecutor: PromiseExecutor<RefreshSpecsExecutorSchema> = async (
+  options,
+  context: ExecutorContext
+) => {
+  const { fetchOptions } = options;
+  const root = context.root;
+  try {
+    const inputSpec = await resolveInputSpec(
+      options.inputSpec,
+      context.projectsConfigurations.projects
+    );
+    const lock = readSpecLock(root);
+    const refreshed = new Map<
+      string,
+      { content: string; change: SpecLockChange }
+    >();
+
+    for (const { spec } of getInputSpecEntries(inputSpec)) {
+      await resolveSpecDependencies(spec, {
+        root,
+        fetch: fetchOptions,
+        readRemote: async (url) => {
+          let result = refreshed.get(url);
+          if (!result) {
+            result = await refreshLockedSpec(url, lock, {
+              root,
+              fetch: fetchOptions,
+            });
+            refreshed.set(url, result);
+          }
+          return result.content;
+        },
+      });
+    }
+
+    if (refreshed.size === 0) {
+      logger.info('No remote specs to lock');
+      return { success: true };
+    }
+
+    writeSpecLock(root, lock);
+    for (const [url, { change }] of refreshed) {
+      logger.info(`${change.padEnd(9)} ${url}`);
+    }
+    logger.info(`Updated ${SPEC_LOCK_FILE}`);
+    return { success: true };
+  } catch (e) {
+    logger.error('Refreshing specs failed');
+    logger.error(e as unknown as Error);
+    return { success: false };
+  }
+};
+
+export default runExecutor;
@@ -0,0 +1,11 @@
+import { InputSpecOption } from '../../lib/interfaces';
+import { SpecFetchOptions } from '../../lib/spec-fetch';
+
+export interface RefreshSpecsExecutorSchema {
+  inputSpec: InputSpecOption;
+  /**
+   * Headers (from environment variables), CA bundle and proxy used to
+   * download remote specs.
+   */
+  fetchOptions?: SpecFetchOptions;
+}
@@ -0,0 +1,166 @@
+import {
+  hashArray,
+  HasherContext,
+  logger,
+  readJsonFile,
+  Task,
+  workspaceRoot,
+} from '@nx/devkit';
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { dirname, join, relative, resolve } from 'node:path';
+import { isRemoteSpec } from '../../lib/input-spec';
+import { resolveSpecDependencies } from '../../lib/spec-dependencies';
+import { SpecFetchOptions } from '../../lib/spec-fetch';
+import { log } from '../../generators/utils/log';
+
+/**
+ * Returns the options a task runs with: the target options, merged with the
+ * selected configuration and command line overrides.
+ */
+export function getTaskOptions<T>(task: Task, context: HasherContext): T {
+  const target =
+    context.projectsConfigurations.projects[task.target.project]?.targets?.[
+      task.target.target
+    ];
+  const configuration = task.target.configuration
+    ? target?.configurations?.[task.target.configuration]
+    : undefined;
+
+  const options = {
+    ...target?.options,
+    ...configuration,
+    ...task.overrides,
+  };
+  delete options['__overrides_unparsed__'];
+  return options as T;
+}
+
+/**
+ * Hashes a (local or remote) spec and every document reachable from it
+ * through external `$ref`s. Remote documents are fetched like the executors
+ * fetch them, with the headers, CA bundle and proxy of `fetchOptions`.
+ */
+export async function hashSpec(
+  spec: string,
+  fetchOptions?: SpecFetchOptions
+): Promise<string> {
+  if (isRemoteSpec(spec)) {
+    logger.verbose(log(`Fetching remote OpenAPI spec ${spec} for hashing`));
+  }
+  const { files, urls, contents } = await resolveSpecDependencies(spec, {
+    root: workspaceRoot,
+    fetch: fetchOptions,
+  });
+
+  const hashes: string[] = [];
+  for (const location of [...files, ...urls]) {
+    const content = contents.get(location);
+    if (content === undefined) {
+      logger.verbose(log(`OpenAPI spec ${location} does not exist`));
+    }
+    hashes.push(
+      isRemoteSpec(location) ? location : relative(workspaceRoot, location),
+      content === undefined ? 'missing' : hashArray([content])
+    );
+  }
+  return hashArray(hashes);
+}
+
+/**
+ * Hashes a file, or every file below a directory (sorted for stable results).
+ */
+export function hashLocalPath(path: string): string {
+  if (!existsSync(path)) {
+    return 'missing';
+  }
+  if (!statSync(path).isDirectory()) {
+    return hashArray([readFileSync(path, 'utf-8')]);
+  }
+
+  const hashes: string[] = [];
+  for (const file of listFiles(path)) {
+    hashes.push(relative(path, file), hashArray([readFileSync(file, 'utf-8')]));
+  }
+  return hashArray(hashes);
+}
+
+function listFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((entry) => {
+      const full = join(dir, entry.name);
+      return entry.isDirectory() ? listFiles(full) : [full];
+    });
+}
+
+const MODULE_EXTENSIONS = [
+  '.ts',
+  '.tsx',
+  '.mts',
+  '.cts',
+  '.js',
+  '.mjs',
+  '.cjs',
+];
+
+const MODULE_SPECIFIER =
+  /(?:\bfrom\s*|\bimport\s*|\brequire\s*\(\s*|\bimport\s*\(\s*)['"]([^'"]+)['"]/g;
+
+/**
+ * Hashes a JavaScript or TypeScript module and every local module it imports,
+ * directly or indirectly. Only relative imports are followed, packages and
+ * path aliases are not.
+ */
+export function hashModule(path: string): string {
+  const hashes: string[] = [];
+  const visited = new Set<string>();
+  const pending = [path];
+  while (pending.length > 0) {
+    const file = pending.pop() as string;
+    if (visited.has(file)) continue;
+    visited.add(file);
+
+    if (!existsSync(file)) {
+      hashes.push(relative(workspaceRoot, file), 'missing');
+      continue;
+    }
+    const content = readFileSync(file, 'utf-8');
+    hashes.push(relative(workspaceRoot, file), hashArray([content]));
+    for (const [, specifier] of content.matchAll(MODULE_SPECIFIER)) {
+      if (specifier.startsWith('./') || specifier.startsWith('../')) {
+        pending.push(resolveModuleFile(resolve(dirname(file), specifier)));
+      }
+    }
+  }
+  return hashArray(hashes);
+}
+
+/**
+ * Returns the version of an installed package, or `unknown` if it can't be
+ * resolved from the workspace root.
+ */
+export function getPackageVersion(pkg: string): string {
+  try {
+    const packageJsonPath = require.resolve(`${pkg}/package.json`, {
+      paths: [workspaceRoot],
+    });
+    return readJsonFile(packageJsonPath).version ?? 'unknown';
+  } catch {
+    logger.verbose(log(`Could not determine the version of ${pkg}`));
+    return 'unknown';
+  }
+}
+
+function resolveModuleFile(path: string): string {
+  // `./util.js` can refer to `./util.ts` in TypeScript sources
+  const base = path.replace(/\.[cm]?js$/, '');
+  const candidates = [
+    path,
+    ...MODULE_EXTENSIONS.map((ext) => base + ext),
+    ...MODULE_EXTENSIONS.map((ext) => join(path, `index${ext}`)),
+  ];
+  return (
+    candidates.find((file) => existsSync(file) && statSync(file).isFile()) ??
+    path
+  );
+}
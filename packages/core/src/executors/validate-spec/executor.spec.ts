@@ -0,0 +1,191 @@
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ExecutorContext, logger } from '@nx/devkit';
+import executor from './executor';
+
+describe('validate-spec executor', () => {
+  let root: string;
+  let ctx: ExecutorContext;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'core-validate-spec-'));
+    ctx = {
+      root,
+      cwd: root,
+      projectName: 'demo',
+      isVerbose: false,
+      projectsConfigurations: { version: 2, projects: {} },
+      nxJsonConfiguration: {},
+      projectGraph: { nodes: {}, dependencies: {} },
+    } as unknown as ExecutorContext;
+
+    writeFileSync(
+      join(root, 'valid.json'),
+      JSON.stringify({
+        openapi: '3.0.3',
+        info: { title: 'A', version: '1' },
+        paths: {},
+      })
+    );
+    writeFileSync(
+      join(root, 'invalid.json'),
+      JSON.stringify({ openapi: '3.0.3', info: { title: 'A' }, paths: {} })
+    );
+    jest.spyOn(logger, 'info').mockImplementation(() => undefined);
+    jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should succeed for valid specs', async () => {
+    const res = await executor({ inputSpec: 'valid.json' }, ctx);
+
+    expect(res.success).toBe(true);
+    expect(logger.info).toHaveBeenCalledWith('valid.json: no problems found');
+  });
+
+  it('should validate specs referenced from other projects', async () => {
+    mkdirSync(join(root, 'dist/backend'), { recursive: true });
+    writeFileSync(
+      join(root, 'dist/backend/api.json'),
+      readFileSync(join(root, 'valid.json'))
+    );
+    ctx.projectsConfigurations.projects['backend'] = {
+      root: 'apps/backend',
+      targets: { export: { outputs: ['{workspaceRoot}/dist/backend'] } },
+    };
+
+    const res = await executor(
+      { inputSpec: { project: 'backend', target: 'export', file: 'api.json' } },
+      ctx
+    );
+
+    expect(res.success).toBe(true);
+    expect(logger.info).toHaveBeenCalledWith(
+      'dist/backend/api.json: no problems found'
+    );
+  });
+
+  it('should fail for invalid specs and report relative file paths', async () => {
+    const res = await executor(
+      { inputSpec: { a: 'valid.json', b: 'invalid.json' } },
+      ctx
+    );
+
+    expect(res.success).toBe(false);
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "invalid.json:1:20 - error spec-schema: Missing required property 'version' (#/info)"
+      )
+    );
+  });
+
+  it('should downgrade or disable rules', async () => {
+    const warn = await executor(
+      { inputSpec: 'invalid.json', rules: { 'spec-schema': 'warn' } },
+      ctx
+    );
+    expect(warn.success).toBe(true);
+
+    const failOnWarnings = await executor(
+      {
+        inputSpec: 'invalid.json',
+        rules: { 'spec-schema': 'warn' },
+        failOnWarnings: true,
+      },
+      ctx
+    );
+    expect(failOnWarnings.success).toBe(false);
+
+    const off = await executor(
+      { inputSpec: 'invalid.json', rules: { 'spec-schema': 'off' } },
+      ctx
+    );
+    expect(off.success).toBe(true);
+    expect(logger.info).toHaveBeenLastCalledWith(
+      'invalid.json: no problems found'
+    );
+  });
+
+  it('should write JSON reports', async () => {
+    await executor(
+      {
+        inputSpec: { api: 'invalid.json' },
+        format: 'json',
+        outputFile: 'reports/spec.json',
+      },
+      ctx
+    );
+
+    const report = JSON.parse(
+      readFileSync(join(root, 'reports/spec.json'), 'utf-8')
+    );
+    expect(report).toEqual([
+      {
+        name: 'api',
+        spec: 'invalid.json',
+        diagnostics: [
+          expect.objectContaining({
+            severity: 'error',
+            code: 'spec-schema',
+            file: 'invalid.json',
+            pointer: '/info',
+          }),
+        ],
+      },
+    ]);
+  });
+
+  it('should write JUnit reports', async () => {
+    await executor(
+      {
+        inputSpec: { a: 'valid.json', b: 'invalid.json' },
+        format: 'junit',
+        outputFile: 'reports/spec.xml',
+      },
+      ctx
+    );
+
+    const report = readFileSync(join(root, 'reports/spec.xml'), 'utf-8');
+    expect(report).toContain(
+      '<testsuites name="validate-spec" tests="2" failures="1" errors="0">'
+    );
+    expect(report).toContain('<testcase name="valid" classname="valid.json"/>');
+    expect(report).toContain(
+      '<failure message="Missing required property &apos;version&apos;" type="spec-schema">'
+    );
+  });
+
+  it('should run lint rulesets', async () => {
+    writeFileSync(
+      join(root, 'rules.js'),
+      `module.exports = { 'title-required': { given: '$.info', severity: 'error', then: (info) => info.title === 'A' ? { message: 'Title must not be A' } : undefined } };`
+    );
+
+    const res = await executor(
+      {
+        inputSpec: 'valid.json',
+        rulesets: ['recommended', './rules.js'],
+        rules: { 'operation-operationId': 'off' },
+      },
+      ctx
+    );
+
+    expect(res.success).toBe(false);
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'valid.json:1:20 - error title-required: Title must not be A (#/info)'
+      )
+    );
+  });
+});
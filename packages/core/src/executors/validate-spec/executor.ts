@@ -0,0 +1,87 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative } from 'node:path';
+import { ExecutorContext, logger, PromiseExecutor } from '@nx/devkit';
+import { getInputSpecEntries, isRemoteSpec } from '../../lib/input-spec';
+import { validateSpec } from '../../lib/spec-validator';
+import { lintSpec } from '../../lib/lint';
+import { resolveInputSpec } from '../../lib/spec-reference';
+import { loadLintRulesets } from '../../lib/ruleset-loader';
+import { applyRuleSeverities, hasErrors } from '../../lib/diagnostics';
+import {
+  formatDiagnosticReport,
+  SpecDiagnostics,
+} from '../../lib/diagnostic-report';
+import { ValidateSpecExecutorSchema } from './schema';
+
+const runExecutor: PromiseExecutor<ValidateSpecExecutorSchema> = async (
+  options,
+  context: ExecutorContext
+) => {
+  const {
+    rules,
+    rulesets = [],
+    format = 'text',
+    outputFile,
+    fetchOptions,
+  } = options;
+  try {
+    const lintRules = await loadLintRulesets(rulesets, { root: context.root });
+    const lint = Object.keys(lintRules).length > 0;
+
+    const inputSpec = await resolveInputSpec(
+      options.inputSpec,
+      context.projectsConfigurations.projects
+    );
+    const results: SpecDiagnostics[] = [];
+    for (const { name, spec } of getInputSpecEntries(inputSpec)) {
+      const result = await validateSpec(spec, {
+        root: context.root,
+        fetch: fetchOptions,
+      });
+      // Documents that cannot be parsed are only reported once
+      const lintDiagnostics =
+        lint && result.version
+          ? await lintSpec(spec, {
+              root: context.root,
+              fetch: fetchOptions,
+              rules: lintRules,
+            })
+          : [];
+      const diagnostics = applyRuleSeverities(
+        [...result.diagnostics, ...lintDiagnostics],
+        rules
+      ).map((d) => ({
+        ...d,
+        file: isRemoteSpec(d.file) ? d.file : relative(context.root, d.file),
+      }));
+      results.push({ name, spec, diagnostics });
+    }
+
+    const report = formatDiagnosticReport(results, format);
+    if (outputFile) {
+      const path = join(context.root, outputFile);
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, report);
+      logger.info(formatDiagnosticReport(results, 'text'));
+      logger.info(`Wrote ${format} report to ${outputFile}`);
+    } else {
+      logger.info(report);
+    }
+
+    const diagnostics = results.flatMap((r) => r.diagnostics);
+    const failed =
+      hasErrors(diagnostics) ||
+      (!!options.failOnWarnings &&
+        diagnostics.some((d) => d.severity === 'warning'));
+    if (failed) {
+      logger.error('Spec validation failed');
+    }
+    return { success: !failed };
+  } catch (e) {
+    logger.error('Spec validation failed');
+    logger.error(e as unknown as Error);
+    return { success: false };
+  }
+};
+
+export default runExecutor;
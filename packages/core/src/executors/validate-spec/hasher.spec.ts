@@ -0,0 +1,107 @@
+import { HasherContext, Task, TaskHasher } from '@nx/devkit';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+const mockWorkspaceRoot = mkdtempSync(join(tmpdir(), 'core-validate-hasher-'));
+
+jest.mock('@nx/devkit', () => ({
+  ...jest.requireActual('@nx/devkit'),
+  workspaceRoot: mockWorkspaceRoot,
+}));
+
+import { validateSpecHasher } from './hasher';
+
+describe('core validate-spec hasher', () => {
+  const task: Task = {
+    id: 'demo:validate-spec',
+    target: { project: 'demo', target: 'validate-spec' },
+    overrides: {},
+    outputs: [],
+    parallelism: true,
+  };
+
+  function writeFile(path: string, content: string) {
+    const full = join(mockWorkspaceRoot, path);
+    mkdirSync(dirname(full), { recursive: true });
+    writeFileSync(full, content);
+  }
+
+  async function hash(options: Record<string, unknown>) {
+    const context = {
+      hasher: {
+        hashTask: jest.fn().mockResolvedValue({
+          value: 'base-hash',
+          details: { command: 'cmd', nodes: {}, implicitDeps: {}, runtime: {} },
+        }),
+      } as unknown as TaskHasher,
+      projectsConfigurations: {
+        version: 2,
+        projects: {
+          demo: {
+            root: 'apps/demo',
+            targets: {
+              'validate-spec': {
+                executor: '@nx-plugin-openapi/core:validate-spec',
+                options,
+              },
+            },
+          },
+        },
+      },
+      taskGraph: { tasks: {}, dependencies: {}, roots: [] },
+      projectGraph: { nodes: {}, dependencies: {} },
+      nxJsonConfiguration: {},
+    } as unknown as HasherContext;
+    return (await validateSpecHasher(task, context)).value;
+  }
+
+  beforeEach(() => {
+    writeFile('apps/demo/api.json', '{"openapi":"3.0.0"}');
+  });
+
+  afterAll(() => {
+    rmSync(mockWorkspaceRoot, { recursive: true, force: true });
+  });
+
+  it('should change when a ruleset file or one of its imports changes', async () => {
+    const options = {
+      inputSpec: 'apps/demo/api.json',
+      rulesets: ['recommended', 'tools/openapi-rules.ts'],
+    };
+    writeFile(
+      'tools/openapi-rules.ts',
+      `import { naming } from './rules/naming';\nexport default { naming };`
+    );
+    writeFile('tools/rules/naming.ts', 'export const naming = 1;');
+    const before = await hash(options);
+
+    writeFile('tools/rules/naming.ts', 'export const naming = 2;');
+    const helperChanged = await hash(options);
+    expect(helperChanged).not.toBe(before);
+
+    writeFile(
+      'tools/openapi-rules.ts',
+      `import { naming } from './rules/naming';\nexport default { naming, x: 1 };`
+    );
+    expect(await hash(options)).not.toBe(helperChanged);
+  });
+
+  it('should hash the version of ruleset packages', async () => {
+    const options = {
+      inputSpec: 'apps/demo/api.json',
+      rulesets: ['@acme/openapi-rules/strict'],
+    };
+    writeFile(
+      'node_modules/@acme/openapi-rules/package.json',
+      '{"name":"@acme/openapi-rules","version":"1.0.0"}'
+    );
+    const before = await hash(options);
+
+    writeFile(
+      'node_modules/@acme/openapi-rules/package.json',
+      '{"name":"@acme/openapi-rules","version":"1.1.0"}'
+    );
+    expect(await hash(options)).not.toBe(before);
+  });
+});
@@ -0,0 +1,60 @@
+import { CustomHasher, Hash, hashArray, workspaceRoot } from '@nx/devkit';
+import { isAbsolute, join } from 'node:path';
+import { getInputSpecEntries } from '../../lib/input-spec';
+import { isBuiltinRuleset, isRulesetFile } from '../../lib/ruleset-loader';
+import { resolveInputSpec } from '../../lib/spec-reference';
+import {
+  getPackageVersion,
+  getTaskOptions,
+  hashModule,
+  hashSpec,
+} from '../utils/hashing';
+import { ValidateSpecExecutorSchema } from './schema';
+
+/**
+ * Hashes the contents of every spec of the task, including all documents
+ * reachable through external `$ref`s, the lint ruleset files and their local
+ * imports, and the versions of ruleset packages.
+ */
+export const validateSpecHasher: CustomHasher = async (task, context) => {
+  const options = getTaskOptions<ValidateSpecExecutorSchema>(task, context);
+
+  const taskHash = await context.hasher.hashTask(
+    task,
+    context.taskGraph,
+    process.env
+  );
+
+  const hashes: string[] = [taskHash.value];
+  const inputSpec = await resolveInputSpec(
+    options.inputSpec ?? {},
+    context.projectsConfigurations.projects
+  );
+  for (const { name, spec } of getInputSpecEntries(inputSpec)) {
+    hashes.push(name ?? '', spec, await hashSpec(spec, options.fetchOptions));
+  }
+
+  for (const ruleset of options.rulesets ?? []) {
+    hashes.push(ruleset);
+    if (isRulesetFile(ruleset)) {
+      hashes.push(
+        hashModule(isAbsolute(ruleset) ? ruleset : join(workspaceRoot, ruleset))
+      );
+    } else if (!isBuiltinRuleset(ruleset)) {
+      hashes.push(getPackageVersion(getPackageName(ruleset)));
+    }
+  }
+
+  const hash: Hash = {
+    value: hashArray(hashes),
+    details: taskHash.details,
+  };
+  return hash;
+};
+
+function getPackageName(module: string): string {
+  const segments = module.split('/');
+  return segments.slice(0, module.startsWith('@') ? 2 : 1).join('/');
+}
+
+export default validateSpecHasher;
@@ -0,0 +1,27 @@
+import { InputSpecOption } from '../../lib/interfaces';
+import { DiagnosticReportFormat } from '../../lib/diagnostic-report';
+import { RuleSeverity } from '../../lib/diagnostics';
+import { SpecFetchOptions } from '../../lib/spec-fetch';
+
+export interface ValidateSpecExecutorSchema {
+  inputSpec: InputSpecOption;
+  /**
+   * Lint rulesets: 'recommended', workspace files or packages.
+   */
+  rulesets?: string[];
+  /**
+   * Severity per diagnostic code or lint rule, e.g. `{ "spec-schema": "warn" }`.
+   */
+  rules?: Record<string, RuleSeverity>;
+  format?: DiagnosticReportFormat; // default: 'text'
+  /**
+   * File to write the report to, relative to the workspace root.
+   */
+  outputFile?: string;
+  failOnWarnings?: boolean; // default: false
+  /**
+   * Headers (from environment variables), CA bundle and proxy used to
+   * download remote specs.
+   */
+  fetchOptions?: SpecFetchOptions;
+}
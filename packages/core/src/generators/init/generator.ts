@@ -39,10 +39,18 @@ function updateTargetDefaults(tree: Tree): void {
     string,
     unknown
   >);
+  // Spec files are hashed by the executor's hasher, wherever they are located
   targetDefaults['@nx-plugin-openapi/core:generate-api'] = {
     cache: true,
-    inputs: ['{projectRoot}/swagger.json', '{projectRoot}/openapitools.json'],
+    inputs: [
+      '{projectRoot}/openapitools.json',
+      '{workspaceRoot}/openapitools.json',
+    ],
   } as { cache: boolean; inputs: string[] };
+  targetDefaults['@nx-plugin-openapi/core:validate-spec'] = {
+    cache: true,
+    outputs: ['{options.outputFile}'],
+  } as { cache: boolean; outputs: string[] };
   updateNxJson(tree, nxJson);
 }
 
@@ -6,3 +6,29 @@ export * from './lib/base-generator';
 export * from './lib/auto-installer';
 export * from './lib/type-guards';
 export * from './lib/validation';
+export * from './lib/input-spec';
+export * from './plugins/plugin';
+export * from './lib/json-pointer';
+export * from './lib/spec-source';
+export * from './lib/spec-fetch';
+export * from './lib/spec-download';
+export * from './lib/spec-lock';
+export * from './lib/spec-reference';
+export * from './lib/spec-export';
+export * from './lib/spec-document';
+export * from './lib/spec-dependencies';
+export * from './lib/spec-bundler';
+export * from './lib/spec-transforms';
+export * from './lib/diagnostics';
+export * from './lib/spec-validator';
+export * from './lib/diagnostic-report';
+export * from './lib/json-path';
+export * from './lib/lint';
+export * from './lib/lint-rules';
+export * from './lib/ruleset-loader';
+export * from './lib/spec-diff';
+export * from './lib/output-changes';
+export * from './lib/output-staging';
+export * from './lib/concurrency';
+export * from './lib/retry';
+export * from './lib/abort';
@@ -0,0 +1,67 @@
+import { logger } from '@nx/devkit';
+import { abortable, createGenerationSignal, getAbortError } from './abort';
+import { GenerationCancelledError } from './errors';
+
+describe('abort', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createGenerationSignal', () => {
+    it('should abort after the timeout', async () => {
+      const { signal, dispose } = createGenerationSignal(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(signal.aborted).toBe(true);
+      expect(getAbortError(signal)).toBeInstanceOf(GenerationCancelledError);
+      expect(getAbortError(signal).message).toBe(
+        'Generation timed out after 1ms'
+      );
+      dispose();
+    });
+
+    it('should abort on SIGINT until disposed', () => {
+      jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+      const listeners = process.listenerCount('SIGINT');
+      const { signal, dispose } = createGenerationSignal();
+
+      expect(process.listenerCount('SIGINT')).toBe(listeners + 1);
+      process.emit('SIGINT', 'SIGINT');
+
+      expect(signal.aborted).toBe(true);
+      expect((signal.reason as GenerationCancelledError).reason).toBe('signal');
+      dispose();
+      expect(process.listenerCount('SIGINT')).toBe(listeners);
+    });
+
+    it('should not abort without timeout or signal', () => {
+      const { signal, dispose } = createGenerationSignal();
+      dispose();
+
+      expect(signal.aborted).toBe(false);
+    });
+  });
+
+  describe('abortable', () => {
+    it('should reject when the signal aborts first', async () => {
+      const controller = new AbortController();
+      const result = abortable(new Promise(() => undefined), controller.signal);
+
+      controller.abort();
+
+      await expect(result).rejects.toThrow('Generation was cancelled');
+    });
+
+    it('should settle with the operation otherwise', async () => {
+      const controller = new AbortController();
+
+      await expect(
+        abortable(Promise.resolve('done'), controller.signal)
+      ).resolves.toBe('done');
+      await expect(
+        abortable(Promise.reject(new Error('failed')), undefined)
+      ).rejects.toThrow('failed');
+    });
+  });
+});
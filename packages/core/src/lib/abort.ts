@@ -0,0 +1,100 @@
+import { logger } from '@nx/devkit';
+import { GenerationCancelledError } from './errors';
+
+export interface GenerationSignal {
+  signal: AbortSignal;
+  /** Clears the timeout and removes the process signal handlers */
+  dispose(): void;
+}
+
+const CANCEL_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+
+/**
+ * Creates the AbortSignal of a generation run. It aborts after `timeoutMs`
+ * and when the process receives SIGINT or SIGTERM, so generators can stop
+ * their child processes and clean up before the process exits. A second
+ * SIGINT exits right away, as the handlers are only invoked once.
+ */
+export function createGenerationSignal(timeoutMs?: number): GenerationSignal {
+  const controller = new AbortController();
+
+  const timer =
+    timeoutMs !== undefined
+      ? setTimeout(
+          () =>
+            controller.abort(
+              new GenerationCancelledError(
+                `Generation timed out after ${timeoutMs}ms`,
+                'timeout'
+              )
+            ),
+          timeoutMs
+        )
+      : undefined;
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    logger.warn(`Received ${signal}, cancelling generation...`);
+    controller.abort(
+      new GenerationCancelledError(
+        `Generation was cancelled (${signal})`,
+        'signal'
+      )
+    );
+  };
+  for (const signal of CANCEL_SIGNALS) {
+    process.once(signal, onSignal);
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      for (const signal of CANCEL_SIGNALS) {
+        process.removeListener(signal, onSignal);
+      }
+    },
+  };
+}
+
+/**
+ * The error to throw for an aborted signal.
+ */
+export function getAbortError(signal: AbortSignal): GenerationCancelledError {
+  return signal.reason instanceof GenerationCancelledError
+    ? signal.reason
+    : new GenerationCancelledError('Generation was cancelled');
+}
+
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw getAbortError(signal);
+  }
+}
+
+/**
+ * Rejects with the abort error as soon as `signal` aborts, for operations
+ * that can't be cancelled themselves. The operation keeps running in the
+ * background, its result is ignored.
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined
+): Promise<T> {
+  if (!signal) return promise;
+  throwIfAborted(signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(getAbortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
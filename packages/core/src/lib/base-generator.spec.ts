@@ -1,19 +1,43 @@
 import { rmSync } from 'node:fs';
 import { join } from 'node:path';
+import { logger } from '@nx/devkit';
 import { BaseGenerator } from './base-generator';
+import { ServiceGenerationError } from './errors';
+import { InputSpecEntry } from './input-spec';
 import { GeneratorContext } from './interfaces';
+import { stageOutputs } from './output-staging';
 
 // Mock node:fs module
 jest.mock('node:fs', () => ({
   rmSync: jest.fn(),
 }));
 
+jest.mock('./output-staging', () => ({
+  stageOutputs: jest.fn(async (_root, paths, generate) => generate(paths)),
+}));
+
 // Create a concrete implementation for testing
 class TestGenerator extends BaseGenerator {
   // Expose protected method for testing
   public testCleanOutput(ctx: GeneratorContext, relOutputPath: string) {
     this.cleanOutput(ctx, relOutputPath);
   }
+
+  public testGenerateStaged(
+    ctx: GeneratorContext,
+    relOutputPath: string,
+    generate: (relStagingPath: string) => Promise<void>
+  ) {
+    return this.generateStaged(ctx, relOutputPath, generate);
+  }
+
+  public testGenerateServices(
+    services: InputSpecEntry[],
+    concurrency: number | undefined,
+    generate: (service: InputSpecEntry) => Promise<void>
+  ) {
+    return this.generateServices(services, concurrency, generate);
+  }
 }
 
 describe('BaseGenerator', () => {
@@ -156,4 +180,79 @@ describe('BaseGenerator', () => {
       expect(rmSync).not.toHaveBeenCalled();
     });
   });
+
+  describe('generateStaged', () => {
+    it('should generate into a staging directory', async () => {
+      const generate = jest.fn(async () => undefined);
+
+      await generator.testGenerateStaged(
+        mockContext,
+        'dist/generated',
+        generate
+      );
+
+      expect(stageOutputs).toHaveBeenCalledWith(
+        '/workspace',
+        ['dist/generated'],
+        expect.any(Function)
+      );
+      expect(generate).toHaveBeenCalledWith('dist/generated');
+    });
+
+    it('should throw error for root path', async () => {
+      await expect(
+        generator.testGenerateStaged(mockContext, '.', async () => undefined)
+      ).rejects.toThrow(
+        'Cannot clean empty or root output path for safety reasons'
+      );
+
+      expect(stageOutputs).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('generateServices', () => {
+    beforeEach(() => {
+      jest.spyOn(logger, 'info').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should generate all services and summarize failures', async () => {
+      const generate = jest.fn(async ({ name }: InputSpecEntry) => {
+        if (name === 'users') throw new Error('boom');
+      });
+
+      const result = generator.testGenerateServices(
+        [
+          { name: 'users', spec: 'users.yaml' },
+          { name: 'orders', spec: 'orders.yaml' },
+        ],
+        2,
+        generate
+      );
+
+      await expect(result).rejects.toThrow(ServiceGenerationError);
+      await expect(result).rejects.toThrow(
+        'Generation failed for 1 of 2 services: users (boom)'
+      );
+      expect(generate).toHaveBeenCalledTimes(2);
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /^Service generation summary:\n {2}✖ users \(\d+\.\ds\): boom\n {2}✔ orders/
+        )
+      );
+    });
+
+    it('should resolve when all services succeed', async () => {
+      await expect(
+        generator.testGenerateServices(
+          [{ name: 'users', spec: 'users.yaml' }],
+          undefined,
+          async () => undefined
+        )
+      ).resolves.toBeUndefined();
+    });
+  });
 });
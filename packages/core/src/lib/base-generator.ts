@@ -1,15 +1,99 @@
 import { rmSync } from 'node:fs';
 import { join } from 'node:path';
+import { logger } from '@nx/devkit';
+import { mapConcurrent } from './concurrency';
+import { ServiceGenerationError } from './errors';
+import { InputSpecEntry } from './input-spec';
 import { GeneratorContext } from './interfaces';
+import { stageOutputs } from './output-staging';
 
 export abstract class BaseGenerator {
   protected cleanOutput(ctx: GeneratorContext, relOutputPath: string) {
+    this.assertSafeOutputPath(relOutputPath);
+
+    const full = join(ctx.root, relOutputPath);
+    rmSync(full, { recursive: true, force: true });
+  }
+
+  /**
+   * Runs `generate` with a staging directory (relative to the workspace root)
+   * that replaces `relOutputPath` once `generate` succeeds. If it fails, the
+   * previous output is kept.
+   */
+  protected async generateStaged<T>(
+    ctx: GeneratorContext,
+    relOutputPath: string,
+    generate: (relStagingPath: string) => Promise<T>
+  ): Promise<T> {
+    return this.generateStagedAll(ctx, [relOutputPath], ([stagingPath]) =>
+      generate(stagingPath)
+    );
+  }
+
+  /**
+   * Like `generateStaged` for several output directories, which are only
+   * replaced if `generate` succeeds for all of them.
+   */
+  protected async generateStagedAll<T>(
+    ctx: GeneratorContext,
+    relOutputPaths: string[],
+    generate: (relStagingPaths: string[]) => Promise<T>
+  ): Promise<T> {
+    relOutputPaths.forEach((path) => this.assertSafeOutputPath(path));
+    return stageOutputs(ctx.root, relOutputPaths, generate);
+  }
+
+  /**
+   * Runs `generate` for every service of a multi-service inputSpec, with at
+   * most `concurrency` services in parallel. A failing service does not abort
+   * the others; once all finished, a summary is logged and a
+   * ServiceGenerationError is thrown if any of them failed.
+   */
+  protected async generateServices(
+    services: InputSpecEntry[],
+    concurrency: number | undefined,
+    generate: (service: InputSpecEntry, index: number) => Promise<void>
+  ): Promise<void> {
+    const durations: number[] = [];
+    const results = await mapConcurrent(
+      services,
+      concurrency ?? 1,
+      async (service, index) => {
+        logger.info(`Generating service: ${service.name}`);
+        const start = Date.now();
+        try {
+          await generate(service, index);
+        } finally {
+          durations[index] = Date.now() - start;
+        }
+      }
+    );
+
+    const failures: Record<string, unknown> = {};
+    const summary = results.map((result, index) => {
+      const serviceName = services[index].name ?? services[index].spec;
+      const duration = `${(durations[index] / 1000).toFixed(1)}s`;
+      if (result.status === 'fulfilled') {
+        return `  ✔ ${serviceName} (${duration})`;
+      }
+      failures[serviceName] = result.reason;
+      const reason =
+        result.reason instanceof Error
+          ? result.reason.message
+          : String(result.reason);
+      return `  ✖ ${serviceName} (${duration}): ${reason}`;
+    });
+    logger.info(['Service generation summary:', ...summary].join('\n'));
+
+    if (Object.keys(failures).length > 0) {
+      throw new ServiceGenerationError(failures, services.length);
+    }
+  }
+
+  private assertSafeOutputPath(relOutputPath: string) {
     // Validate input path is not empty or dangerous
     if (!relOutputPath || relOutputPath.trim() === '' || relOutputPath === '/' || relOutputPath === '.') {
       throw new Error('Cannot clean empty or root output path for safety reasons');
     }
-
-    const full = join(ctx.root, relOutputPath);
-    rmSync(full, { recursive: true, force: true });
   }
 }
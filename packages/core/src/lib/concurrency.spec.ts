@@ -0,0 +1,48 @@
+import { mapConcurrent } from './concurrency';
+
+describe('mapConcurrent', () => {
+  it('should limit the number of parallel calls', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await mapConcurrent([1, 2, 3, 4, 5], 2, async (n) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return n * 2;
+    });
+
+    expect(maxRunning).toBe(2);
+    expect(results.map((r) => r.status === 'fulfilled' && r.value)).toEqual([
+      2, 4, 6, 8, 10,
+    ]);
+  });
+
+  it('should continue after failures and keep the order of results', async () => {
+    const calls: number[] = [];
+
+    const results = await mapConcurrent([1, 2, 3], 1, async (n) => {
+      calls.push(n);
+      if (n === 1) throw new Error('boom');
+      return n;
+    });
+
+    expect(calls).toEqual([1, 2, 3]);
+    expect(results[0]).toEqual({
+      status: 'rejected',
+      reason: new Error('boom'),
+    });
+    expect(results[2]).toEqual({ status: 'fulfilled', value: 3 });
+  });
+
+  it('should treat invalid concurrency as sequential', async () => {
+    const results = await mapConcurrent([1, 2], 0, async (n) => n);
+
+    expect(results).toHaveLength(2);
+  });
+
+  it('should handle empty input', async () => {
+    expect(await mapConcurrent([], 4, async () => 1)).toEqual([]);
+  });
+});
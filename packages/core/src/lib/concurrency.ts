@@ -0,0 +1,33 @@
+/**
+ * Calls `fn` for every item with at most `concurrency` calls running at the
+ * same time. Never rejects, the results are in the order of the items.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = {
+          status: 'fulfilled',
+          value: await fn(items[index], index),
+        };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workers = Math.max(
+    1,
+    Math.min(Math.floor(concurrency) || 1, items.length)
+  );
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
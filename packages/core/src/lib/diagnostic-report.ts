@@ -0,0 +1,100 @@
+import { Diagnostic, formatDiagnostic } from './diagnostics';
+
+export type DiagnosticReportFormat = 'text' | 'json' | 'junit';
+
+/**
+ * Diagnostics found for one spec of an InputSpec.
+ */
+export interface SpecDiagnostics {
+  /** Service name for map-style input specs */
+  name?: string;
+  spec: string;
+  diagnostics: Diagnostic[];
+}
+
+export function formatDiagnosticReport(
+  results: SpecDiagnostics[],
+  format: DiagnosticReportFormat
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(results, null, 2);
+    case 'junit':
+      return formatJUnit(results);
+    default:
+      return formatText(results);
+  }
+}
+
+function formatText(results: SpecDiagnostics[]): string {
+  const lines: string[] = [];
+  for (const { spec, diagnostics } of results) {
+    lines.push(...diagnostics.map(formatDiagnostic));
+    const errors = diagnostics.filter((d) => d.severity === 'error').length;
+    const warnings = diagnostics.filter((d) => d.severity === 'warning').length;
+    lines.push(
+      errors + warnings === 0
+        ? `${spec}: no problems found`
+        : `${spec}: ${errors} error(s), ${warnings} warning(s)`
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * One test suite per spec. Errors are reported as failed test cases,
+ * warnings as passed test cases with the warning as output.
+ */
+function formatJUnit(results: SpecDiagnostics[]): string {
+  const suites = results.map(({ name, spec, diagnostics }) => {
+    const suiteName = name ? `${name} (${spec})` : spec;
+    const failures = diagnostics.filter((d) => d.severity === 'error').length;
+    const cases =
+      diagnostics.length === 0
+        ? [`    <testcase name="valid" classname="${escapeXml(spec)}"/>`]
+        : diagnostics.map((d) => {
+            const caseName = escapeXml(`${d.code} #${d.pointer}`);
+            const classname = escapeXml(d.file);
+            const body =
+              d.severity === 'error'
+                ? `<failure message="${escapeXml(d.message)}" type="${escapeXml(
+                    d.code
+                  )}">${escapeXml(formatDiagnostic(d))}</failure>`
+                : `<system-out>${escapeXml(formatDiagnostic(d))}</system-out>`;
+            return `    <testcase name="${caseName}" classname="${classname}">${body}</testcase>`;
+          });
+    return [
+      `  <testsuite name="${escapeXml(suiteName)}" tests="${
+        cases.length
+      }" failures="${failures}" errors="0">`,
+      ...cases,
+      '  </testsuite>',
+    ].join('\n');
+  });
+
+  const tests = results.reduce(
+    (sum, r) => sum + Math.max(r.diagnostics.length, 1),
+    0
+  );
+  const failures = results.reduce(
+    (sum, r) =>
+      sum + r.diagnostics.filter((d) => d.severity === 'error').length,
+    0
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="validate-spec" tests="${tests}" failures="${failures}" errors="0">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
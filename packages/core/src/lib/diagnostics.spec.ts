@@ -0,0 +1,54 @@
+import { formatDiagnostic, locateJsonPointer } from './diagnostics';
+
+describe('diagnostics', () => {
+  describe('locateJsonPointer', () => {
+    const yaml = ['openapi: 3.0.0', 'tags:', '  - name: a', '  - name: b'].join(
+      '\n'
+    );
+
+    it('should locate keys and array items', () => {
+      expect(locateJsonPointer(yaml, '/tags')).toEqual({ line: 2, column: 1 });
+      expect(locateJsonPointer(yaml, '/tags/1')).toEqual({
+        line: 4,
+        column: 5,
+      });
+    });
+
+    it('should fall back to the closest existing parent', () => {
+      expect(locateJsonPointer(yaml, '/tags/1/description')).toEqual({
+        line: 4,
+        column: 5,
+      });
+    });
+
+    it('should locate values in JSON documents', () => {
+      const json = JSON.stringify({ a: { b: 1 } }, null, 2);
+      expect(locateJsonPointer(json, '/a/b')).toEqual({ line: 3, column: 5 });
+    });
+  });
+
+  describe('formatDiagnostic', () => {
+    it('should include position and pointer when available', () => {
+      expect(
+        formatDiagnostic({
+          severity: 'error',
+          code: 'spec-schema',
+          message: 'Invalid',
+          file: 'api.yaml',
+          pointer: '/info',
+          line: 2,
+          column: 1,
+        })
+      ).toBe('api.yaml:2:1 - error spec-schema: Invalid (#/info)');
+      expect(
+        formatDiagnostic({
+          severity: 'warning',
+          code: 'spec-parse',
+          message: 'Invalid',
+          file: 'api.yaml',
+          pointer: '',
+        })
+      ).toBe('api.yaml - warning spec-parse: Invalid');
+    });
+  });
+});
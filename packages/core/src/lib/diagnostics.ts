@@ -0,0 +1,108 @@
+import { isMap, isScalar, isSeq, LineCounter, parseDocument } from 'yaml';
+import { parseJsonPointer } from './json-pointer';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A problem found in a spec document, e.g. by validation or linting.
+ */
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  /** Identifies the kind of problem, e.g. 'spec-schema' */
+  code: string;
+  message: string;
+  /** Location (path or URL) of the document containing the problem */
+  file: string;
+  /** JSON pointer to the offending value within the document */
+  pointer: string;
+  /** 1-based line, when the position could be determined */
+  line?: number;
+  /** 1-based column, when the position could be determined */
+  column?: number;
+}
+
+/**
+ * Configured severity of a diagnostic code, 'off' drops its diagnostics.
+ */
+export type RuleSeverity = 'error' | 'warn' | 'off';
+
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Finds the position of the value a JSON pointer refers to within the raw
+ * content of a JSON or YAML document. Falls back to the closest existing
+ * parent when the value itself does not exist (e.g. a missing property).
+ * If the pointer's last token is a key, the position of the key is returned.
+ */
+export function locateJsonPointer(
+  content: string,
+  pointer: string
+): SourcePosition | undefined {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter, keepSourceTokens: false });
+  let node: unknown = doc.contents;
+  let offset = getOffset(node);
+
+  for (const token of parseJsonPointer(pointer)) {
+    if (isMap(node)) {
+      const pair = node.items.find(
+        (item) =>
+          String(isScalar(item.key) ? item.key.value : item.key) === token
+      );
+      if (!pair) break;
+      offset = getOffset(pair.key) ?? offset;
+      node = pair.value;
+    } else if (isSeq(node)) {
+      const item = node.items[Number(token)];
+      if (item === undefined) break;
+      offset = getOffset(item) ?? offset;
+      node = item;
+    } else {
+      break;
+    }
+  }
+
+  if (offset === undefined) return undefined;
+  const { line, col } = lineCounter.linePos(offset);
+  return { line, column: col };
+}
+
+/**
+ * Formats a diagnostic as `file:line:column - severity code: message`.
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const position =
+    diagnostic.line !== undefined
+      ? `:${diagnostic.line}:${diagnostic.column ?? 1}`
+      : '';
+  const pointer = diagnostic.pointer ? ` (#${diagnostic.pointer})` : '';
+  return `${diagnostic.file}${position} - ${diagnostic.severity} ${diagnostic.code}: ${diagnostic.message}${pointer}`;
+}
+
+/**
+ * Applies configured severities (keyed by diagnostic code) to diagnostics.
+ */
+export function applyRuleSeverities(
+  diagnostics: Diagnostic[],
+  rules: Record<string, RuleSeverity> = {}
+): Diagnostic[] {
+  return diagnostics.flatMap((diagnostic) => {
+    const severity = rules[diagnostic.code];
+    if (severity === 'off') return [];
+    if (severity === 'warn') return [{ ...diagnostic, severity: 'warning' }];
+    if (severity === 'error') return [{ ...diagnostic, severity: 'error' }];
+    return [diagnostic];
+  });
+}
+
+export function hasErrors(diagnostics: Diagnostic[]): boolean {
+  return diagnostics.some((d) => d.severity === 'error');
+}
+
+function getOffset(node: unknown): number | undefined {
+  const range = (node as { range?: [number, number, number] } | null)?.range;
+  return range ? range[0] : undefined;
+}
@@ -185,6 +185,22 @@ describe('Error Classes', () => {
       expect(error.exitCode).toBe(1);
     });
 
+    it('should carry diagnostics', () => {
+      const diagnostic = {
+        severity: 'error' as const,
+        code: 'generator-validation',
+        message: 'attribute info.version is missing',
+        file: 'api.yaml',
+        pointer: '/info/version',
+      };
+
+      expect(new ExecutionError('Command failed', 'npm test').diagnostics).toEqual([]);
+      expect(
+        new ExecutionError('Command failed', 'npm test', 1, undefined, [diagnostic])
+          .diagnostics
+      ).toEqual([diagnostic]);
+    });
+
     it('should handle zero exit code', () => {
       const error = new ExecutionError('Unexpected success', 'failing-command', 0);
 
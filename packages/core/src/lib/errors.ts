@@ -1,3 +1,5 @@
+import type { Diagnostic } from './diagnostics';
+
 export class CoreError extends Error {
   constructor(message: string, public cause?: unknown) {
     super(message);
@@ -22,6 +24,20 @@ export class PluginLoadError extends CoreError {
   }
 }
 
+export class RulesetLoadError extends CoreError {
+  constructor(public ruleset: string, cause?: unknown) {
+    const causeMessage = cause instanceof Error ? cause.message : String(cause);
+    super(`Failed to load lint ruleset: ${ruleset}. Reason: ${causeMessage}`, cause);
+  }
+}
+
+export class SpecTransformError extends CoreError {
+  constructor(public transform: string, cause?: unknown) {
+    const causeMessage = cause instanceof Error ? cause.message : String(cause);
+    super(`Spec transform ${transform} failed. Reason: ${causeMessage}`, cause);
+  }
+}
+
 export class ValidationError extends CoreError {
   constructor(message: string, public field?: string, public value?: unknown) {
     const fullMessage = field 
@@ -56,7 +72,9 @@ export class ExecutionError extends CoreError {
     message: string,
     public command: string,
     public exitCode?: number,
-    cause?: unknown
+    cause?: unknown,
+    /** Problems reported in the output of the command */
+    public diagnostics: Diagnostic[] = []
   ) {
     const fullMessage = exitCode !== undefined
       ? `${message} (exit code: ${exitCode})`
@@ -65,8 +83,42 @@ export class ExecutionError extends CoreError {
   }
 }
 
+export class ServiceGenerationError extends CoreError {
+  constructor(public failures: Record<string, unknown>, public total: number) {
+    const details = Object.entries(failures)
+      .map(([service, error]) => `${service} (${error instanceof Error ? error.message : String(error)})`)
+      .join(', ');
+    const count = Object.keys(failures).length;
+    super(`Generation failed for ${count} of ${total} services: ${details}`);
+  }
+}
+
+export class GenerationCancelledError extends CoreError {
+  constructor(message: string, public reason: 'timeout' | 'signal' | 'abort' = 'abort') {
+    super(message);
+  }
+}
+
 export class InvalidPathError extends ValidationError {
   constructor(path: string, reason: string) {
     super(`Invalid path '${path}': ${reason}`, 'path', path);
   }
 }
+
+export class UnresolvedRefError extends ValidationError {
+  constructor(
+    public ref: string,
+    public file: string,
+    public pointer: string,
+    reason: string
+  ) {
+    super(`Unresolved $ref '${ref}' in ${file} at '#${pointer}': ${reason}`, '$ref', ref);
+  }
+}
+
+export class SpecValidationError extends ValidationError {
+  constructor(public spec: string, public diagnostics: Diagnostic[]) {
+    const count = diagnostics.filter((d) => d.severity === 'error').length;
+    super(`${spec} is not a valid spec (${count} error${count === 1 ? '' : 's'})`, 'inputSpec', spec);
+  }
+}
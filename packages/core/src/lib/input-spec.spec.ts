@@ -0,0 +1,122 @@
+import { InvalidPathError } from './errors';
+import {
+  getInputSpecEntries,
+  getServiceOutputPath,
+  isRemoteSpec,
+  mapInputSpec,
+  mergeGeneratorOptions,
+} from './input-spec';
+
+describe('input-spec', () => {
+  describe('getInputSpecEntries', () => {
+    it('should return a single entry for a string', () => {
+      expect(getInputSpecEntries('api.yaml')).toEqual([{ spec: 'api.yaml' }]);
+    });
+
+    it('should flatten plain and service entries', () => {
+      expect(
+        getInputSpecEntries({
+          users: 'users.yaml',
+          orders: {
+            spec: 'orders.yaml',
+            outputPath: 'orders-client',
+            generatorOptions: { apiNameSuffix: 'Client' },
+          },
+        })
+      ).toEqual([
+        { name: 'users', spec: 'users.yaml' },
+        {
+          name: 'orders',
+          spec: 'orders.yaml',
+          outputPath: 'orders-client',
+          generatorOptions: { apiNameSuffix: 'Client' },
+        },
+      ]);
+    });
+  });
+
+  describe('mapInputSpec', () => {
+    it('should keep the shape and settings of service entries', async () => {
+      const mapped = await mapInputSpec(
+        {
+          users: 'users.yaml',
+          orders: { spec: 'orders.yaml', outputPath: 'orders-client' },
+        },
+        async ({ name }) => `/tmp/${name}.json`
+      );
+
+      expect(mapped).toEqual({
+        users: '/tmp/users.json',
+        orders: { spec: '/tmp/orders.json', outputPath: 'orders-client' },
+      });
+    });
+  });
+
+  describe('getServiceOutputPath', () => {
+    it('should default to the service name', () => {
+      expect(
+        getServiceOutputPath('libs/api', { name: 'users', spec: 'users.yaml' })
+      ).toBe('libs/api/users');
+    });
+
+    it('should resolve service output paths against the shared outputPath', () => {
+      expect(
+        getServiceOutputPath('libs/api', {
+          name: 'users',
+          spec: 'users.yaml',
+          outputPath: 'clients/users',
+        })
+      ).toBe('libs/api/clients/users');
+    });
+
+    it('should reject service output paths outside of the shared outputPath', () => {
+      for (const outputPath of ['..', '../other-lib', '/tmp/users', '.']) {
+        expect(() =>
+          getServiceOutputPath('libs/api', {
+            name: 'users',
+            spec: 'users.yaml',
+            outputPath,
+          })
+        ).toThrow(InvalidPathError);
+      }
+      expect(() =>
+        getServiceOutputPath('libs/api', { name: '..', spec: 'users.yaml' })
+      ).toThrow(InvalidPathError);
+    });
+  });
+
+  describe('mergeGeneratorOptions', () => {
+    it('should merge nested objects and replace other values', () => {
+      expect(
+        mergeGeneratorOptions(
+          {
+            generator: 'typescript-angular',
+            apiNameSuffix: 'Api',
+            additionalProperties: { providedIn: 'root', withInterfaces: true },
+            typeMappings: ['a=b'],
+          },
+          {
+            apiNameSuffix: 'Client',
+            additionalProperties: { providedIn: 'any' },
+            typeMappings: ['c=d'],
+          }
+        )
+      ).toEqual({
+        generator: 'typescript-angular',
+        apiNameSuffix: 'Client',
+        additionalProperties: { providedIn: 'any', withInterfaces: true },
+        typeMappings: ['c=d'],
+      });
+    });
+
+    it('should handle missing options', () => {
+      expect(mergeGeneratorOptions(undefined, undefined)).toEqual({});
+      expect(mergeGeneratorOptions({ a: 1 }, undefined)).toEqual({ a: 1 });
+    });
+  });
+
+  it('isRemoteSpec should detect http(s) urls', () => {
+    expect(isRemoteSpec('https://example.com/api.yaml')).toBe(true);
+    expect(isRemoteSpec('apis/api.yaml')).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+import { isAbsolute, join, relative, resolve, sep } from 'node:path';
+import { InvalidPathError } from './errors';
+import { InputSpec, InputSpecService, SpecReference } from './interfaces';
+import { isSpecReference } from './type-guards';
+
+export interface InputSpecEntry<TSpec = string> {
+  /**
+   * Service name for map-style input specs, undefined for a single spec
+   */
+  name?: string;
+  spec: TSpec;
+  /**
+   * Service output path relative to the shared outputPath
+   */
+  outputPath?: string;
+  /**
+   * Service specific generator options
+   */
+  generatorOptions?: Record<string, unknown>;
+}
+
+/**
+ * Flattens an InputSpec (single spec or service map) into a list of entries.
+ */
+export function getInputSpecEntries<
+  TSpec extends string | SpecReference = string
+>(inputSpec: InputSpec<TSpec>): InputSpecEntry<TSpec>[] {
+  if (isSingleSpec(inputSpec)) {
+    return [{ spec: inputSpec }];
+  }
+  return Object.entries(
+    inputSpec as Record<string, TSpec | InputSpecService<TSpec>>
+  ).map(([name, value]) =>
+    isSingleSpec(value)
+      ? { name, spec: value }
+      : { name, ...(value as InputSpecService<TSpec>) }
+  );
+}
+
+export function isRemoteSpec(spec: string): boolean {
+  return /^https?:\/\//i.test(spec);
+}
+
+/**
+ * Maps every spec of an InputSpec, keeping its shape (single spec or service
+ * map) and the settings of service entries.
+ */
+export async function mapInputSpec<
+  TSpec extends string | SpecReference = string
+>(
+  inputSpec: InputSpec<TSpec>,
+  fn: (entry: InputSpecEntry<TSpec>) => Promise<string>
+): Promise<InputSpec> {
+  if (isSingleSpec(inputSpec)) {
+    return fn({ spec: inputSpec });
+  }
+  const mapped: Record<string, string | InputSpecService> = {};
+  for (const [name, value] of Object.entries(
+    inputSpec as Record<string, TSpec | InputSpecService<TSpec>>
+  )) {
+    if (isSingleSpec(value)) {
+      mapped[name] = await fn({ name, spec: value });
+    } else {
+      const service = value as InputSpecService<TSpec>;
+      mapped[name] = { ...service, spec: await fn({ name, ...service }) };
+    }
+  }
+  return mapped;
+}
+
+function isSingleSpec<TSpec extends string | SpecReference>(
+  value: InputSpec<TSpec> | InputSpecService<TSpec>
+): value is TSpec {
+  return typeof value === 'string' || isSpecReference(value);
+}
+
+/**
+ * Output path of a service of a multi-service InputSpec, relative to the
+ * workspace root like `outputPath`. It has to be inside `outputPath`, as it
+ * is replaced on generation.
+ */
+export function getServiceOutputPath(
+  outputPath: string,
+  entry: InputSpecEntry
+): string {
+  const servicePath = entry.outputPath ?? entry.name ?? '';
+  const path = relative(resolve(outputPath), resolve(outputPath, servicePath));
+  if (
+    !path ||
+    path === '..' ||
+    path.startsWith(`..${sep}`) ||
+    isAbsolute(path)
+  ) {
+    throw new InvalidPathError(
+      servicePath,
+      `Service output path of ${
+        entry.name ?? 'the spec'
+      } must be inside ${outputPath}`
+    );
+  }
+  return join(outputPath, path);
+}
+
+/**
+ * Merges service specific generator options over the shared ones. Nested
+ * objects (e.g. `additionalProperties`) are merged as well, other values
+ * including arrays are replaced.
+ */
+export function mergeGeneratorOptions<T extends Record<string, unknown>>(
+  shared: T | undefined,
+  overrides: Record<string, unknown> | undefined
+): T {
+  const merged: Record<string, unknown> = { ...(shared ?? {}) };
+  for (const [key, value] of Object.entries(overrides ?? {})) {
+    const current = merged[key];
+    merged[key] =
+      isPlainObject(current) && isPlainObject(value)
+        ? mergeGeneratorOptions(current, value)
+        : value;
+  }
+  return merged as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -1,15 +1,55 @@
-export type InputSpec = string | Record<string, string>;
+import type { RetryOptions } from './retry';
+
+/**
+ * A spec file of another Nx project. With `target`, the file is resolved
+ * against the outputs of that target, which generation then depends on.
+ * Otherwise it is relative to the project root.
+ */
+export interface SpecReference {
+  project: string;
+  target?: string;
+  file: string;
+}
+
+/**
+ * A service of a multi-service InputSpec with its own settings.
+ */
+export interface InputSpecService<TSpec = string> {
+  spec: TSpec;
+  // Relative to the shared outputPath, defaults to the service name
+  outputPath?: string;
+  // Merged over the shared generatorOptions
+  generatorOptions?: Record<string, unknown>;
+}
+
+export type InputSpec<TSpec = string> =
+  | TSpec
+  | Record<string, TSpec | InputSpecService<TSpec>>;
+
+/**
+ * An InputSpec as configured in executor options, specs can be references
+ * to other projects. Plugins receive the resolved InputSpec.
+ */
+export type InputSpecOption = InputSpec<string | SpecReference>;
 
 export interface GenerateOptionsBase {
   inputSpec: InputSpec;
   outputPath: string;
   // Arbitrary plugin-specific options
   generatorOptions?: Record<string, unknown>;
+  // Max. number of services of a multi-service inputSpec generated in parallel
+  concurrency?: number;
+  // Retries of failed generator runs, per spec
+  retry?: RetryOptions;
 }
 
 export interface GeneratorContext {
   root: string;
   workspaceName?: string;
+  /** Show the raw output of generator tools, e.g. with `nx run --verbose` */
+  verbose?: boolean;
+  /** Aborted on timeout or cancellation, generators stop their work then */
+  signal?: AbortSignal;
 }
 
 export interface GeneratorResult {
@@ -26,3 +66,36 @@ export interface GeneratorPlugin<TOptions = Record<string, unknown>> {
   ): Promise<GeneratorResult | void>;
   getSchema?(): unknown;
 }
+
+export interface LintRuleContext {
+  /** The whole parsed spec document */
+  document: unknown;
+  /** Keys leading from the document root to the value matched by `given` */
+  path: string[];
+}
+
+export interface LintResult {
+  message: string;
+  /** Keys leading to the offending value, defaults to the matched path */
+  path?: string[];
+}
+
+/**
+ * A lint rule over a parsed spec. `then` is called for every value matched by
+ * the JSONPath-like `given` expression(s) and returns the problems found.
+ */
+export interface LintRule {
+  description?: string;
+  given: string | string[];
+  /** Default: 'warning' */
+  severity?: 'error' | 'warning' | 'info';
+  then(
+    value: unknown,
+    context: LintRuleContext
+  ): LintResult | LintResult[] | void;
+}
+
+/**
+ * Lint rules keyed by name. The rule name is used as diagnostic code.
+ */
+export type LintRuleset = Record<string, LintRule>;
@@ -0,0 +1,112 @@
+import { parseJsonPath, queryJsonPath } from './json-path';
+
+describe('json-path', () => {
+  const doc = {
+    paths: {
+      '/users': {
+        get: { operationId: 'listUsers' },
+        post: { operationId: 'createUser' },
+        parameters: [{ name: 'a' }],
+      },
+      '/pets': { get: {} },
+    },
+    components: {
+      schemas: {
+        User: {
+          properties: { id: {}, address: { properties: { street: {} } } },
+        },
+      },
+    },
+  };
+
+  describe('queryJsonPath', () => {
+    it('should return the root for $', () => {
+      expect(queryJsonPath(doc, '$')).toEqual([{ path: [], value: doc }]);
+    });
+
+    it('should select children by key, quoted key and index', () => {
+      expect(queryJsonPath(doc, "$.paths['/users'].get.operationId")).toEqual([
+        { path: ['paths', '/users', 'get', 'operationId'], value: 'listUsers' },
+      ]);
+      expect(
+        queryJsonPath(doc, '$.paths["/users"].parameters[0].name')
+      ).toEqual([
+        {
+          path: ['paths', '/users', 'parameters', '0', 'name'],
+          value: 'a',
+        },
+      ]);
+    });
+
+    it('should support wildcards and unions', () => {
+      expect(
+        queryJsonPath(doc, '$.paths[*][get,post]').map((m) => m.path)
+      ).toEqual([
+        ['paths', '/users', 'get'],
+        ['paths', '/users', 'post'],
+        ['paths', '/pets', 'get'],
+      ]);
+      expect(queryJsonPath(doc, '$.paths.*').length).toBe(2);
+    });
+
+    it('should support recursive descent', () => {
+      expect(queryJsonPath(doc, '$..properties').map((m) => m.path)).toEqual([
+        ['components', 'schemas', 'User', 'properties'],
+        [
+          'components',
+          'schemas',
+          'User',
+          'properties',
+          'address',
+          'properties',
+        ],
+      ]);
+    });
+
+    it('should support filters', () => {
+      const document = {
+        paths: {
+          '/a': { get: { 'x-internal': true }, post: { 'x-internal': false } },
+          '/b': { get: { tags: ['admin'] } },
+        },
+      };
+
+      expect(
+        queryJsonPath(document, "$.paths.*[?(@['x-internal'] == true)]").map(
+          (m) => m.path
+        )
+      ).toEqual([['paths', '/a', 'get']]);
+      expect(
+        queryJsonPath(document, '$.paths.*[?(@.x-internal != true)]').map(
+          (m) => m.path
+        )
+      ).toEqual([
+        ['paths', '/a', 'post'],
+        ['paths', '/b', 'get'],
+      ]);
+      expect(
+        queryJsonPath(document, "$.paths.*[?(@.tags[*] == 'admin')]").map(
+          (m) => m.path
+        )
+      ).toEqual([['paths', '/b', 'get']]);
+      expect(
+        queryJsonPath(document, '$.paths[?(@.post)]').map((m) => m.path)
+      ).toEqual([['paths', '/a']]);
+    });
+
+    it('should return no matches for missing keys', () => {
+      expect(queryJsonPath(doc, '$.info.title')).toEqual([]);
+    });
+  });
+
+  describe('parseJsonPath', () => {
+    it('should reject invalid expressions', () => {
+      expect(() => parseJsonPath('paths')).toThrow("must start with '$'");
+      expect(() => parseJsonPath('$.paths[*')).toThrow("missing ']'");
+      expect(() => parseJsonPath('$paths')).toThrow('at position 1');
+      expect(() => parseJsonPath('$.paths[?(@.a > 1)]')).toThrow(
+        'unsupported filter'
+      );
+    });
+  });
+});
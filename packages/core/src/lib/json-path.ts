@@ -0,0 +1,245 @@
+export interface JsonPathMatch {
+  /** Keys leading from the document root to the value */
+  path: string[];
+  value: unknown;
+}
+
+export type JsonPathSegment =
+  | { type: 'keys'; keys: string[] }
+  | { type: 'wildcard' }
+  | { type: 'descendant'; key: string | '*' }
+  | { type: 'filter'; filter: JsonPathFilter };
+
+/**
+ * `[?(@.a.b)]` selects children that have the value, `[?(@.a.b == 'x')]`
+ * and `[?(@.a.b != 'x')]` compare it to a literal.
+ */
+export interface JsonPathFilter {
+  path: JsonPathSegment[];
+  operator?: '==' | '!=';
+  value?: unknown;
+}
+
+/**
+ * Evaluates a JSONPath-like expression against a document.
+ *
+ * Supported syntax:
+ * - `$` document root
+ * - `.key`, `['key']`, `[0]` child access
+ * - `[a,b]`, `['a','b']` union of children
+ * - `.*`, `[*]` all children
+ * - `..key`, `..*` recursive descent
+ * - `[?(@.key)]`, `[?(@.key == 'value')]`, `[?(@.key != 'value')]` children
+ *   matching a filter
+ */
+export function queryJsonPath(
+  document: unknown,
+  expression: string
+): JsonPathMatch[] {
+  return evaluate(parseJsonPath(expression), [{ path: [], value: document }]);
+}
+
+function evaluate(
+  segments: JsonPathSegment[],
+  matches: JsonPathMatch[]
+): JsonPathMatch[] {
+  for (const segment of segments) {
+    const next: JsonPathMatch[] = [];
+    for (const match of matches) {
+      if (segment.type === 'descendant') {
+        collectDescendants(match, segment.key, next);
+        continue;
+      }
+      for (const [key, value] of getChildren(match.value)) {
+        if (
+          segment.type === 'wildcard' ||
+          (segment.type === 'keys' && segment.keys.includes(key)) ||
+          (segment.type === 'filter' && matchesFilter(value, segment.filter))
+        ) {
+          next.push({ path: [...match.path, key], value });
+        }
+      }
+    }
+    matches = next;
+  }
+  return matches;
+}
+
+function matchesFilter(value: unknown, filter: JsonPathFilter): boolean {
+  const matches = evaluate(filter.path, [{ path: [], value }]);
+  if (!filter.operator) {
+    return matches.length > 0;
+  }
+  const equal = matches.some((match) => match.value === filter.value);
+  return filter.operator === '==' ? equal : !equal;
+}
+
+export function parseJsonPath(expression: string): JsonPathSegment[] {
+  const expr = expression.trim();
+  if (!expr.startsWith('$')) {
+    throw new Error(`Invalid JSONPath '${expression}': must start with '$'`);
+  }
+
+  const segments: JsonPathSegment[] = [];
+  let i = 1;
+  while (i < expr.length) {
+    if (expr.startsWith('..', i)) {
+      i += 2;
+      const key = readName(expr, i);
+      if (!key) {
+        throw new Error(`Invalid JSONPath '${expression}' at position ${i}`);
+      }
+      segments.push({ type: 'descendant', key });
+      i += key.length;
+    } else if (expr[i] === '.') {
+      i += 1;
+      const key = readName(expr, i);
+      if (!key) {
+        throw new Error(`Invalid JSONPath '${expression}' at position ${i}`);
+      }
+      segments.push(
+        key === '*' ? { type: 'wildcard' } : { type: 'keys', keys: [key] }
+      );
+      i += key.length;
+    } else if (expr[i] === '[') {
+      const end = findClosingBracket(expr, i);
+      if (end === -1) {
+        throw new Error(`Invalid JSONPath '${expression}': missing ']'`);
+      }
+      const content = expr.slice(i + 1, end).trim();
+      if (content.startsWith('?')) {
+        segments.push({
+          type: 'filter',
+          filter: parseFilter(content, expression),
+        });
+      } else {
+        segments.push(
+          content === '*'
+            ? { type: 'wildcard' }
+            : { type: 'keys', keys: splitUnion(content).map(unquote) }
+        );
+      }
+      i = end + 1;
+    } else {
+      throw new Error(`Invalid JSONPath '${expression}' at position ${i}`);
+    }
+  }
+  return segments;
+}
+
+function parseFilter(content: string, expression: string): JsonPathFilter {
+  const match = /^\?\s*\(\s*@(\S*?)\s*(?:(==|!=)\s*(.+?))?\s*\)$/.exec(content);
+  if (!match) {
+    throw new Error(
+      `Invalid JSONPath '${expression}': unsupported filter '${content}'`
+    );
+  }
+  const [, path, operator, literal] = match;
+  return {
+    path: parseJsonPath(`$${path}`),
+    ...(operator
+      ? {
+          operator: operator as JsonPathFilter['operator'],
+          value: parseLiteral(literal, expression),
+        }
+      : {}),
+  };
+}
+
+function parseLiteral(literal: string, expression: string): unknown {
+  const quote = literal[0];
+  if ((quote === "'" || quote === '"') && literal.endsWith(quote)) {
+    return unquote(literal);
+  }
+  try {
+    return JSON.parse(literal);
+  } catch {
+    throw new Error(
+      `Invalid JSONPath '${expression}': unsupported value '${literal}'`
+    );
+  }
+}
+
+function readName(expr: string, start: number): string {
+  if (expr[start] === '*') return '*';
+  const match = /^[^.[\]\s]+/.exec(expr.slice(start));
+  return match ? match[0] : '';
+}
+
+function findClosingBracket(expr: string, start: number): number {
+  let quote: string | undefined;
+  // Filters can contain brackets themselves
+  let depth = 0;
+  for (let i = start + 1; i < expr.length; i++) {
+    const char = expr[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      if (depth === 0) return i;
+      depth--;
+    }
+  }
+  return -1;
+}
+
+function splitUnion(content: string): string[] {
+  const parts: string[] = [];
+  let quote: string | undefined;
+  let current = '';
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === '\\' && i + 1 < content.length) {
+        current += char + content[++i];
+        continue;
+      }
+      if (char === quote) quote = undefined;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === ',') {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current.trim());
+  return parts;
+}
+
+function unquote(key: string): string {
+  const quote = key[0];
+  if ((quote === "'" || quote === '"') && key.endsWith(quote)) {
+    return key.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  return key;
+}
+
+function getChildren(value: unknown): [string, unknown][] {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => [String(index), item]);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value);
+  }
+  return [];
+}
+
+function collectDescendants(
+  match: JsonPathMatch,
+  key: string,
+  result: JsonPathMatch[]
+): void {
+  for (const [childKey, child] of getChildren(match.value)) {
+    const childMatch = { path: [...match.path, childKey], value: child };
+    if (key === '*' || key === childKey) {
+      result.push(childMatch);
+    }
+    collectDescendants(childMatch, key, result);
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  compileJsonPointer,
+  parseJsonPointer,
+  resolveJsonPointer,
+} from './json-pointer';
+
+describe('json-pointer', () => {
+  describe('parseJsonPointer', () => {
+    it('should parse pointers with and without leading hash', () => {
+      expect(parseJsonPointer('/components/schemas/User')).toEqual([
+        'components',
+        'schemas',
+        'User',
+      ]);
+      expect(parseJsonPointer('#/paths')).toEqual(['paths']);
+      expect(parseJsonPointer('')).toEqual([]);
+    });
+
+    it('should unescape special characters', () => {
+      expect(parseJsonPointer('#/paths/~1users~1{id}/get')).toEqual([
+        'paths',
+        '/users/{id}',
+        'get',
+      ]);
+      expect(parseJsonPointer('/a~0b/%20c')).toEqual(['a~b', ' c']);
+    });
+
+    it('should reject invalid pointers', () => {
+      expect(() => parseJsonPointer('components')).toThrow(
+        'Invalid JSON pointer'
+      );
+    });
+  });
+
+  describe('compileJsonPointer', () => {
+    it('should escape special characters', () => {
+      expect(compileJsonPointer(['paths', '/users/{id}', 'get', 0])).toBe(
+        '/paths/~1users~1{id}/get/0'
+      );
+    });
+  });
+
+  describe('resolveJsonPointer', () => {
+    const doc = { a: { b: [{ c: 1 }] }, d: null };
+
+    it('should resolve existing values', () => {
+      expect(resolveJsonPointer(doc, '/a/b/0/c')).toEqual({
+        found: true,
+        value: 1,
+      });
+      expect(resolveJsonPointer(doc, '/d')).toEqual({
+        found: true,
+        value: null,
+      });
+      expect(resolveJsonPointer(doc, '')).toEqual({ found: true, value: doc });
+    });
+
+    it('should report missing values', () => {
+      expect(resolveJsonPointer(doc, '/a/x')).toEqual({ found: false });
+      expect(resolveJsonPointer(doc, '/d/x')).toEqual({ found: false });
+    });
+  });
+});
@@ -0,0 +1,43 @@
+// JSON Pointer (RFC 6901) helpers used when walking OpenAPI documents
+
+export function parseJsonPointer(pointer: string): string[] {
+  const normalized = pointer.startsWith('#') ? pointer.slice(1) : pointer;
+  if (normalized === '' || normalized === '/') {
+    return normalized === '/' ? [''] : [];
+  }
+  if (!normalized.startsWith('/')) {
+    throw new Error(`Invalid JSON pointer: ${pointer}`);
+  }
+  return normalized
+    .slice(1)
+    .split('/')
+    .map((token) =>
+      decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~')
+    );
+}
+
+export function compileJsonPointer(tokens: ReadonlyArray<string | number>): string {
+  return tokens
+    .map(
+      (token) => `/${String(token).replace(/~/g, '~0').replace(/\//g, '~1')}`
+    )
+    .join('');
+}
+
+export function resolveJsonPointer(
+  document: unknown,
+  pointer: string
+): { found: boolean; value?: unknown } {
+  let current = document;
+  for (const token of parseJsonPointer(pointer)) {
+    if (
+      current === null ||
+      typeof current !== 'object' ||
+      !Object.prototype.hasOwnProperty.call(current, token)
+    ) {
+      return { found: false };
+    }
+    current = (current as Record<string, unknown>)[token];
+  }
+  return { found: true, value: current };
+}
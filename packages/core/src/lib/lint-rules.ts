@@ -0,0 +1,87 @@
+import { LintResult, LintRuleset } from './interfaces';
+
+const HTTP_METHODS = 'get,put,post,delete,options,head,patch,trace';
+const KEBAB_CASE = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const CAMEL_CASE = /^[a-z][a-zA-Z0-9]*$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * The recommended ruleset, enforcing common API design conventions.
+ */
+export const recommendedRuleset: LintRuleset = {
+  'paths-kebab-case': {
+    description: 'Path segments should be kebab-case',
+    given: '$.paths',
+    then(paths, { path }) {
+      if (!isObject(paths)) return;
+      return Object.keys(paths)
+        .filter((p) =>
+          p
+            .split('/')
+            .filter((segment) => segment && !/^\{[^}]+\}$/.test(segment))
+            .some((segment) => !KEBAB_CASE.test(segment))
+        )
+        .map((p) => ({
+          message: `Path '${p}' should be kebab-case`,
+          path: [...path, p],
+        }));
+    },
+  },
+  'properties-camel-case': {
+    description: 'Schema property names should be camelCase',
+    given: '$..properties',
+    then(properties, { path }) {
+      if (!isObject(properties)) return;
+      return Object.keys(properties)
+        .filter((name) => !CAMEL_CASE.test(name))
+        .map((name) => ({
+          message: `Property '${name}' should be camelCase`,
+          path: [...path, name],
+        }));
+    },
+  },
+  'operation-operationId': {
+    description: 'Operations must have an operationId',
+    severity: 'error',
+    given: `$.paths[*][${HTTP_METHODS}]`,
+    then(operation): LintResult | void {
+      if (!isObject(operation)) return;
+      const operationId = operation['operationId'];
+      if (typeof operationId !== 'string' || operationId.trim() === '') {
+        return { message: 'Operation must have an operationId' };
+      }
+    },
+  },
+  'no-inline-schemas': {
+    description:
+      'Object schemas of request and response bodies should be components',
+    given: [
+      // OpenAPI 3.x
+      `$.paths[*][${HTTP_METHODS}].requestBody.content[*].schema`,
+      `$.paths[*][${HTTP_METHODS}].responses[*].content[*].schema`,
+      // Swagger 2.0
+      `$.paths[*][${HTTP_METHODS}].parameters[*].schema`,
+      `$.paths[*][${HTTP_METHODS}].responses[*].schema`,
+    ],
+    then(schema): LintResult | void {
+      if (!isObject(schema) || '$ref' in schema) return;
+      const items = schema['items'];
+      const target =
+        schema['type'] === 'array' && isObject(items) ? items : schema;
+      if ('$ref' in target) return;
+      if (
+        'properties' in target ||
+        'allOf' in target ||
+        'oneOf' in target ||
+        'anyOf' in target
+      ) {
+        return {
+          message: 'Schema should be a $ref to a component instead of inline',
+        };
+      }
+    },
+  },
+};
@@ -0,0 +1,170 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LintRuleset } from './interfaces';
+import { lintDocument, lintSpec } from './lint';
+import { recommendedRuleset } from './lint-rules';
+
+describe('lint', () => {
+  describe('lintDocument', () => {
+    it('should report rule results as diagnostics', () => {
+      const rules: LintRuleset = {
+        'info-description': {
+          given: '$.info',
+          severity: 'error',
+          then: (info) =>
+            (info as Record<string, unknown>)['description']
+              ? undefined
+              : { message: 'Info must have a description' },
+        },
+        'tag-names': {
+          given: ['$.tags[*].name'],
+          then: (name, { path }) => [{ message: `Tag ${name}`, path }],
+        },
+      };
+
+      const diagnostics = lintDocument(
+        { info: {}, tags: [{ name: 'a' }] },
+        { rules, file: 'api.json' }
+      );
+
+      expect(diagnostics).toEqual([
+        {
+          severity: 'error',
+          code: 'info-description',
+          message: 'Info must have a description',
+          file: 'api.json',
+          pointer: '/info',
+        },
+        {
+          severity: 'warning',
+          code: 'tag-names',
+          message: 'Tag a',
+          file: 'api.json',
+          pointer: '/tags/0/name',
+        },
+      ]);
+    });
+
+    it('should name the rule when it throws', () => {
+      const rules: LintRuleset = {
+        broken: {
+          given: '$',
+          then: () => {
+            throw new Error('boom');
+          },
+        },
+      };
+
+      expect(() => lintDocument({}, { rules, file: 'api.json' })).toThrow(
+        "Lint rule 'broken' failed: boom"
+      );
+    });
+  });
+
+  describe('recommendedRuleset', () => {
+    const lint = (document: unknown) =>
+      lintDocument(document, {
+        rules: recommendedRuleset,
+        file: 'api.json',
+      }).map(({ code, pointer }) => ({ code, pointer }));
+
+    it('should accept documents following the conventions', () => {
+      expect(
+        lint({
+          paths: {
+            '/user-groups/{groupId}': {
+              get: {
+                operationId: 'getUserGroup',
+                responses: {
+                  '200': {
+                    content: {
+                      'application/json': {
+                        schema: {
+                          type: 'array',
+                          items: { $ref: '#/components/schemas/UserGroup' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          components: {
+            schemas: { UserGroup: { properties: { displayName: {} } } },
+          },
+        })
+      ).toEqual([]);
+    });
+
+    it('should report violations', () => {
+      expect(
+        lint({
+          paths: {
+            '/userGroups': {
+              post: {
+                requestBody: {
+                  content: {
+                    'application/json': {
+                      schema: { properties: { display_name: {} } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        })
+      ).toEqual([
+        { code: 'paths-kebab-case', pointer: '/paths/~1userGroups' },
+        {
+          code: 'properties-camel-case',
+          pointer:
+            '/paths/~1userGroups/post/requestBody/content/application~1json/schema/properties/display_name',
+        },
+        {
+          code: 'operation-operationId',
+          pointer: '/paths/~1userGroups/post',
+        },
+        {
+          code: 'no-inline-schemas',
+          pointer:
+            '/paths/~1userGroups/post/requestBody/content/application~1json/schema',
+        },
+      ]);
+    });
+  });
+
+  describe('lintSpec', () => {
+    it('should report positions in the spec file', async () => {
+      const root = mkdtempSync(join(tmpdir(), 'core-lint-'));
+      try {
+        writeFileSync(
+          join(root, 'api.yaml'),
+          ['openapi: 3.0.0', 'paths:', '  /Users:', '    get: {}'].join('\n')
+        );
+
+        const diagnostics = await lintSpec('api.yaml', {
+          root,
+          rules: recommendedRuleset,
+        });
+
+        expect(diagnostics).toEqual([
+          expect.objectContaining({
+            code: 'paths-kebab-case',
+            file: join(root, 'api.yaml'),
+            line: 3,
+            column: 3,
+          }),
+          expect.objectContaining({
+            code: 'operation-operationId',
+            line: 4,
+            column: 5,
+          }),
+        ]);
+      } finally {
+        rmSync(root, { recursive: true, force: true });
+      }
+    });
+  });
+});
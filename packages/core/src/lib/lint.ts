@@ -0,0 +1,77 @@
+import { CoreError } from './errors';
+import { Diagnostic, locateJsonPointer } from './diagnostics';
+import { LintResult, LintRuleset } from './interfaces';
+import { queryJsonPath } from './json-path';
+import { compileJsonPointer } from './json-pointer';
+import { parseSpecDocument } from './spec-document';
+import {
+  readSpecSource,
+  resolveSpecLocation,
+  SpecSourceOptions,
+} from './spec-source';
+
+export interface LintDocumentOptions {
+  rules: LintRuleset;
+  /** Location of the document, reported in diagnostics */
+  file: string;
+  /** Raw content of the document, used to determine line and column */
+  content?: string;
+}
+
+/**
+ * Runs every rule of a ruleset against a parsed spec document.
+ */
+export function lintDocument(
+  document: unknown,
+  opts: LintDocumentOptions
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  for (const [name, rule] of Object.entries(opts.rules)) {
+    const givens = Array.isArray(rule.given) ? rule.given : [rule.given];
+    for (const given of givens) {
+      let results: LintResult[];
+      try {
+        results = queryJsonPath(document, given).flatMap(({ path, value }) => {
+          const result = rule.then(value, { document, path });
+          return (result ? [result] : ([] as LintResult[]))
+            .flat()
+            .map((r) => ({ ...r, path: r.path ?? path }));
+        });
+      } catch (e) {
+        throw new CoreError(
+          `Lint rule '${name}' failed: ${e instanceof Error ? e.message : e}`,
+          e
+        );
+      }
+
+      for (const result of results) {
+        const pointer = compileJsonPointer(result.path ?? []);
+        diagnostics.push({
+          severity: rule.severity ?? 'warning',
+          code: name,
+          message: result.message,
+          file: opts.file,
+          pointer,
+          ...(opts.content !== undefined
+            ? locateJsonPointer(opts.content, pointer)
+            : {}),
+        });
+      }
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Reads, parses and lints a (local or remote) spec.
+ */
+export async function lintSpec(
+  spec: string,
+  opts: SpecSourceOptions & { rules: LintRuleset }
+): Promise<Diagnostic[]> {
+  const file = resolveSpecLocation(spec, opts.root);
+  const content = await readSpecSource(file, opts);
+  const document = parseSpecDocument(content, file);
+  return lintDocument(document, { rules: opts.rules, file, content });
+}
@@ -0,0 +1,127 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  compareSnapshots,
+  formatOutputChangeSummary,
+  OutputSnapshot,
+  snapshotDirectory,
+} from './output-changes';
+
+function snapshot(files: Record<string, string | Buffer>): OutputSnapshot {
+  return new Map(
+    Object.entries(files).map(([path, content]) => [
+      path,
+      Buffer.isBuffer(content) ? content : Buffer.from(content),
+    ])
+  );
+}
+
+describe('output-changes', () => {
+  describe('snapshotDirectory', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'core-output-changes-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should read nested files with posix paths', () => {
+      mkdirSync(join(dir, 'model'));
+      writeFileSync(join(dir, 'api.ts'), 'api');
+      writeFileSync(join(dir, 'model/pet.ts'), 'pet');
+
+      const result = snapshotDirectory(dir);
+
+      expect([...result.keys()].sort()).toEqual(['api.ts', 'model/pet.ts']);
+      expect(result.get('model/pet.ts')?.toString()).toBe('pet');
+    });
+
+    it('should return an empty snapshot for missing directories', () => {
+      expect(snapshotDirectory(join(dir, 'missing')).size).toBe(0);
+    });
+  });
+
+  describe('compareSnapshots', () => {
+    it('should classify files and count lines', () => {
+      const report = compareSnapshots(
+        snapshot({
+          'a.ts': 'one\ntwo\nthree\n',
+          'b.ts': 'same\n',
+          'c.ts': 'x\ny\n',
+        }),
+        snapshot({
+          'a.ts': 'one\n2\n3\nthree\n',
+          'b.ts': 'same\n',
+          'd.ts': 'new\n',
+        }),
+        'libs/api'
+      );
+
+      expect(report).toEqual({
+        outputPath: 'libs/api',
+        added: 1,
+        removed: 1,
+        modified: 1,
+        unchanged: 1,
+        additions: 3,
+        deletions: 3,
+        files: [
+          { path: 'a.ts', type: 'modified', additions: 2, deletions: 1 },
+          { path: 'c.ts', type: 'removed', additions: 0, deletions: 2 },
+          { path: 'd.ts', type: 'added', additions: 1, deletions: 0 },
+        ],
+      });
+    });
+
+    it('should not count lines of binary files', () => {
+      const report = compareSnapshots(
+        snapshot({ 'logo.png': Buffer.from([0, 1, 2]) }),
+        snapshot({ 'logo.png': Buffer.from([0, 1, 3]) }),
+        'out'
+      );
+
+      expect(report.files).toEqual([
+        {
+          path: 'logo.png',
+          type: 'modified',
+          additions: 0,
+          deletions: 0,
+          binary: true,
+        },
+      ]);
+    });
+  });
+
+  describe('formatOutputChangeSummary', () => {
+    it('should list changed files', () => {
+      const report = compareSnapshots(
+        snapshot({ 'a.ts': 'a\n', 'b.ts': 'b\n' }),
+        snapshot({ 'a.ts': 'a\nb\n', 'c.ts': 'c\n' }),
+        'out'
+      );
+
+      expect(formatOutputChangeSummary(report)).toBe(
+        [
+          'out: 1 added, 1 modified, 1 removed (+2 -1)',
+          '  M a.ts (+1 -0)',
+          '  D b.ts (+0 -1)',
+          '  A c.ts (+1 -0)',
+        ].join('\n')
+      );
+    });
+
+    it('should report unchanged output', () => {
+      const report = compareSnapshots(
+        snapshot({ 'a.ts': 'a' }),
+        snapshot({ 'a.ts': 'a' }),
+        'out'
+      );
+
+      expect(formatOutputChangeSummary(report)).toBe('out: no changes');
+    });
+  });
+});
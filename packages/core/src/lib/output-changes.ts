@@ -0,0 +1,199 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { join, relative, sep } from 'node:path';
+
+/**
+ * File contents of a directory, keyed by path relative to the directory
+ * (always with forward slashes).
+ */
+export type OutputSnapshot = Map<string, Buffer>;
+
+export type OutputFileChangeType = 'added' | 'removed' | 'modified';
+
+export interface OutputFileChange {
+  path: string;
+  type: OutputFileChangeType;
+  /** Added lines, 0 for binary files */
+  additions: number;
+  /** Removed lines, 0 for binary files */
+  deletions: number;
+  binary?: boolean;
+}
+
+/**
+ * Changes of a directory between two snapshots.
+ */
+export interface OutputChangeReport {
+  outputPath: string;
+  added: number;
+  removed: number;
+  modified: number;
+  unchanged: number;
+  additions: number;
+  deletions: number;
+  files: OutputFileChange[];
+}
+
+/**
+ * Reads all files below a directory. Returns an empty snapshot if the
+ * directory does not exist.
+ */
+export function snapshotDirectory(dir: string): OutputSnapshot {
+  const snapshot: OutputSnapshot = new Map();
+  if (!existsSync(dir)) {
+    return snapshot;
+  }
+  const walk = (current: string) => {
+    for (const entry of readdirSync(current, { withFileTypes: true })) {
+      const path = join(current, entry.name);
+      if (entry.isDirectory()) {
+        walk(path);
+      } else if (entry.isFile()) {
+        snapshot.set(
+          relative(dir, path).split(sep).join('/'),
+          readFileSync(path)
+        );
+      }
+    }
+  };
+  walk(dir);
+  return snapshot;
+}
+
+/**
+ * Compares two snapshots of the same directory, files are sorted by path.
+ */
+export function compareSnapshots(
+  before: OutputSnapshot,
+  after: OutputSnapshot,
+  outputPath: string
+): OutputChangeReport {
+  const report: OutputChangeReport = {
+    outputPath,
+    added: 0,
+    removed: 0,
+    modified: 0,
+    unchanged: 0,
+    additions: 0,
+    deletions: 0,
+    files: [],
+  };
+
+  const paths = [...new Set([...before.keys(), ...after.keys()])].sort();
+  for (const path of paths) {
+    const previous = before.get(path);
+    const next = after.get(path);
+    if (previous && next && previous.equals(next)) {
+      report.unchanged++;
+      continue;
+    }
+
+    const type: OutputFileChangeType = !previous
+      ? 'added'
+      : !next
+      ? 'removed'
+      : 'modified';
+    const binary = [previous, next].some((b) => b && isBinary(b));
+    const stats = binary
+      ? { additions: 0, deletions: 0 }
+      : countLineChanges(toLines(previous), toLines(next));
+
+    report[type]++;
+    report.additions += stats.additions;
+    report.deletions += stats.deletions;
+    report.files.push({
+      path,
+      type,
+      ...stats,
+      ...(binary ? { binary } : {}),
+    });
+  }
+  return report;
+}
+
+/**
+ * Formats a change report as a short human readable summary.
+ */
+export function formatOutputChangeSummary(report: OutputChangeReport): string {
+  const { outputPath, added, removed, modified, additions, deletions } = report;
+  if (report.files.length === 0) {
+    return `${outputPath}: no changes`;
+  }
+  const lines = [
+    `${outputPath}: ${added} added, ${modified} modified, ${removed} removed (+${additions} -${deletions})`,
+  ];
+  const marker: Record<OutputFileChangeType, string> = {
+    added: 'A',
+    modified: 'M',
+    removed: 'D',
+  };
+  for (const file of report.files) {
+    const stats = file.binary
+      ? 'binary'
+      : `+${file.additions} -${file.deletions}`;
+    lines.push(`  ${marker[file.type]} ${file.path} (${stats})`);
+  }
+  return lines.join('\n');
+}
+
+function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+function toLines(content: Buffer | undefined): string[] {
+  if (!content || content.length === 0) {
+    return [];
+  }
+  const lines = content.toString('utf-8').split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Counts added and removed lines. Common leading and trailing lines are
+ * skipped, the remaining lines are compared as multisets, so moved lines
+ * within a changed block are not counted.
+ */
+function countLineChanges(
+  before: string[],
+  after: string[]
+): { additions: number; deletions: number } {
+  let start = 0;
+  while (
+    start < before.length &&
+    start < after.length &&
+    before[start] === after[start]
+  ) {
+    start++;
+  }
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (
+    endBefore > start &&
+    endAfter > start &&
+    before[endBefore - 1] === after[endAfter - 1]
+  ) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const remaining = new Map<string, number>();
+  for (const line of before.slice(start, endBefore)) {
+    remaining.set(line, (remaining.get(line) ?? 0) + 1);
+  }
+  let additions = 0;
+  for (const line of after.slice(start, endAfter)) {
+    const count = remaining.get(line) ?? 0;
+    if (count > 0) {
+      remaining.set(line, count - 1);
+    } else {
+      additions++;
+    }
+  }
+  let deletions = 0;
+  for (const count of remaining.values()) {
+    deletions += count;
+  }
+  return { additions, deletions };
+}
@@ -0,0 +1,96 @@
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { stageOutputs } from './output-staging';
+
+describe('stageOutputs', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'core-output-staging-'));
+    mkdirSync(join(root, 'libs/api/users'), { recursive: true });
+    writeFileSync(join(root, 'libs/api/users/index.ts'), 'previous');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  function write(relPath: string, content: string) {
+    mkdirSync(join(root, relPath), { recursive: true });
+    writeFileSync(join(root, relPath, 'index.ts'), content);
+  }
+
+  it('should replace the output with the staging directory on success', async () => {
+    const result = await stageOutputs(
+      root,
+      ['libs/api/users'],
+      async ([staging]) => {
+        expect(staging).toMatch(/^libs\/api\/\.users\.staging-/);
+        write(staging, 'generated');
+        return 'done';
+      }
+    );
+
+    expect(result).toBe('done');
+    expect(readFileSync(join(root, 'libs/api/users/index.ts'), 'utf-8')).toBe(
+      'generated'
+    );
+    expect(readdirSync(join(root, 'libs/api'))).toEqual(['users']);
+  });
+
+  it('should keep the previous output if generation fails', async () => {
+    await expect(
+      stageOutputs(root, ['libs/api/users'], async ([staging]) => {
+        write(staging, 'partial');
+        throw new Error('generator failed');
+      })
+    ).rejects.toThrow('generator failed');
+
+    expect(readFileSync(join(root, 'libs/api/users/index.ts'), 'utf-8')).toBe(
+      'previous'
+    );
+    expect(readdirSync(join(root, 'libs/api'))).toEqual(['users']);
+  });
+
+  it('should create missing outputs and parent directories', async () => {
+    await stageOutputs(
+      root,
+      ['libs/api/users', 'libs/other/orders'],
+      async (stagingPaths) => {
+        stagingPaths.forEach((staging) => write(staging, 'generated'));
+      }
+    );
+
+    expect(existsSync(join(root, 'libs/other/orders/index.ts'))).toBe(true);
+    expect(readFileSync(join(root, 'libs/api/users/index.ts'), 'utf-8')).toBe(
+      'generated'
+    );
+  });
+
+  it('should restore all outputs if one of them cannot be replaced', async () => {
+    writeFileSync(join(root, 'libs/api/orders'), 'not a directory');
+
+    await expect(
+      stageOutputs(
+        root,
+        ['libs/api/users', 'libs/api/orders/nested'],
+        async (stagingPaths) => {
+          stagingPaths.forEach((staging) => write(staging, 'generated'));
+        }
+      )
+    ).rejects.toThrow();
+
+    expect(readFileSync(join(root, 'libs/api/users/index.ts'), 'utf-8')).toBe(
+      'previous'
+    );
+  });
+});
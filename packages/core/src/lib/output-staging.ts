@@ -0,0 +1,110 @@
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  renameSync,
+  rmSync,
+} from 'node:fs';
+import { basename, dirname, join, relative, sep } from 'node:path';
+import { logger } from '@nx/devkit';
+import { FileSystemError } from './errors';
+
+interface StagedOutput {
+  /** Absolute output directory */
+  output: string;
+  /** Absolute staging directory, a sibling of the output directory */
+  staging: string;
+  /** Where the previous output is moved while swapping */
+  backup: string;
+  swapped: boolean;
+  hadPrevious: boolean;
+}
+
+/**
+ * Runs `generate` with a fresh staging directory per output path (relative to
+ * `root`, like the output paths). Only if `generate` succeeds, the staging
+ * directories replace the output directories. Otherwise the outputs are left
+ * untouched.
+ *
+ * Staging directories are created next to their output directory, so the
+ * swap is a rename on the same file system.
+ */
+export async function stageOutputs<T>(
+  root: string,
+  relOutputPaths: string[],
+  generate: (relStagingPaths: string[]) => Promise<T>
+): Promise<T> {
+  const staged: StagedOutput[] = [];
+  try {
+    for (const relOutputPath of relOutputPaths) {
+      const output = join(root, relOutputPath);
+      mkdirSync(dirname(output), { recursive: true });
+      const staging = mkdtempSync(
+        join(dirname(output), `.${basename(output)}.staging-`)
+      );
+      staged.push({
+        output,
+        staging,
+        backup: `${staging}-previous`,
+        swapped: false,
+        hadPrevious: false,
+      });
+    }
+
+    const result = await generate(
+      staged.map(({ staging }) => relative(root, staging).split(sep).join('/'))
+    );
+
+    swapOutputs(staged);
+    return result;
+  } finally {
+    for (const { staging } of staged) {
+      rmSync(staging, { recursive: true, force: true });
+    }
+  }
+}
+
+function swapOutputs(staged: StagedOutput[]): void {
+  for (const entry of staged) {
+    try {
+      entry.hadPrevious = existsSync(entry.output);
+      if (entry.hadPrevious) {
+        renameSync(entry.output, entry.backup);
+      }
+      entry.swapped = true;
+      renameSync(entry.staging, entry.output);
+    } catch (e) {
+      restoreOutputs(staged);
+      throw new FileSystemError(
+        `Could not replace output with generated code, the previous output was restored: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+        entry.output,
+        'write',
+        e
+      );
+    }
+  }
+
+  for (const { backup } of staged) {
+    rmSync(backup, { recursive: true, force: true });
+  }
+}
+
+function restoreOutputs(staged: StagedOutput[]): void {
+  for (const entry of staged.filter((e) => e.swapped)) {
+    try {
+      if (!entry.hadPrevious) {
+        rmSync(entry.output, { recursive: true, force: true });
+      } else if (existsSync(entry.backup)) {
+        rmSync(entry.output, { recursive: true, force: true });
+        renameSync(entry.backup, entry.output);
+      }
+    } catch (e) {
+      logger.error(
+        `Could not restore ${entry.output}, the previous output is in ${entry.backup}`
+      );
+      logger.debug(`Restore error: ${e}`);
+    }
+  }
+}
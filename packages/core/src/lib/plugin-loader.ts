@@ -18,6 +18,13 @@ const BUILTIN_PLUGIN_MAP: Record<string, string> = {
 
 const cache = new Map<string, GeneratorPlugin>();
 
+/**
+ * Returns the npm package that provides the given generator plugin
+ */
+export function getPluginPackageName(name: string): string {
+  return BUILTIN_PLUGIN_MAP[name] ?? name;
+}
+
 /**
  * Helper function to determine if auto-installation should be attempted
  */
@@ -96,7 +103,7 @@ export async function loadPlugin(
     return cached;
   }
 
-  const pkg = BUILTIN_PLUGIN_MAP[name] ?? name;
+  const pkg = getPluginPackageName(name);
   const searchPaths: string[] = [pkg];
 
   logger.debug(`Attempting to load plugin from package: ${pkg}`);
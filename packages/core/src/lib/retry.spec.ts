@@ -0,0 +1,146 @@
+import { logger } from '@nx/devkit';
+import { ExecutionError, GenerationCancelledError } from './errors';
+import { classifyFailure, withRetry } from './retry';
+
+describe('retry', () => {
+  beforeEach(() => {
+    jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(logger, 'info').mockImplementation(() => undefined);
+    jest.spyOn(logger, 'debug').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('classifyFailure', () => {
+    it('should classify spawn and exit code failures', () => {
+      expect(
+        classifyFailure(
+          new ExecutionError(
+            'Failed to spawn process',
+            'node',
+            undefined,
+            new Error('EACCES')
+          )
+        )
+      ).toBe('spawn');
+      expect(classifyFailure(new ExecutionError('Failed', 'node', 1))).toBe(
+        'exit-code'
+      );
+    });
+
+    it('should classify reported errors as validation failures', () => {
+      const error = new ExecutionError('Failed', 'node', 1, undefined, [
+        {
+          severity: 'error',
+          code: 'generator-validation',
+          message: 'attribute info.version is missing',
+          file: 'api.yaml',
+          pointer: '/info/version',
+        },
+      ]);
+
+      expect(classifyFailure(error)).toBe('validation');
+      expect(classifyFailure(new Error('Invalid input'))).toBe('validation');
+    });
+
+    it('should classify network failures', () => {
+      const fetchError = Object.assign(new TypeError('fetch failed'), {
+        cause: Object.assign(new Error('getaddrinfo'), { code: 'ENOTFOUND' }),
+      });
+      const javaError = new ExecutionError('Failed', 'node', 1, undefined, [
+        {
+          severity: 'error',
+          code: 'generator-exception',
+          message: 'UnknownHostException: api.example.com',
+          file: 'https://api.example.com/spec.yaml',
+          pointer: '',
+        },
+      ]);
+
+      expect(classifyFailure(fetchError)).toBe('network');
+      expect(classifyFailure(javaError)).toBe('network');
+      expect(
+        classifyFailure(
+          new ExecutionError(
+            'Failed to generate code',
+            'node',
+            undefined,
+            javaError
+          )
+        )
+      ).toBe('network');
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry retryable failures until an attempt succeeds', async () => {
+      const operation = jest
+        .fn()
+        .mockRejectedValueOnce(new ExecutionError('Failed to spawn', 'node'))
+        .mockResolvedValueOnce('done');
+
+      await expect(
+        withRetry(operation, { delayMs: 0 }, 'api.yaml')
+      ).resolves.toBe('done');
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(operation).toHaveBeenLastCalledWith(2);
+    });
+
+    it('should not retry validation failures', async () => {
+      const error = new Error('Invalid spec');
+      const operation = jest.fn().mockRejectedValue(error);
+
+      await expect(
+        withRetry(operation, { delayMs: 0 }, 'api.yaml')
+      ).rejects.toBe(error);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should respect maxAttempts and retryOn', async () => {
+      const operation = jest
+        .fn()
+        .mockRejectedValue(new ExecutionError('Failed', 'node', 1));
+
+      await expect(
+        withRetry(
+          operation,
+          { delayMs: 0, maxAttempts: 2, retryOn: ['exit-code'] },
+          'api.yaml'
+        )
+      ).rejects.toThrow('Failed (exit code: 1)');
+      expect(operation).toHaveBeenCalledTimes(2);
+
+      operation.mockClear();
+      await expect(
+        withRetry(operation, { delayMs: 0, retryOn: ['network'] }, 'api.yaml')
+      ).rejects.toThrow('Failed (exit code: 1)');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry exit code failures by default', async () => {
+      const operation = jest
+        .fn()
+        .mockRejectedValue(new ExecutionError('Failed', 'node', 1));
+
+      await expect(
+        withRetry(operation, { delayMs: 0 }, 'api.yaml')
+      ).rejects.toThrow('Failed (exit code: 1)');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry cancelled operations', async () => {
+      const controller = new AbortController();
+      const operation = jest.fn(async () => {
+        controller.abort();
+        throw new GenerationCancelledError('Cancelled');
+      });
+
+      await expect(
+        withRetry(operation, { delayMs: 0 }, 'api.yaml', controller.signal)
+      ).rejects.toThrow('Cancelled');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { logger } from '@nx/devkit';
+import { abortable } from './abort';
+import { ExecutionError, GenerationCancelledError } from './errors';
+
+/**
+ * Kinds of generation failures:
+ * - 'spawn': the generator process could not be started
+ * - 'network': a remote spec or generator download could not be fetched
+ * - 'exit-code': the generator exited with an error but reported no problems.
+ *   Not retried by default, as this is usually caused by unknown options or
+ *   templates as well.
+ * - 'validation': the spec or options are invalid, retrying won't help
+ */
+export type RetryFailureType = 'spawn' | 'network' | 'exit-code' | 'validation';
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  /** Delay before the first retry */
+  delayMs?: number;
+  backoffMultiplier?: number;
+  /** Failure types that are retried */
+  retryOn?: RetryFailureType[];
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  delayMs: 1000,
+  backoffMultiplier: 2,
+  retryOn: ['spawn', 'network'],
+};
+
+const NETWORK_ERROR =
+  /ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE|socket hang up|fetch failed|UnknownHostException|ConnectException|SocketTimeoutException|SSLException/;
+
+/**
+ * Determines the failure type of an error thrown by a generator.
+ */
+export function classifyFailure(error: unknown): RetryFailureType {
+  if (isNetworkError(error)) {
+    return 'network';
+  }
+  if (error instanceof ExecutionError) {
+    if (error.diagnostics.some((d) => d.severity === 'error')) {
+      return 'validation';
+    }
+    return error.exitCode === undefined ? 'spawn' : 'exit-code';
+  }
+  // Errors thrown by generator libraries are mostly caused by their input
+  return 'validation';
+}
+
+/**
+ * Runs `operation` until it succeeds, retrying failures whose type is listed
+ * in `retryOn` with exponential backoff. The last error is rethrown, as are
+ * cancellations through `signal`.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions,
+  label: string,
+  signal?: AbortSignal
+): Promise<T> {
+  const { maxAttempts, delayMs, backoffMultiplier, retryOn } = {
+    ...DEFAULT_RETRY_OPTIONS,
+    ...options,
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      logger.debug(`Attempt ${attempt} of ${maxAttempts} for ${label}`);
+      return await operation(attempt);
+    } catch (error) {
+      if (error instanceof GenerationCancelledError || signal?.aborted) {
+        throw error;
+      }
+      const failureType = classifyFailure(error);
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(
+        `Attempt ${attempt} failed for ${label} (${failureType}): ${message}`
+      );
+
+      if (attempt >= maxAttempts || !retryOn.includes(failureType)) {
+        throw error;
+      }
+      const delay = delayMs * Math.pow(backoffMultiplier, attempt - 1);
+      logger.info(`Retrying in ${delay}ms...`);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return abortable(new Promise((resolve) => setTimeout(resolve, ms)), signal);
+}
+
+function isNetworkError(error: unknown): boolean {
+  const messages: string[] = [];
+  for (
+    let current: unknown = error, depth = 0;
+    current && depth < 5;
+    current = (current as { cause?: unknown }).cause, depth++
+  ) {
+    const { message, code } = current as { message?: unknown; code?: unknown };
+    messages.push(String(message ?? current), String(code ?? ''));
+    if (current instanceof ExecutionError) {
+      messages.push(...current.diagnostics.map((d) => d.message));
+    }
+  }
+  return messages.some((message) => NETWORK_ERROR.test(message));
+}
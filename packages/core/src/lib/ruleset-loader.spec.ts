@@ -0,0 +1,79 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { RulesetLoadError } from './errors';
+import { recommendedRuleset } from './lint-rules';
+import {
+  isRulesetFile,
+  loadLintRuleset,
+  loadLintRulesets,
+} from './ruleset-loader';
+
+describe('ruleset-loader', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'core-ruleset-loader-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should return built-in rulesets', async () => {
+    expect(await loadLintRuleset('recommended', { root })).toBe(
+      recommendedRuleset
+    );
+  });
+
+  it('should load rules from workspace files', async () => {
+    writeFileSync(
+      join(root, 'rules.js'),
+      `module.exports = { 'no-empty-info': { given: '$.info', then: () => undefined } };`
+    );
+    writeFileSync(
+      join(root, 'named.js'),
+      `exports.rules = { 'tags-required': { given: ['$'], then: () => undefined } };`
+    );
+
+    expect(Object.keys(await loadLintRuleset('./rules.js', { root }))).toEqual([
+      'no-empty-info',
+    ]);
+    expect(Object.keys(await loadLintRuleset('named.js', { root }))).toEqual([
+      'tags-required',
+    ]);
+  });
+
+  it('should merge rulesets with later rules overriding earlier ones', async () => {
+    writeFileSync(
+      join(root, 'rules.js'),
+      `module.exports = { 'paths-kebab-case': { given: '$', severity: 'error', then: () => undefined } };`
+    );
+
+    const rules = await loadLintRulesets(['recommended', './rules.js'], {
+      root,
+    });
+
+    expect(Object.keys(rules)).toEqual(Object.keys(recommendedRuleset));
+    expect(rules['paths-kebab-case'].severity).toBe('error');
+  });
+
+  it('should fail for missing files and invalid modules', async () => {
+    await expect(loadLintRuleset('./missing.js', { root })).rejects.toThrow(
+      RulesetLoadError
+    );
+
+    writeFileSync(join(root, 'invalid.js'), `module.exports = { a: 1 };`);
+    await expect(loadLintRuleset('./invalid.js', { root })).rejects.toThrow(
+      'Module does not export lint rules'
+    );
+  });
+
+  it('should detect workspace ruleset files', () => {
+    expect(isRulesetFile('./rules.js')).toBe(true);
+    expect(isRulesetFile('/abs/rules')).toBe(true);
+    expect(isRulesetFile('tools/openapi-rules.ts')).toBe(true);
+    expect(isRulesetFile('recommended')).toBe(false);
+    expect(isRulesetFile('@acme/openapi-rules')).toBe(false);
+  });
+});
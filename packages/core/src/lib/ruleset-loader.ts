@@ -0,0 +1,99 @@
+import { existsSync } from 'node:fs';
+import { isAbsolute, join } from 'node:path';
+import { logger } from '@nx/devkit';
+import { RulesetLoadError } from './errors';
+import { LintRuleset } from './interfaces';
+import { recommendedRuleset } from './lint-rules';
+import { isLintRule } from './type-guards';
+import { importWorkspaceFile } from './utils/import-file';
+
+const BUILTIN_RULESETS: Record<string, LintRuleset> = {
+  recommended: recommendedRuleset,
+};
+
+export function isBuiltinRuleset(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(BUILTIN_RULESETS, name);
+}
+
+/**
+ * Whether a ruleset name refers to a workspace file, rather than a built-in
+ * ruleset or a package.
+ */
+export function isRulesetFile(name: string): boolean {
+  return (
+    !isBuiltinRuleset(name) &&
+    (name.startsWith('.') || isAbsolute(name) || /\.[cm]?[jt]s$/.test(name))
+  );
+}
+
+/**
+ * Loads a lint ruleset. Supported are the built-in rulesets (`recommended`),
+ * workspace files (relative to the workspace root, `.js` or `.ts`) and
+ * installed packages.
+ *
+ * The module has to export the rules (name -> rule) as default export or as
+ * named export `rules`.
+ */
+export async function loadLintRuleset(
+  name: string,
+  opts: { root: string }
+): Promise<LintRuleset> {
+  const builtin = BUILTIN_RULESETS[name];
+  if (builtin) {
+    return builtin;
+  }
+
+  logger.debug(`Loading lint ruleset: ${name}`);
+  let mod: { default?: unknown; rules?: unknown };
+  try {
+    if (isRulesetFile(name)) {
+      const path = isAbsolute(name) ? name : join(opts.root, name);
+      if (!existsSync(path)) {
+        throw new Error(`File ${path} does not exist`);
+      }
+      mod = await importWorkspaceFile(path, opts.root);
+    } else {
+      mod = await import(require.resolve(name, { paths: [opts.root] }));
+    }
+  } catch (e) {
+    throw new RulesetLoadError(name, e);
+  }
+
+  const candidates = [mod.default, mod.rules, mod];
+  const rules = candidates.find(
+    (c) =>
+      !!c &&
+      typeof c === 'object' &&
+      Object.keys(c).some((key) => key !== '__esModule') &&
+      Object.entries(c).every(
+        ([key, rule]) => key === '__esModule' || isLintRule(rule)
+      )
+  ) as LintRuleset | undefined;
+
+  if (!rules) {
+    throw new RulesetLoadError(
+      name,
+      new Error(
+        `Module does not export lint rules. Expected an object of rules with 'given' and 'then' as default export or as 'rules'`
+      )
+    );
+  }
+
+  const ruleset: LintRuleset = { ...rules };
+  delete (ruleset as Record<string, unknown>)['__esModule'];
+  return ruleset;
+}
+
+/**
+ * Loads and merges rulesets, rules of later rulesets override earlier ones.
+ */
+export async function loadLintRulesets(
+  names: string[],
+  opts: { root: string }
+): Promise<LintRuleset> {
+  const merged: LintRuleset = {};
+  for (const name of names) {
+    Object.assign(merged, await loadLintRuleset(name, opts));
+  }
+  return merged;
+}
@@ -0,0 +1,226 @@
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { UnresolvedRefError } from './errors';
+import { resolveJsonPointer } from './json-pointer';
+import { bundleSpec, writeBundledSpec } from './spec-bundler';
+
+describe('spec-bundler', () => {
+  let root: string;
+
+  function writeFile(path: string, content: unknown) {
+    const full = join(root, path);
+    mkdirSync(dirname(full), { recursive: true });
+    writeFileSync(
+      full,
+      typeof content === 'string' ? content : JSON.stringify(content)
+    );
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'core-spec-bundler-'));
+    writeFile('specs/api.json', {
+      openapi: '3.0.0',
+      paths: {
+        '/users': { $ref: 'paths/users.json' },
+      },
+      components: {
+        schemas: {
+          Error: { type: 'object' },
+          Address: { $ref: 'schemas/address.yaml' },
+        },
+      },
+    });
+    writeFile('specs/paths/users.json', {
+      get: {
+        responses: {
+          '200': {
+            content: {
+              'application/json': {
+                schema: { $ref: '../schemas/user.json#/User' },
+              },
+            },
+          },
+          default: {
+            content: {
+              'application/json': {
+                schema: { $ref: '../api.json#/components/schemas/Error' },
+              },
+            },
+          },
+        },
+      },
+    });
+    writeFile('specs/schemas/user.json', {
+      User: {
+        type: 'object',
+        properties: {
+          address: { $ref: 'address.yaml' },
+          manager: { $ref: '#/User' },
+        },
+      },
+    });
+    writeFile(
+      'specs/schemas/address.yaml',
+      'type: object\nproperties:\n  street:\n    type: string\n'
+    );
+  });
+
+  function valueAt(doc: unknown, pointer: string) {
+    return resolveJsonPointer(doc, pointer).value;
+  }
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('bundleSpec', () => {
+    it('should move external schemas into components and keep internal refs', async () => {
+      const result = await bundleSpec('specs/api.json', { root });
+
+      expect(valueAt(result, '/paths/~1users/get/responses/200')).toEqual({
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/User' },
+          },
+        },
+      });
+      expect(
+        valueAt(
+          result,
+          '/paths/~1users/get/responses/default/content/application~1json/schema'
+        )
+      ).toEqual({ $ref: '#/components/schemas/Error' });
+      expect(valueAt(result, '/components/schemas/Address')).toEqual({
+        type: 'object',
+        properties: { street: { type: 'string' } },
+      });
+      expect(valueAt(result, '/components/schemas/User')).toEqual({
+        type: 'object',
+        properties: {
+          address: { $ref: '#/components/schemas/Address' },
+          manager: { $ref: '#/components/schemas/User' },
+        },
+      });
+      expect(JSON.stringify(result)).not.toMatch(/\.(json|yaml)/);
+    });
+
+    it('should not overwrite existing components with the same name', async () => {
+      writeFile('specs/schemas/user.json', {
+        User: { properties: { error: { $ref: 'error.json' } } },
+      });
+      writeFile('specs/schemas/error.json', { type: 'string' });
+      writeFile('specs/api.json', {
+        openapi: '3.0.0',
+        paths: { '/users': { $ref: 'paths/users.json' } },
+        components: { schemas: { Error: { type: 'object' }, error: {} } },
+      });
+
+      const result = await bundleSpec('specs/api.json', { root });
+
+      expect(valueAt(result, '/components/schemas/error')).toEqual({});
+      expect(valueAt(result, '/components/schemas/error_2')).toEqual({
+        type: 'string',
+      });
+      expect(
+        valueAt(result, '/components/schemas/User/properties/error')
+      ).toEqual({
+        $ref: '#/components/schemas/error_2',
+      });
+    });
+
+    it('should use definitions for Swagger 2.0 documents', async () => {
+      writeFile('swagger.json', {
+        swagger: '2.0',
+        paths: {
+          '/a': {
+            get: {
+              responses: {
+                '200': { schema: { $ref: 'specs/schemas/address.yaml' } },
+              },
+            },
+          },
+        },
+      });
+
+      const result = await bundleSpec('swagger.json', { root });
+
+      expect(valueAt(result, '/paths/~1a/get/responses/200/schema')).toEqual({
+        $ref: '#/definitions/address',
+      });
+      expect(valueAt(result, '/definitions/address/type')).toBe('object');
+    });
+
+    it('should inline all refs in dereference mode', async () => {
+      const result = await bundleSpec('specs/api.json', {
+        root,
+        mode: 'dereference',
+      });
+
+      const schema =
+        '/paths/~1users/get/responses/200/content/application~1json/schema';
+      expect(valueAt(result, `${schema}/properties/address`)).toEqual({
+        type: 'object',
+        properties: { street: { type: 'string' } },
+      });
+      // Circular refs point to the first inlined copy
+      expect(valueAt(result, `${schema}/properties/manager`)).toEqual({
+        $ref: '#/paths/~1users/get/responses/200/content/application~1json/schema',
+      });
+      expect(
+        valueAt(
+          result,
+          '/paths/~1users/get/responses/default/content/application~1json/schema'
+        )
+      ).toEqual({ type: 'object' });
+    });
+
+    it('should report missing files with the referencing file and pointer', async () => {
+      writeFile('specs/schemas/address.yaml', 'city:\n  $ref: city.yaml\n');
+
+      const error = await bundleSpec('specs/api.json', { root }).catch(
+        (e) => e
+      );
+
+      expect(error).toBeInstanceOf(UnresolvedRefError);
+      expect(error).toMatchObject({
+        ref: 'city.yaml',
+        file: join(root, 'specs/schemas/address.yaml'),
+        pointer: '/city',
+      });
+    });
+
+    it('should report refs to missing pointers', async () => {
+      writeFile('specs/schemas/user.json', {
+        User: { $ref: '#/Missing' },
+      });
+
+      await expect(bundleSpec('specs/api.json', { root })).rejects.toThrow(
+        `Unresolved $ref '#/Missing' in ${join(
+          root,
+          'specs/schemas/user.json'
+        )} at '#/User'`
+      );
+    });
+  });
+
+  describe('writeBundledSpec', () => {
+    it('should write the bundled document as JSON', async () => {
+      const outDir = join(root, 'out');
+
+      const file = await writeBundledSpec('specs/api.json', outDir, {
+        root,
+        name: 'users',
+      });
+
+      expect(file).toBe(join(outDir, 'users.json'));
+      expect(JSON.parse(readFileSync(file, 'utf-8')).openapi).toBe('3.0.0');
+    });
+  });
+});
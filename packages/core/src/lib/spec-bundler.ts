@@ -0,0 +1,425 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { basename, extname, join } from 'node:path';
+import { logger } from '@nx/devkit';
+import { UnresolvedRefError } from './errors';
+import {
+  compileJsonPointer,
+  parseJsonPointer,
+  resolveJsonPointer,
+} from './json-pointer';
+import {
+  loadSpecDocument,
+  resolveRefLocation,
+  splitRef,
+} from './spec-document';
+import { resolveSpecLocation, SpecSourceOptions } from './spec-source';
+
+/**
+ * - `bundle`: external refs are moved into the document (schemas, parameters,
+ *   responses, ... are added as components), internal refs are kept
+ * - `dereference`: all refs are replaced by their value, only circular refs
+ *   are kept as internal refs
+ */
+export type BundleMode = 'bundle' | 'dereference';
+
+export interface BundleSpecOptions extends SpecSourceOptions {
+  mode?: BundleMode;
+}
+
+export interface WriteBundledSpecOptions extends BundleSpecOptions {
+  name?: string;
+  /** Applied to the bundled document before it is written */
+  transform?: (document: unknown) => Promise<unknown>;
+}
+
+type JsonObject = Record<string, unknown>;
+
+// Keys whose values (or whose children's values) are schema objects
+const SCHEMA_KEYS = new Set(['schema', 'items', 'additionalProperties', 'not']);
+const SCHEMA_CONTAINER_KEYS = new Set([
+  'properties',
+  'patternProperties',
+  'allOf',
+  'anyOf',
+  'oneOf',
+  'prefixItems',
+  'schemas',
+  'definitions',
+  '$defs',
+]);
+const COMPONENT_CONTAINER_KEYS: Record<string, string> = {
+  parameters: 'parameters',
+  responses: 'responses',
+  headers: 'headers',
+  examples: 'examples',
+  links: 'links',
+  callbacks: 'callbacks',
+  securitySchemes: 'securitySchemes',
+};
+
+/**
+ * Resolves all external `$ref`s of a spec into a single self-contained
+ * document. Local refs are resolved without network access.
+ */
+export async function bundleSpec(
+  spec: string,
+  opts: BundleSpecOptions
+): Promise<unknown> {
+  return new SpecBundler(
+    resolveSpecLocation(spec, opts.root),
+    opts.mode ?? 'bundle',
+    opts
+  ).bundle();
+}
+
+/**
+ * Bundles a spec and writes the result as JSON into the given directory.
+ * Returns the path of the written file.
+ */
+export async function writeBundledSpec(
+  spec: string,
+  outputDir: string,
+  opts: WriteBundledSpecOptions
+): Promise<string> {
+  let document = await bundleSpec(spec, opts);
+  if (opts.transform) {
+    document = await opts.transform(document);
+  }
+  const name = opts.name ?? basename(spec, extname(spec));
+  const outputFile = join(outputDir, `${name}.json`);
+  mkdirSync(outputDir, { recursive: true });
+  writeFileSync(outputFile, JSON.stringify(document, null, 2));
+  logger.debug(`Bundled ${spec} into ${outputFile}`);
+  return outputFile;
+}
+
+class SpecBundler {
+  private documents = new Map<string, Promise<unknown>>();
+  // ref target (location#pointer) -> pointer of its copy in the output
+  private hoisted = new Map<string, string>();
+  private inlined = new Map<string, string>();
+  private components = new Map<string, Map<string, unknown>>();
+  private usedNames = new Set<string>();
+  private isSwagger2 = false;
+
+  constructor(
+    private readonly rootLocation: string,
+    private readonly mode: BundleMode,
+    private readonly opts: SpecSourceOptions
+  ) {}
+
+  async bundle(): Promise<unknown> {
+    const root = await this.load(this.rootLocation);
+    this.isSwagger2 =
+      !!root && typeof root === 'object' && 'swagger' in (root as JsonObject);
+    this.reserveExistingNames(root);
+
+    const result = await this.process(root, this.rootLocation, [], [], []);
+    return this.addComponents(result);
+  }
+
+  private async process(
+    node: unknown,
+    location: string,
+    outPath: string[],
+    srcPath: string[],
+    stack: string[]
+  ): Promise<unknown> {
+    if (Array.isArray(node)) {
+      const items: unknown[] = [];
+      for (let i = 0; i < node.length; i++) {
+        items.push(
+          await this.process(
+            node[i],
+            location,
+            [...outPath, String(i)],
+            [...srcPath, String(i)],
+            stack
+          )
+        );
+      }
+      return items;
+    }
+    if (node === null || typeof node !== 'object') {
+      return node;
+    }
+    if (typeof (node as JsonObject)['$ref'] === 'string') {
+      return this.processRef(
+        node as JsonObject,
+        location,
+        outPath,
+        srcPath,
+        stack
+      );
+    }
+
+    const result: JsonObject = {};
+    for (const [key, value] of Object.entries(node)) {
+      result[key] = await this.process(
+        value,
+        location,
+        [...outPath, key],
+        [...srcPath, key],
+        stack
+      );
+    }
+    return result;
+  }
+
+  private async processRef(
+    node: JsonObject,
+    location: string,
+    outPath: string[],
+    srcPath: string[],
+    stack: string[]
+  ): Promise<unknown> {
+    const ref = node['$ref'] as string;
+    const { location: refLocation, pointer } = splitRef(ref);
+    const target =
+      refLocation === '' ? location : resolveRefLocation(refLocation, location);
+    const key = `${target}#${pointer}`;
+    const isCircular = stack.includes(key);
+
+    const siblings: JsonObject = {};
+    for (const [k, v] of Object.entries(node)) {
+      if (k !== '$ref') {
+        siblings[k] = await this.process(
+          v,
+          location,
+          [...outPath, k],
+          [...srcPath, k],
+          stack
+        );
+      }
+    }
+
+    if (this.mode === 'dereference' && !isCircular) {
+      const value = await this.resolve(ref, target, pointer, location, srcPath);
+      this.inlined.set(
+        key,
+        this.inlined.get(key) ?? compileJsonPointer(outPath)
+      );
+      return this.merge(
+        await this.process(value, target, outPath, parseJsonPointer(pointer), [
+          ...stack,
+          key,
+        ]),
+        siblings
+      );
+    }
+
+    // Refs into the root document can stay internal refs
+    if (target === this.rootLocation) {
+      await this.resolve(ref, target, pointer, location, srcPath);
+      return { ...siblings, $ref: `#${pointer}` };
+    }
+
+    const componentType = this.getComponentType(outPath);
+    if (componentType && this.isComponentSlot(componentType, outPath)) {
+      // The ref is a component of the root document itself, e.g.
+      // `components.schemas.User: { $ref: './user.yaml' }`
+      const value = await this.resolve(ref, target, pointer, location, srcPath);
+      return this.merge(
+        await this.process(value, target, outPath, parseJsonPointer(pointer), [
+          ...stack,
+          key,
+        ]),
+        siblings
+      );
+    }
+
+    const existing = this.hoisted.get(key) ?? this.inlined.get(key);
+    if (existing !== undefined) {
+      return { ...siblings, $ref: `#${existing}` };
+    }
+
+    const value = await this.resolve(ref, target, pointer, location, srcPath);
+    if (componentType) {
+      const name = this.reserveName(componentType, target, pointer);
+      const componentPath = [...this.getComponentsPath(componentType), name];
+      this.hoisted.set(key, compileJsonPointer(componentPath));
+      this.getComponentMap(componentType).set(
+        name,
+        await this.process(
+          value,
+          target,
+          componentPath,
+          parseJsonPointer(pointer),
+          [...stack, key]
+        )
+      );
+      return { ...siblings, $ref: `#${compileJsonPointer(componentPath)}` };
+    }
+
+    // Anything that cannot become a component is inlined where it is first
+    // used, later refs to the same target point to that copy
+    this.inlined.set(key, compileJsonPointer(outPath));
+    return this.merge(
+      await this.process(value, target, outPath, parseJsonPointer(pointer), [
+        ...stack,
+        key,
+      ]),
+      siblings
+    );
+  }
+
+  private async resolve(
+    ref: string,
+    target: string,
+    pointer: string,
+    referrer: string,
+    srcPath: string[]
+  ): Promise<unknown> {
+    let document: unknown;
+    try {
+      document = await this.load(target);
+    } catch (e) {
+      throw new UnresolvedRefError(
+        ref,
+        referrer,
+        compileJsonPointer(srcPath),
+        e instanceof Error ? e.message : String(e)
+      );
+    }
+
+    let resolved: { found: boolean; value?: unknown };
+    try {
+      resolved = resolveJsonPointer(document, pointer);
+    } catch {
+      resolved = { found: false };
+    }
+    if (!resolved.found) {
+      throw new UnresolvedRefError(
+        ref,
+        referrer,
+        compileJsonPointer(srcPath),
+        `'${pointer}' does not exist in ${target}`
+      );
+    }
+    return resolved.value;
+  }
+
+  private load(location: string): Promise<unknown> {
+    let document = this.documents.get(location);
+    if (!document) {
+      document = loadSpecDocument(location, this.opts).then((r) => r.document);
+      this.documents.set(location, document);
+    }
+    return document;
+  }
+
+  private merge(value: unknown, siblings: JsonObject): unknown {
+    if (Object.keys(siblings).length === 0) return value;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return { ...(value as JsonObject), ...siblings };
+    }
+    return value;
+  }
+
+  private getComponentType(outPath: string[]): string | undefined {
+    const key = outPath[outPath.length - 1];
+    const parent = outPath[outPath.length - 2];
+    if (key === undefined) return undefined;
+    if (SCHEMA_KEYS.has(key) || (parent && SCHEMA_CONTAINER_KEYS.has(parent))) {
+      return 'schemas';
+    }
+    if (key === 'requestBody' && !this.isSwagger2) {
+      return 'requestBodies';
+    }
+    if (parent && COMPONENT_CONTAINER_KEYS[parent]) {
+      const type = COMPONENT_CONTAINER_KEYS[parent];
+      // Swagger 2.0 only supports reusable parameters and responses
+      if (!this.isSwagger2 || type === 'parameters' || type === 'responses') {
+        return type;
+      }
+    }
+    return undefined;
+  }
+
+  private isComponentSlot(type: string, outPath: string[]): boolean {
+    return (
+      compileJsonPointer(outPath.slice(0, -1)) ===
+      compileJsonPointer(this.getComponentsPath(type))
+    );
+  }
+
+  private getComponentsPath(type: string): string[] {
+    if (this.isSwagger2) {
+      return [type === 'schemas' ? 'definitions' : type];
+    }
+    return ['components', type];
+  }
+
+  private getComponentMap(type: string): Map<string, unknown> {
+    let map = this.components.get(type);
+    if (!map) {
+      map = new Map();
+      this.components.set(type, map);
+    }
+    return map;
+  }
+
+  private reserveExistingNames(root: unknown): void {
+    for (const type of [
+      'schemas',
+      'requestBodies',
+      ...Object.values(COMPONENT_CONTAINER_KEYS),
+    ]) {
+      const { found, value } = resolveJsonPointer(
+        root,
+        compileJsonPointer(this.getComponentsPath(type))
+      );
+      if (!found || !value || typeof value !== 'object') continue;
+
+      for (const [name, component] of Object.entries(value)) {
+        this.usedNames.add(`${type}/${name}`);
+        // External refs of root components are inlined into the component,
+        // other refs to the same target can point there
+        const ref = (component as JsonObject | null)?.['$ref'];
+        if (typeof ref === 'string' && splitRef(ref).location !== '') {
+          const { location, pointer } = splitRef(ref);
+          this.hoisted.set(
+            `${resolveRefLocation(location, this.rootLocation)}#${pointer}`,
+            compileJsonPointer([...this.getComponentsPath(type), name])
+          );
+        }
+      }
+    }
+  }
+
+  private reserveName(type: string, target: string, pointer: string): string {
+    const tokens = parseJsonPointer(pointer);
+    const base = (
+      tokens.length > 0
+        ? tokens[tokens.length - 1]
+        : basename(target.split('?')[0], extname(target.split('?')[0]))
+    ).replace(/[^A-Za-z0-9._-]/g, '_');
+
+    let name = base || 'Component';
+    for (let i = 2; this.usedNames.has(`${type}/${name}`); i++) {
+      name = `${base}_${i}`;
+    }
+    this.usedNames.add(`${type}/${name}`);
+    return name;
+  }
+
+  private addComponents(result: unknown): unknown {
+    if (this.components.size === 0 || !result || typeof result !== 'object') {
+      return result;
+    }
+    const doc = result as JsonObject;
+    for (const [type, entries] of this.components) {
+      let container = doc;
+      for (const token of this.getComponentsPath(type)) {
+        if (!container[token] || typeof container[token] !== 'object') {
+          container[token] = {};
+        }
+        container = container[token] as JsonObject;
+      }
+      for (const [name, value] of entries) {
+        container[name] = value;
+      }
+    }
+    return doc;
+  }
+}
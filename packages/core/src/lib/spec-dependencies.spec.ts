@@ -0,0 +1,139 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { resolveSpecDependencies } from './spec-dependencies';
+
+describe('resolveSpecDependencies', () => {
+  let root: string;
+
+  function writeFile(path: string, content: string) {
+    const full = join(root, path);
+    mkdirSync(dirname(full), { recursive: true });
+    writeFileSync(full, content);
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'core-spec-deps-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should return only the root for a self-contained spec', async () => {
+    writeFile(
+      'api.json',
+      JSON.stringify({
+        openapi: '3.0.0',
+        components: { schemas: { A: { $ref: '#/components/schemas/B' } } },
+      })
+    );
+
+    const result = await resolveSpecDependencies('api.json', { root });
+
+    expect(result.root).toBe(join(root, 'api.json'));
+    expect(result.files).toEqual([join(root, 'api.json')]);
+    expect(result.urls).toEqual([]);
+  });
+
+  it('should follow relative refs across YAML and JSON files', async () => {
+    writeFile(
+      'specs/openapi.yaml',
+      [
+        'openapi: 3.0.0',
+        'paths:',
+        '  /users:',
+        "    $ref: './paths/users.yaml'",
+      ].join('\n')
+    );
+    writeFile(
+      'specs/paths/users.yaml',
+      [
+        'get:',
+        '  responses:',
+        "    '200':",
+        '      content:',
+        '        application/json:',
+        '          schema:',
+        "            $ref: '../schemas/user.json#/User'",
+      ].join('\n')
+    );
+    writeFile(
+      'specs/schemas/user.json',
+      JSON.stringify({
+        User: { properties: { address: { $ref: 'address.yaml' } } },
+      })
+    );
+    writeFile('specs/schemas/address.yaml', 'type: object');
+
+    const result = await resolveSpecDependencies('specs/openapi.yaml', {
+      root,
+    });
+
+    expect(result.files).toEqual(
+      [
+        'specs/openapi.yaml',
+        'specs/paths/users.yaml',
+        'specs/schemas/address.yaml',
+        'specs/schemas/user.json',
+      ].map((f) => join(root, f))
+    );
+    expect(result.contents.get(join(root, 'specs/schemas/address.yaml'))).toBe(
+      'type: object'
+    );
+  });
+
+  it('should handle circular refs', async () => {
+    writeFile('a.yaml', "a:\n  $ref: 'b.yaml'");
+    writeFile('b.yaml', "b:\n  $ref: 'a.yaml#/a'");
+
+    const result = await resolveSpecDependencies('a.yaml', { root });
+
+    expect(result.files).toEqual([join(root, 'a.yaml'), join(root, 'b.yaml')]);
+  });
+
+  it('should report missing files without failing', async () => {
+    writeFile('a.yaml', "a:\n  $ref: 'missing.yaml'");
+
+    const result = await resolveSpecDependencies('a.yaml', { root });
+
+    expect(result.files).toContain(join(root, 'missing.yaml'));
+    expect(result.contents.has(join(root, 'missing.yaml'))).toBe(false);
+  });
+
+  it('should follow remote refs and resolve relative refs against URLs', async () => {
+    writeFile(
+      'api.yaml',
+      "a:\n  $ref: 'https://example.com/specs/common.yaml#/Error'"
+    );
+    const documents: Record<string, string> = {
+      'https://example.com/specs/common.yaml': "Error:\n  $ref: 'error.yaml'",
+      'https://example.com/specs/error.yaml': 'type: object',
+    };
+    global.fetch = jest.fn(async (url: string) => ({
+      ok: true,
+      text: async () => documents[url],
+    })) as unknown as typeof fetch;
+
+    const result = await resolveSpecDependencies('api.yaml', { root });
+
+    expect(result.urls).toEqual([
+      'https://example.com/specs/common.yaml',
+      'https://example.com/specs/error.yaml',
+    ]);
+  });
+
+  it('should not fetch remote documents when followRemote is disabled', async () => {
+    writeFile('api.yaml', "a:\n  $ref: 'https://example.com/common.yaml'");
+    global.fetch = jest.fn() as unknown as typeof fetch;
+
+    const result = await resolveSpecDependencies('api.yaml', {
+      root,
+      followRemote: false,
+    });
+
+    expect(result.urls).toEqual(['https://example.com/common.yaml']);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,88 @@
+import { existsSync } from 'node:fs';
+import { logger } from '@nx/devkit';
+import { isRemoteSpec } from './input-spec';
+import {
+  parseSpecDocument,
+  resolveRefLocation,
+  splitRef,
+  visitRefs,
+} from './spec-document';
+import {
+  readSpecSource,
+  resolveSpecLocation,
+  SpecSourceOptions,
+} from './spec-source';
+
+export interface SpecDependencyOptions extends SpecSourceOptions {
+  /**
+   * Whether remote documents are fetched to follow their refs. When disabled,
+   * referenced URLs are still reported but not downloaded. Defaults to true.
+   */
+  followRemote?: boolean;
+}
+
+export interface SpecDependencies {
+  /** Resolved location of the root spec */
+  root: string;
+  /** Absolute paths of all local documents, including the root spec */
+  files: string[];
+  /** URLs of all remote documents, including the root spec */
+  urls: string[];
+  /** Raw content of every document that could be read, keyed by location */
+  contents: Map<string, string>;
+}
+
+/**
+ * Collects every document reachable from a spec through external `$ref`s.
+ *
+ * Local documents that are missing or cannot be parsed are still reported,
+ * they are just not followed any further. Failing to fetch a remote document
+ * is an error.
+ */
+export async function resolveSpecDependencies(
+  spec: string,
+  opts: SpecDependencyOptions
+): Promise<SpecDependencies> {
+  const followRemote = opts.followRemote ?? true;
+  const root = resolveSpecLocation(spec, opts.root);
+  const visited = new Set<string>();
+  const contents = new Map<string, string>();
+  const queue = [root];
+
+  while (queue.length > 0) {
+    const location = queue.shift() as string;
+    if (visited.has(location)) continue;
+    visited.add(location);
+
+    if (isRemoteSpec(location) ? !followRemote : !existsSync(location)) {
+      logger.debug(`Not following spec dependency ${location}`);
+      continue;
+    }
+
+    const content = await readSpecSource(location, opts);
+    contents.set(location, content);
+
+    let document: unknown;
+    try {
+      document = parseSpecDocument(content, location);
+    } catch (e) {
+      logger.debug(`Not following refs of ${location}: ${e}`);
+      continue;
+    }
+
+    visitRefs(document, (ref) => {
+      const { location: refLocation } = splitRef(ref);
+      if (refLocation !== '') {
+        queue.push(resolveRefLocation(refLocation, location));
+      }
+    });
+  }
+
+  const all = Array.from(visited);
+  return {
+    root,
+    files: all.filter((l) => !isRemoteSpec(l)).sort(),
+    urls: all.filter((l) => isRemoteSpec(l)).sort(),
+    contents,
+  };
+}
@@ -0,0 +1,253 @@
+import {
+  diffSpecs,
+  formatSpecChangesMarkdown,
+  hasBreakingChanges,
+  SpecChange,
+} from './spec-diff';
+
+function spec(paths: Record<string, unknown>) {
+  return { openapi: '3.0.3', info: { title: 'A', version: '1' }, paths };
+}
+
+const petSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'integer' },
+    status: { type: 'string', enum: ['available', 'sold'] },
+  },
+};
+
+function petsApi(overrides: {
+  parameters?: unknown[];
+  schema?: unknown;
+  requestSchema?: unknown;
+}) {
+  return spec({
+    '/pets': {
+      get: {
+        parameters: overrides.parameters ?? [
+          { name: 'limit', in: 'query', schema: { type: 'integer' } },
+        ],
+        responses: {
+          '200': {
+            description: 'ok',
+            content: {
+              'application/json': { schema: overrides.schema ?? petSchema },
+            },
+          },
+        },
+      },
+      post: {
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: overrides.requestSchema ?? petSchema,
+            },
+          },
+        },
+        responses: { '201': { description: 'created' } },
+      },
+    },
+  });
+}
+
+function codes(changes: SpecChange[]) {
+  return changes.map((c) => `${c.severity}:${c.code}`);
+}
+
+describe('spec-diff', () => {
+  describe('diffSpecs', () => {
+    it('should report no changes for identical specs', () => {
+      expect(diffSpecs(petsApi({}), petsApi({}))).toEqual([]);
+    });
+
+    it('should classify removed and added operations', () => {
+      const base = spec({ '/a': { get: {} }, '/b': { get: {} } });
+      const current = spec({ '/a': { get: {}, post: {} } });
+
+      const changes = diffSpecs(base, current);
+
+      expect(codes(changes)).toEqual([
+        'breaking:operation-removed',
+        'non-breaking:operation-added',
+      ]);
+      expect(changes[0].pointer).toBe('/paths/~1b/get');
+    });
+
+    it('should detect newly required parameters', () => {
+      const changes = diffSpecs(
+        petsApi({}),
+        petsApi({
+          parameters: [
+            {
+              name: 'limit',
+              in: 'query',
+              required: true,
+              schema: { type: 'integer' },
+            },
+            { name: 'tenant', in: 'header', required: true },
+            { name: 'sort', in: 'query' },
+          ],
+        })
+      );
+
+      expect(codes(changes)).toEqual(
+        expect.arrayContaining([
+          'breaking:parameter-became-required',
+          'breaking:required-parameter-added',
+          'non-breaking:parameter-added',
+        ])
+      );
+    });
+
+    it('should detect type changes and narrowed enums in responses', () => {
+      const changes = diffSpecs(
+        petsApi({}),
+        petsApi({
+          schema: {
+            ...petSchema,
+            properties: {
+              id: { type: 'string' },
+              status: { type: 'string', enum: ['available'] },
+            },
+          },
+        })
+      );
+
+      expect(codes(changes)).toEqual(
+        expect.arrayContaining(['breaking:type-changed'])
+      );
+    });
+
+    it('should treat extended enums as non-breaking', () => {
+      const extended = {
+        ...petSchema,
+        properties: {
+          ...petSchema.properties,
+          status: { type: 'string', enum: ['available', 'sold', 'pending'] },
+        },
+      };
+
+      expect(
+        codes(diffSpecs(petsApi({}), petsApi({ requestSchema: extended })))
+      ).toEqual(['non-breaking:enum-extended']);
+      expect(
+        codes(diffSpecs(petsApi({}), petsApi({ schema: extended })))
+      ).toEqual(['non-breaking:enum-extended']);
+    });
+
+    it('should treat narrowed enums as breaking for requests', () => {
+      const narrowed = {
+        ...petSchema,
+        properties: {
+          ...petSchema.properties,
+          status: { type: 'string', enum: ['available'] },
+        },
+      };
+
+      expect(
+        codes(diffSpecs(petsApi({}), petsApi({ requestSchema: narrowed })))
+      ).toEqual(['breaking:enum-narrowed']);
+    });
+
+    it('should detect new required request properties', () => {
+      const changes = diffSpecs(
+        petsApi({}),
+        petsApi({
+          requestSchema: {
+            ...petSchema,
+            required: ['id', 'name'],
+            properties: { ...petSchema.properties, name: { type: 'string' } },
+          },
+        })
+      );
+
+      expect(codes(changes)).toEqual(['breaking:required-property-added']);
+      expect(changes[0].pointer).toBe(
+        '/paths/~1pets/post/requestBody/content/application~1json/schema/properties/name'
+      );
+    });
+
+    it('should handle Swagger 2.0 body parameters', () => {
+      const swagger = (required: string[]) => ({
+        swagger: '2.0',
+        info: { title: 'A', version: '1' },
+        paths: {
+          '/pets': {
+            post: {
+              parameters: [
+                {
+                  name: 'body',
+                  in: 'body',
+                  schema: {
+                    type: 'object',
+                    required,
+                    properties: { id: { type: 'integer' } },
+                  },
+                },
+              ],
+              responses: { '200': { description: 'ok' } },
+            },
+          },
+        },
+      });
+
+      expect(codes(diffSpecs(swagger([]), swagger(['id'])))).toEqual([
+        'breaking:property-became-required',
+      ]);
+    });
+  });
+
+  describe('formatSpecChangesMarkdown', () => {
+    it('should render breaking and non-breaking changes as tables', () => {
+      const markdown = formatSpecChangesMarkdown([
+        {
+          name: 'pets',
+          spec: 'apis/pets.yaml',
+          hasBaseline: true,
+          changes: diffSpecs(
+            spec({ '/a': { get: {} } }),
+            spec({ '/b': { get: {} } })
+          ),
+        },
+        { spec: 'apis/new.yaml', hasBaseline: false, changes: [] },
+      ]);
+
+      expect(markdown).toContain('### pets (`apis/pets.yaml`)');
+      expect(markdown).toContain(
+        ':warning: **1 breaking**, 1 non-breaking change(s)'
+      );
+      expect(markdown).toContain(
+        '| `operation-removed` | GET /a was removed | `#/paths/~1a/get` |'
+      );
+      expect(markdown).toContain('No baseline found, nothing to compare.');
+    });
+
+    it('should escape table syntax in messages', () => {
+      const markdown = formatSpecChangesMarkdown([
+        {
+          spec: 'a.yaml',
+          hasBaseline: true,
+          changes: [
+            {
+              severity: 'breaking',
+              code: 'x',
+              message: 'a | b',
+              pointer: '',
+            },
+          ],
+        },
+      ]);
+
+      expect(markdown).toContain('a \\| b');
+    });
+  });
+
+  it('hasBreakingChanges should detect breaking changes', () => {
+    expect(hasBreakingChanges([])).toBe(false);
+    expect(
+      hasBreakingChanges(diffSpecs(spec({ '/a': { get: {} } }), spec({})))
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,700 @@
+import { compileJsonPointer } from './json-pointer';
+
+export type SpecChangeSeverity = 'breaking' | 'non-breaking';
+
+/**
+ * A difference between two versions of a spec.
+ */
+export interface SpecChange {
+  severity: SpecChangeSeverity;
+  /** Kind of change, e.g. 'operation-removed' */
+  code: string;
+  message: string;
+  /** JSON pointer to the changed value in the current (or removed value in the base) spec */
+  pointer: string;
+}
+
+type JsonObject = Record<string, unknown>;
+type SchemaContext = 'request' | 'response';
+
+const HTTP_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace',
+];
+
+// Guards against deeply nested or circular schemas
+const MAX_SCHEMA_DEPTH = 32;
+
+/**
+ * Compares two dereferenced specs (Swagger 2.0 or OpenAPI 3.x) and classifies
+ * the changes relevant for API consumers as breaking or non-breaking.
+ */
+export function diffSpecs(base: unknown, current: unknown): SpecChange[] {
+  const changes: SpecChange[] = [];
+  const basePaths = asObject(asObject(base)['paths']);
+  const currentPaths = asObject(asObject(current)['paths']);
+
+  for (const [path, baseItem] of Object.entries(basePaths)) {
+    const currentItem = currentPaths[path];
+    for (const method of HTTP_METHODS) {
+      const baseOperation = asObject(baseItem)[method];
+      if (!baseOperation) continue;
+
+      const pointer = ['paths', path, method];
+      const currentOperation = asObject(currentItem)[method];
+      if (!currentOperation) {
+        changes.push(
+          breaking(
+            'operation-removed',
+            `${label(method, path)} was removed`,
+            pointer
+          )
+        );
+        continue;
+      }
+      diffOperation(
+        { item: asObject(baseItem), operation: asObject(baseOperation) },
+        { item: asObject(currentItem), operation: asObject(currentOperation) },
+        label(method, path),
+        pointer,
+        changes
+      );
+    }
+  }
+
+  for (const [path, currentItem] of Object.entries(currentPaths)) {
+    for (const method of HTTP_METHODS) {
+      if (asObject(currentItem)[method] && !asObject(basePaths[path])[method]) {
+        changes.push(
+          nonBreaking('operation-added', `${label(method, path)} was added`, [
+            'paths',
+            path,
+            method,
+          ])
+        );
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Changes found for one spec of an InputSpec.
+ */
+export interface SpecChanges {
+  /** Service name for map-style input specs */
+  name?: string;
+  spec: string;
+  /** Whether a baseline was found to compare against */
+  hasBaseline: boolean;
+  changes: SpecChange[];
+}
+
+/**
+ * Formats spec changes as Markdown, e.g. for pull request comments.
+ */
+export function formatSpecChangesMarkdown(results: SpecChanges[]): string {
+  const lines: string[] = ['## OpenAPI spec changes', ''];
+  for (const { name, spec, hasBaseline, changes } of results) {
+    const breakingChanges = changes.filter((c) => c.severity === 'breaking');
+    const nonBreakingChanges = changes.filter(
+      (c) => c.severity === 'non-breaking'
+    );
+
+    lines.push(`### ${name ? `${name} (\`${spec}\`)` : `\`${spec}\``}`, '');
+    if (!hasBaseline) {
+      lines.push('No baseline found, nothing to compare.', '');
+      continue;
+    }
+    if (changes.length === 0) {
+      lines.push('No changes.', '');
+      continue;
+    }
+
+    lines.push(
+      `${breakingChanges.length > 0 ? ':warning: ' : ''}**${
+        breakingChanges.length
+      } breaking**, ${nonBreakingChanges.length} non-breaking change(s)`,
+      ''
+    );
+    for (const [title, list] of [
+      ['Breaking changes', breakingChanges],
+      ['Non-breaking changes', nonBreakingChanges],
+    ] as const) {
+      if (list.length === 0) continue;
+      lines.push(`#### ${title}`, '', '| Change | Description | Location |');
+      lines.push('| --- | --- | --- |');
+      for (const change of list) {
+        lines.push(
+          `| \`${change.code}\` | ${escapeMarkdown(change.message)} | \`#${
+            change.pointer
+          }\` |`
+        );
+      }
+      lines.push('');
+    }
+  }
+  return lines.join('\n');
+}
+
+export function hasBreakingChanges(changes: SpecChange[]): boolean {
+  return changes.some((c) => c.severity === 'breaking');
+}
+
+interface OperationPair {
+  item: JsonObject;
+  operation: JsonObject;
+}
+
+function diffOperation(
+  base: OperationPair,
+  current: OperationPair,
+  name: string,
+  pointer: string[],
+  changes: SpecChange[]
+): void {
+  diffParameters(base, current, name, pointer, changes);
+  diffRequestBody(base.operation, current.operation, name, pointer, changes);
+  diffResponses(base.operation, current.operation, name, pointer, changes);
+}
+
+function diffParameters(
+  base: OperationPair,
+  current: OperationPair,
+  name: string,
+  pointer: string[],
+  changes: SpecChange[]
+): void {
+  const baseParams = collectParameters(base);
+  const currentParams = collectParameters(current);
+
+  for (const [key, baseParam] of baseParams) {
+    const currentParam = currentParams.get(key);
+    const paramName = `${baseParam.value['in']} parameter '${baseParam.value['name']}'`;
+    if (!currentParam) {
+      changes.push(
+        breaking('parameter-removed', `${paramName} of ${name} was removed`, [
+          ...pointer,
+          ...baseParam.path,
+        ])
+      );
+      continue;
+    }
+
+    const paramPointer = [...pointer, ...currentParam.path];
+    if (!baseParam.value['required'] && currentParam.value['required']) {
+      changes.push(
+        breaking(
+          'parameter-became-required',
+          `${paramName} of ${name} became required`,
+          paramPointer
+        )
+      );
+    }
+    // Swagger 2.0 declares the type on the parameter itself
+    const baseSchema = baseParam.value['schema'] ?? baseParam.value;
+    const currentSchema = currentParam.value['schema'] ?? currentParam.value;
+    diffSchema(
+      baseSchema,
+      currentSchema,
+      'request',
+      `${paramName} of ${name}`,
+      currentParam.value['schema'] ? [...paramPointer, 'schema'] : paramPointer,
+      changes,
+      0
+    );
+  }
+
+  for (const [key, currentParam] of currentParams) {
+    if (baseParams.has(key)) continue;
+    const paramName = `${currentParam.value['in']} parameter '${currentParam.value['name']}'`;
+    changes.push(
+      currentParam.value['required']
+        ? breaking(
+            'required-parameter-added',
+            `Required ${paramName} was added to ${name}`,
+            [...pointer, ...currentParam.path]
+          )
+        : nonBreaking(
+            'parameter-added',
+            `Optional ${paramName} was added to ${name}`,
+            [...pointer, ...currentParam.path]
+          )
+    );
+  }
+}
+
+/**
+ * Path-level and operation-level parameters, keyed by `in` and `name`.
+ * Paths are relative to the operation pointer.
+ */
+function collectParameters(
+  pair: OperationPair
+): Map<string, { value: JsonObject; path: string[] }> {
+  const params = new Map<string, { value: JsonObject; path: string[] }>();
+  const add = (list: unknown, path: string[]) => {
+    if (!Array.isArray(list)) return;
+    list.forEach((param, index) => {
+      const value = asObject(param);
+      if (value['in'] === 'body') return; // Swagger 2.0 body, see diffRequestBody
+      params.set(`${value['in']}:${value['name']}`, {
+        value,
+        path: [...path, String(index)],
+      });
+    });
+  };
+  add(pair.item['parameters'], ['..', 'parameters']);
+  add(pair.operation['parameters'], ['parameters']);
+  return params;
+}
+
+function diffRequestBody(
+  base: JsonObject,
+  current: JsonObject,
+  name: string,
+  pointer: string[],
+  changes: SpecChange[]
+): void {
+  const baseBody = getRequestBody(base);
+  const currentBody = getRequestBody(current);
+  if (!baseBody && !currentBody) return;
+
+  if (!currentBody) {
+    changes.push(
+      breaking('request-body-removed', `Request body of ${name} was removed`, [
+        ...pointer,
+        ...(baseBody as RequestBody).path,
+      ])
+    );
+    return;
+  }
+  const bodyPointer = [...pointer, ...currentBody.path];
+  if (!baseBody) {
+    changes.push(
+      currentBody.required
+        ? breaking(
+            'required-request-body-added',
+            `Required request body was added to ${name}`,
+            bodyPointer
+          )
+        : nonBreaking(
+            'request-body-added',
+            `Optional request body was added to ${name}`,
+            bodyPointer
+          )
+    );
+    return;
+  }
+
+  if (!baseBody.required && currentBody.required) {
+    changes.push(
+      breaking(
+        'request-body-became-required',
+        `Request body of ${name} became required`,
+        bodyPointer
+      )
+    );
+  }
+  diffContent(
+    baseBody.content,
+    currentBody.content,
+    'request',
+    `request body of ${name}`,
+    bodyPointer,
+    changes
+  );
+}
+
+interface RequestBody {
+  required: boolean;
+  /** Schema per media type */
+  content: Record<string, unknown>;
+  path: string[];
+}
+
+function getRequestBody(operation: JsonObject): RequestBody | undefined {
+  if (operation['requestBody']) {
+    const body = asObject(operation['requestBody']);
+    return {
+      required: !!body['required'],
+      content: getContentSchemas(body),
+      path: ['requestBody'],
+    };
+  }
+  // Swagger 2.0
+  const params = Array.isArray(operation['parameters'])
+    ? operation['parameters']
+    : [];
+  const index = params.findIndex((p) => asObject(p)['in'] === 'body');
+  if (index === -1) return undefined;
+  const param = asObject(params[index]);
+  return {
+    required: !!param['required'],
+    content: { '*': param['schema'] },
+    path: ['parameters', String(index)],
+  };
+}
+
+function diffResponses(
+  base: JsonObject,
+  current: JsonObject,
+  name: string,
+  pointer: string[],
+  changes: SpecChange[]
+): void {
+  const baseResponses = asObject(base['responses']);
+  const currentResponses = asObject(current['responses']);
+
+  for (const [status, baseResponse] of Object.entries(baseResponses)) {
+    const responsePointer = [...pointer, 'responses', status];
+    if (!(status in currentResponses)) {
+      changes.push(
+        breaking(
+          'response-removed',
+          `Response ${status} of ${name} was removed`,
+          responsePointer
+        )
+      );
+      continue;
+    }
+    diffContent(
+      getContentSchemas(asObject(baseResponse)),
+      getContentSchemas(asObject(currentResponses[status])),
+      'response',
+      `response ${status} of ${name}`,
+      responsePointer,
+      changes
+    );
+  }
+
+  for (const status of Object.keys(currentResponses)) {
+    if (!(status in baseResponses)) {
+      changes.push(
+        nonBreaking(
+          'response-added',
+          `Response ${status} was added to ${name}`,
+          [...pointer, 'responses', status]
+        )
+      );
+    }
+  }
+}
+
+/**
+ * Schemas per media type of a request body or response. Swagger 2.0
+ * responses have a single schema, stored as '*'.
+ */
+function getContentSchemas(value: JsonObject): Record<string, unknown> {
+  if (value['content']) {
+    return Object.fromEntries(
+      Object.entries(asObject(value['content'])).map(([type, media]) => [
+        type,
+        asObject(media)['schema'],
+      ])
+    );
+  }
+  return value['schema'] ? { '*': value['schema'] } : {};
+}
+
+function diffContent(
+  base: Record<string, unknown>,
+  current: Record<string, unknown>,
+  context: SchemaContext,
+  name: string,
+  pointer: string[],
+  changes: SpecChange[]
+): void {
+  for (const [type, baseSchema] of Object.entries(base)) {
+    const contentPointer =
+      type === '*'
+        ? [...pointer, 'schema']
+        : [...pointer, 'content', type, 'schema'];
+    if (!(type in current)) {
+      changes.push(
+        breaking(
+          'media-type-removed',
+          `Media type '${type}' of ${name} was removed`,
+          contentPointer.slice(0, -1)
+        )
+      );
+      continue;
+    }
+    diffSchema(
+      baseSchema,
+      current[type],
+      context,
+      name,
+      contentPointer,
+      changes,
+      0
+    );
+  }
+  for (const type of Object.keys(current)) {
+    if (!(type in base)) {
+      changes.push(
+        nonBreaking(
+          'media-type-added',
+          `Media type '${type}' was added to ${name}`,
+          [...pointer, 'content', type]
+        )
+      );
+    }
+  }
+}
+
+function diffSchema(
+  baseValue: unknown,
+  currentValue: unknown,
+  context: SchemaContext,
+  name: string,
+  pointer: string[],
+  changes: SpecChange[],
+  depth: number
+): void {
+  const base = asObject(baseValue);
+  const current = asObject(currentValue);
+  if (depth > MAX_SCHEMA_DEPTH || base === current) return;
+
+  // Circular refs are kept as refs when dereferencing
+  if (typeof base['$ref'] === 'string' || typeof current['$ref'] === 'string') {
+    if (base['$ref'] !== current['$ref']) {
+      changes.push(
+        nonBreaking('schema-changed', `Schema of ${name} changed`, pointer)
+      );
+    }
+    return;
+  }
+
+  const baseType = getType(base);
+  const currentType = getType(current);
+  if (baseType !== currentType && baseType && currentType) {
+    changes.push(
+      breaking(
+        'type-changed',
+        `Type of ${name} changed from '${baseType}' to '${currentType}'`,
+        pointer
+      )
+    );
+    return;
+  }
+  if (
+    base['format'] !== current['format'] &&
+    base['format'] &&
+    current['format']
+  ) {
+    changes.push(
+      breaking(
+        'format-changed',
+        `Format of ${name} changed from '${base['format']}' to '${current['format']}'`,
+        pointer
+      )
+    );
+  }
+
+  diffEnum(base, current, name, pointer, changes);
+  diffProperties(base, current, context, name, pointer, changes, depth);
+
+  if (base['items'] && current['items']) {
+    diffSchema(
+      base['items'],
+      current['items'],
+      context,
+      `items of ${name}`,
+      [...pointer, 'items'],
+      changes,
+      depth + 1
+    );
+  }
+}
+
+function diffEnum(
+  base: JsonObject,
+  current: JsonObject,
+  name: string,
+  pointer: string[],
+  changes: SpecChange[]
+): void {
+  const baseEnum = Array.isArray(base['enum']) ? base['enum'] : undefined;
+  const currentEnum = Array.isArray(current['enum'])
+    ? current['enum']
+    : undefined;
+  if (!currentEnum) return;
+
+  if (!baseEnum) {
+    changes.push(
+      breaking(
+        'enum-narrowed',
+        `${capitalize(name)} is now restricted to an enum`,
+        [...pointer, 'enum']
+      )
+    );
+    return;
+  }
+  const key = (v: unknown) => JSON.stringify(v);
+  const currentKeys = new Set(currentEnum.map(key));
+  const baseKeys = new Set(baseEnum.map(key));
+  const removed = baseEnum.filter((v) => !currentKeys.has(key(v)));
+  const added = currentEnum.filter((v) => !baseKeys.has(key(v)));
+  if (removed.length > 0) {
+    changes.push(
+      breaking(
+        'enum-narrowed',
+        `Enum values ${removed.map(key).join(', ')} were removed from ${name}`,
+        [...pointer, 'enum']
+      )
+    );
+  }
+  if (added.length > 0) {
+    changes.push(
+      nonBreaking(
+        'enum-extended',
+        `Enum values ${added.map(key).join(', ')} were added to ${name}`,
+        [...pointer, 'enum']
+      )
+    );
+  }
+}
+
+function diffProperties(
+  base: JsonObject,
+  current: JsonObject,
+  context: SchemaContext,
+  name: string,
+  pointer: string[],
+  changes: SpecChange[],
+  depth: number
+): void {
+  const baseProps = asObject(base['properties']);
+  const currentProps = asObject(current['properties']);
+  const baseRequired = new Set(asArray(base['required']));
+  const currentRequired = new Set(asArray(current['required']));
+
+  for (const [prop, baseProp] of Object.entries(baseProps)) {
+    const propPointer = [...pointer, 'properties', prop];
+    if (!(prop in currentProps)) {
+      changes.push(
+        breaking(
+          'property-removed',
+          `Property '${prop}' was removed from ${name}`,
+          propPointer
+        )
+      );
+      continue;
+    }
+    if (
+      context === 'request' &&
+      !baseRequired.has(prop) &&
+      currentRequired.has(prop)
+    ) {
+      changes.push(
+        breaking(
+          'property-became-required',
+          `Property '${prop}' of ${name} became required`,
+          propPointer
+        )
+      );
+    }
+    diffSchema(
+      baseProp,
+      currentProps[prop],
+      context,
+      `property '${prop}' of ${name}`,
+      propPointer,
+      changes,
+      depth + 1
+    );
+  }
+
+  for (const prop of Object.keys(currentProps)) {
+    if (prop in baseProps) continue;
+    const propPointer = [...pointer, 'properties', prop];
+    changes.push(
+      context === 'request' && currentRequired.has(prop)
+        ? breaking(
+            'required-property-added',
+            `Required property '${prop}' was added to ${name}`,
+            propPointer
+          )
+        : nonBreaking(
+            'property-added',
+            `Property '${prop}' was added to ${name}`,
+            propPointer
+          )
+    );
+  }
+}
+
+function getType(schema: JsonObject): string | undefined {
+  const type = schema['type'];
+  if (Array.isArray(type)) {
+    return (
+      type
+        .filter((t) => t !== 'null')
+        .sort()
+        .join('|') || undefined
+    );
+  }
+  return typeof type === 'string' ? type : undefined;
+}
+
+function label(method: string, path: string): string {
+  return `${method.toUpperCase()} ${path}`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function breaking(
+  code: string,
+  message: string,
+  pointer: string[]
+): SpecChange {
+  return { severity: 'breaking', code, message, pointer: toPointer(pointer) };
+}
+
+function nonBreaking(
+  code: string,
+  message: string,
+  pointer: string[]
+): SpecChange {
+  return {
+    severity: 'non-breaking',
+    code,
+    message,
+    pointer: toPointer(pointer),
+  };
+}
+
+/**
+ * Compiles a pointer, resolving '..' (used for path-level parameters).
+ */
+function toPointer(tokens: string[]): string {
+  const resolved: string[] = [];
+  for (const token of tokens) {
+    if (token === '..') resolved.pop();
+    else resolved.push(token);
+  }
+  return compileJsonPointer(resolved);
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function asObject(value: unknown): JsonObject {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as JsonObject)
+    : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
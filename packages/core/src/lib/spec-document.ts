@@ -0,0 +1,88 @@
+import { dirname, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { ValidationError } from './errors';
+import { isRemoteSpec } from './input-spec';
+import { readSpecSource, SpecSourceOptions } from './spec-source';
+
+/**
+ * Parses the content of a JSON or YAML OpenAPI document.
+ */
+export function parseSpecDocument(content: string, location: string): unknown {
+  try {
+    const trimmed = content.trimStart();
+    if (/\.json$/i.test(location) || trimmed.startsWith('{')) {
+      return JSON.parse(content);
+    }
+    return parseYaml(content);
+  } catch (e) {
+    throw new ValidationError(
+      `Could not parse ${location}: ${e instanceof Error ? e.message : e}`,
+      'inputSpec',
+      location
+    );
+  }
+}
+
+/**
+ * Reads and parses a (local or remote) OpenAPI document.
+ */
+export async function loadSpecDocument(
+  location: string,
+  opts: SpecSourceOptions
+): Promise<{ content: string; document: unknown }> {
+  const content = await readSpecSource(location, opts);
+  return { content, document: parseSpecDocument(content, location) };
+}
+
+/**
+ * Splits a `$ref` value into the referenced document location and the JSON
+ * pointer within it. An empty location means the ref is internal.
+ */
+export function splitRef(ref: string): { location: string; pointer: string } {
+  const hashIndex = ref.indexOf('#');
+  return hashIndex === -1
+    ? { location: ref, pointer: '' }
+    : { location: ref.slice(0, hashIndex), pointer: ref.slice(hashIndex + 1) };
+}
+
+/**
+ * Resolves the document part of a `$ref` against the document containing it.
+ */
+export function resolveRefLocation(ref: string, baseLocation: string): string {
+  if (isRemoteSpec(ref)) {
+    return ref;
+  }
+  if (isRemoteSpec(baseLocation)) {
+    return new URL(ref, baseLocation).href;
+  }
+  return resolve(dirname(baseLocation), decodeURIComponent(ref));
+}
+
+/**
+ * Calls the visitor for every `$ref` string found in the document.
+ * The path contains the keys leading to the object holding the `$ref`.
+ */
+export function visitRefs(
+  node: unknown,
+  visitor: (ref: string, path: string[]) => void,
+  path: string[] = []
+): void {
+  if (Array.isArray(node)) {
+    node.forEach((item, index) =>
+      visitRefs(item, visitor, [...path, String(index)])
+    );
+    return;
+  }
+  if (node === null || typeof node !== 'object') {
+    return;
+  }
+  const ref = (node as Record<string, unknown>)['$ref'];
+  if (typeof ref === 'string') {
+    visitor(ref, path);
+  }
+  for (const [key, value] of Object.entries(node)) {
+    if (key !== '$ref') {
+      visitRefs(value, visitor, [...path, key]);
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { downloadSpec, getDownloadPath } from './spec-download';
+
+describe('downloadSpec', () => {
+  const originalFetch = global.fetch;
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'core-spec-download-'));
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should download a remote spec and its remote refs', async () => {
+    const documents: Record<string, string> = {
+      'https://example.com/specs/api.yaml':
+        "openapi: 3.0.0\na:\n  $ref: 'common/error.yaml'",
+      'https://example.com/specs/common/error.yaml': 'type: object',
+    };
+    global.fetch = jest.fn(async (url: string) => ({
+      ok: true,
+      text: async () => documents[url],
+    })) as unknown as typeof fetch;
+
+    const path = await downloadSpec('https://example.com/specs/api.yaml', dir, {
+      root: '/ws',
+    });
+
+    expect(path).toBe(join(dir, 'example.com', 'specs', 'api.yaml'));
+    expect(readFileSync(path, 'utf-8')).toContain('common/error.yaml');
+    expect(
+      readFileSync(
+        join(dir, 'example.com', 'specs', 'common', 'error.yaml'),
+        'utf-8'
+      )
+    ).toBe('type: object');
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('getDownloadPath', () => {
+  it('should map URLs to paths below the output directory', () => {
+    expect(getDownloadPath('http://localhost:8080/v3/api-docs', '/tmp')).toBe(
+      join('/tmp', 'localhost_8080', 'v3', 'api-docs')
+    );
+    expect(getDownloadPath('https://example.com/', '/tmp')).toBe(
+      join('/tmp', 'example.com', 'index')
+    );
+  });
+
+  it('should keep URLs that only differ in the query apart', () => {
+    const a = getDownloadPath(
+      'https://example.com/spec.json?service=a',
+      '/tmp'
+    );
+    const b = getDownloadPath(
+      'https://example.com/spec.json?service=b',
+      '/tmp'
+    );
+
+    expect(a).not.toBe(b);
+    expect(a).toMatch(/spec\.[0-9a-f]{8}\.json$/);
+    expect(getDownloadPath('https://example.com/spec?v=1', '/tmp')).toMatch(
+      /spec\.[0-9a-f]{8}$/
+    );
+  });
+});
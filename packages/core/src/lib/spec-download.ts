@@ -0,0 +1,51 @@
+import { createHash } from 'node:crypto';
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, extname, join } from 'node:path';
+import { logger } from '@nx/devkit';
+import { isRemoteSpec } from './input-spec';
+import { resolveSpecDependencies } from './spec-dependencies';
+import { SpecSourceOptions } from './spec-source';
+
+/**
+ * Downloads a remote spec and every remote document reachable from it into
+ * `outputDir`, so generators read local files instead of fetching the spec
+ * again without credentials. Documents keep their host and path layout, so
+ * relative `$ref`s between them still resolve. Returns the path of the
+ * downloaded root spec.
+ */
+export async function downloadSpec(
+  spec: string,
+  outputDir: string,
+  opts: SpecSourceOptions
+): Promise<string> {
+  const { root, contents } = await resolveSpecDependencies(spec, opts);
+  for (const [location, content] of contents) {
+    if (!isRemoteSpec(location)) continue;
+    const file = getDownloadPath(location, outputDir);
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, content);
+    logger.debug(`Downloaded ${location} to ${file}`);
+  }
+  return getDownloadPath(root, outputDir);
+}
+
+/**
+ * Returns the local path of a downloaded URL: `<outputDir>/<host>/<path>`.
+ * URLs with a query string get a hash of the URL in the file name, so
+ * `spec?service=a` and `spec?service=b` don't overwrite each other. Other
+ * file names are kept, so relative `$ref`s between the documents resolve.
+ */
+export function getDownloadPath(url: string, outputDir: string): string {
+  const { host, pathname, search } = new URL(url);
+  const segments = pathname.split('/').filter(Boolean);
+  if (segments.length === 0 || pathname.endsWith('/')) {
+    segments.push('index');
+  }
+  if (search) {
+    const hash = createHash('sha256').update(url).digest('hex').slice(0, 8);
+    const name = segments.pop() as string;
+    const ext = extname(name);
+    segments.push(`${name.slice(0, name.length - ext.length)}.${hash}${ext}`);
+  }
+  return join(outputDir, host.replace(':', '_'), ...segments);
+}
@@ -0,0 +1,117 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { logger } from '@nx/devkit';
+import { ConfigurationError, ExecutionError, ValidationError } from './errors';
+import { exportSpec, serializeSpecDocument } from './spec-export';
+
+describe('exportSpec', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'core-spec-export-'));
+    jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should load the document returned by the entry module', async () => {
+    writeFileSync(
+      join(root, 'export.js'),
+      `console.log('booting');
+       module.exports.createDocument = async () => ({ openapi: '3.0.3' });
+       setInterval(() => undefined, 1000);`
+    );
+
+    await expect(
+      exportSpec({ entry: 'export.js', exportName: 'createDocument' }, { root })
+    ).resolves.toEqual({ openapi: '3.0.3' });
+  });
+
+  it('should load modules listed in require first', async () => {
+    writeFileSync(join(root, 'setup.js'), 'globalThis.version = "3.1.0";');
+    writeFileSync(
+      join(root, 'export.js'),
+      'module.exports = { openapi: globalThis.version };'
+    );
+
+    await expect(
+      exportSpec({ entry: 'export.js', require: ['./setup.js'] }, { root })
+    ).resolves.toEqual({ openapi: '3.1.0' });
+  });
+
+  it('should read the document from the stdout of a command', async () => {
+    await expect(
+      exportSpec(
+        { command: `node -e "console.log('{\\"swagger\\":\\"2.0\\"}')"` },
+        { root }
+      )
+    ).resolves.toEqual({ swagger: '2.0' });
+  });
+
+  it('should fail for failing entry modules', async () => {
+    writeFileSync(join(root, 'export.js'), 'throw new Error("no database");');
+
+    await expect(exportSpec({ entry: 'export.js' }, { root })).rejects.toThrow(
+      ExecutionError
+    );
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining('no database')
+    );
+  });
+
+  it('should fail if no OpenAPI document is exported', async () => {
+    writeFileSync(join(root, 'export.js'), 'module.exports.other = {};');
+
+    await expect(exportSpec({ entry: 'export.js' }, { root })).rejects.toThrow(
+      ValidationError
+    );
+  });
+
+  it('should require exactly one of entry and command', async () => {
+    await expect(exportSpec({}, { root })).rejects.toThrow(ConfigurationError);
+    await expect(
+      exportSpec({ entry: 'export.js', command: 'cat api.json' }, { root })
+    ).rejects.toThrow(ConfigurationError);
+  });
+});
+
+describe('serializeSpecDocument', () => {
+  const document = {
+    paths: { '/b': {}, '/a': {} },
+    openapi: '3.0.3',
+    tags: [{ name: 'b' }, { name: 'a' }],
+  };
+
+  it('should write JSON with sorted keys', () => {
+    expect(serializeSpecDocument(document, 'api.json')).toBe(
+      JSON.stringify(
+        {
+          openapi: '3.0.3',
+          paths: { '/a': {}, '/b': {} },
+          tags: [{ name: 'b' }, { name: 'a' }],
+        },
+        null,
+        2
+      ) + '\n'
+    );
+  });
+
+  it('should write YAML for YAML files', () => {
+    expect(serializeSpecDocument(document, 'api.yaml')).toBe(
+      [
+        'openapi: 3.0.3',
+        'paths:',
+        '  /a: {}',
+        '  /b: {}',
+        'tags:',
+        '  - name: b',
+        '  - name: a',
+        '',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,230 @@
+import { spawn } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { logger } from '@nx/devkit';
+import { stringify as stringifyYaml } from 'yaml';
+import { getAbortError, throwIfAborted } from './abort';
+import { ConfigurationError, ExecutionError, ValidationError } from './errors';
+
+export interface SpecExportOptions {
+  /**
+   * Module exporting the document, or a (async) function returning it, e.g.
+   * one calling NestJS `SwaggerModule.createDocument`
+   */
+  entry?: string;
+  /** Name of the export of `entry`. Defaults to the default export. */
+  exportName?: string;
+  /** Modules loaded before `entry`, e.g. `ts-node/register` */
+  require?: string[];
+  /** Shell command printing the document to stdout, instead of `entry` */
+  command?: string;
+}
+
+export interface SpecExportContext {
+  root: string;
+  signal?: AbortSignal;
+  verbose?: boolean;
+}
+
+const OUTPUT_TAIL_LINES = 20;
+
+// Runs in the child process. The document is passed through a file, as
+// stdout is usually used for logging by the application.
+const EXPORT_SCRIPT = `
+const { writeFileSync } = require('node:fs');
+const { pathToFileURL } = require('node:url');
+async function load(entry) {
+  try {
+    return require(entry);
+  } catch (e) {
+    if (e.code !== 'ERR_REQUIRE_ESM') throw e;
+    return import(pathToFileURL(entry).href);
+  }
+}
+(async () => {
+  const { OPENAPI_EXPORT_ENTRY: entry, OPENAPI_EXPORT_NAME: name } = process.env;
+  const mod = await load(entry);
+  let value = mod[name] ?? (name === 'default' ? mod : undefined);
+  if (typeof value === 'function') value = await value();
+  writeFileSync(process.env.OPENAPI_EXPORT_FILE, JSON.stringify(value ?? null));
+  process.exit(0);
+})().catch((e) => {
+  console.error(e && e.stack ? e.stack : e);
+  process.exit(1);
+});
+`;
+
+/**
+ * Exports the OpenAPI document of a backend, by loading its entry module in
+ * a child process or by running an export command.
+ */
+export async function exportSpec(
+  options: SpecExportOptions,
+  ctx: SpecExportContext
+): Promise<Record<string, unknown>> {
+  if (!options.entry === !options.command) {
+    throw new ConfigurationError(
+      'Exactly one of entry and command must be set'
+    );
+  }
+  throwIfAborted(ctx.signal);
+
+  let content: string;
+  if (options.command) {
+    content = await run(options.command, [], {
+      ...ctx,
+      label: options.command,
+      shell: true,
+    });
+  } else {
+    const dir = mkdtempSync(join(tmpdir(), 'nx-plugin-openapi-export-'));
+    try {
+      const file = join(dir, 'openapi.json');
+      const args = [
+        ...(options.require ?? []).flatMap((module) => ['-r', module]),
+        '-e',
+        EXPORT_SCRIPT,
+      ];
+      await run(process.execPath, args, {
+        ...ctx,
+        label: `node ${options.entry}`,
+        env: {
+          OPENAPI_EXPORT_ENTRY: resolve(ctx.root, options.entry as string),
+          OPENAPI_EXPORT_NAME: options.exportName ?? 'default',
+          OPENAPI_EXPORT_FILE: file,
+        },
+      });
+      content = readFileSync(file, 'utf-8');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }
+
+  const source = options.command ?? (options.entry as string);
+  let document: unknown;
+  try {
+    document = JSON.parse(content);
+  } catch (e) {
+    throw new ValidationError(
+      `Exported document of ${source} is not valid JSON: ${
+        e instanceof Error ? e.message : e
+      }`,
+      options.command ? 'command' : 'entry',
+      source
+    );
+  }
+  if (
+    !document ||
+    typeof document !== 'object' ||
+    Array.isArray(document) ||
+    !('openapi' in document || 'swagger' in document)
+  ) {
+    throw new ValidationError(
+      `${source} did not export an OpenAPI document`,
+      options.command ? 'command' : 'entry',
+      source
+    );
+  }
+  return document as Record<string, unknown>;
+}
+
+/**
+ * Serializes a document as JSON or YAML, depending on the file extension,
+ * with the keys of all objects sorted so that the output only changes when
+ * the API does.
+ */
+export function serializeSpecDocument(document: unknown, file: string): string {
+  const sorted = sortKeys(document);
+  if (/\.ya?ml$/i.test(file)) {
+    return stringifyYaml(sorted, { aliasDuplicateObjects: false });
+  }
+  return JSON.stringify(sorted, null, 2) + '\n';
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+function run(
+  command: string,
+  args: string[],
+  ctx: SpecExportContext & {
+    label: string;
+    shell?: boolean;
+    env?: Record<string, string>;
+  }
+): Promise<string> {
+  const { signal, label } = ctx;
+
+  return new Promise<string>((resolvePromise, reject) => {
+    logger.debug(`Executing: ${label}`);
+    const child = spawn(command, args, {
+      cwd: ctx.root,
+      env: { ...process.env, ...ctx.env },
+      shell: ctx.shell,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const onAbort = () => child.kill('SIGTERM');
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const stdout: Buffer[] = [];
+    const output: string[] = [];
+    child.stdout.on('data', (chunk: Buffer) => {
+      stdout.push(chunk);
+      // Without a command, stdout is only log output of the application
+      if (!ctx.shell) output.push(chunk.toString());
+    });
+    child.stderr.on('data', (chunk: Buffer) => output.push(chunk.toString()));
+
+    child.on('close', (code) => {
+      signal?.removeEventListener('abort', onAbort);
+      if (signal?.aborted) {
+        reject(getAbortError(signal));
+        return;
+      }
+      const log = output.join('').trimEnd();
+      if (ctx.verbose && log) {
+        logger.info(log);
+      }
+      if (code !== 0) {
+        // Show the end of the output, which usually holds the error
+        if (!ctx.verbose && log) {
+          logger.error(log.split('\n').slice(-OUTPUT_TAIL_LINES).join('\n'));
+        }
+        reject(
+          new ExecutionError(
+            'Export process failed',
+            label,
+            code ?? undefined
+          )
+        );
+        return;
+      }
+      resolvePromise(Buffer.concat(stdout).toString('utf-8'));
+    });
+
+    child.on('error', (error) => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(
+        new ExecutionError(
+          `Failed to spawn process: ${error.message}`,
+          label,
+          undefined,
+          error
+        )
+      );
+    });
+  });
+}
@@ -0,0 +1,363 @@
+import { readFileSync } from 'node:fs';
+import * as http from 'node:http';
+import * as https from 'node:https';
+import { Socket } from 'node:net';
+import { resolve } from 'node:path';
+import { connect, rootCertificates } from 'node:tls';
+import { logger } from '@nx/devkit';
+import { ConfigurationError, FileSystemError } from './errors';
+
+export interface SpecFetchOptions {
+  /**
+   * Request headers. Values can reference environment variables as
+   * `${NAME}`, credential headers must not contain literal values.
+   */
+  headers?: Record<string, string>;
+  /**
+   * Names of the environment variables holding basic auth credentials
+   */
+  basicAuth?: { usernameEnv: string; passwordEnv: string };
+  /**
+   * PEM file with additional CA certificates, relative to the workspace root
+   */
+  caFile?: string;
+  /**
+   * HTTP(S) proxy URL, can reference environment variables as `${NAME}`
+   */
+  proxy?: string;
+}
+
+export interface RemoteSpecOptions {
+  /** Workspace root used to resolve `caFile` */
+  root: string;
+  fetch?: SpecFetchOptions;
+  signal?: AbortSignal;
+}
+
+interface SpecResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  etag?: string;
+  body: string;
+}
+
+interface NodeRequestOptions {
+  headers: Record<string, string>;
+  ca?: string[];
+  proxy?: URL;
+  signal?: AbortSignal;
+}
+
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+// Headers that carry credentials and must not be written into project.json
+const CREDENTIAL_HEADER =
+  /authorization|cookie|token|secret|password|api-?key/i;
+const MAX_REDIRECTS = 5;
+
+/**
+ * Replaces the `${NAME}` references of a value with the values of the
+ * environment variables.
+ */
+export function interpolateEnv(
+  value: string,
+  field: string,
+  env: NodeJS.ProcessEnv = process.env
+): string {
+  return value.replace(ENV_REFERENCE, (_, name: string) => {
+    const resolved = env[name];
+    if (resolved === undefined) {
+      throw new ConfigurationError(
+        `Environment variable ${name} referenced by ${field} is not set`
+      );
+    }
+    return resolved;
+  });
+}
+
+/**
+ * Builds the request headers of remote spec downloads, reading all
+ * credentials from environment variables.
+ */
+export function resolveFetchHeaders(
+  options: SpecFetchOptions,
+  env: NodeJS.ProcessEnv = process.env
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(options.headers ?? {})) {
+    if (CREDENTIAL_HEADER.test(name) && !value.match(ENV_REFERENCE)) {
+      throw new ConfigurationError(
+        `Header ${name} must reference an environment variable like \${API_TOKEN} instead of a literal value`
+      );
+    }
+    headers[name] = interpolateEnv(value, `header ${name}`, env);
+  }
+
+  if (options.basicAuth) {
+    const { usernameEnv, passwordEnv } = options.basicAuth;
+    const username = readEnv(usernameEnv, 'basicAuth.usernameEnv', env);
+    const password = readEnv(passwordEnv, 'basicAuth.passwordEnv', env);
+    headers['Authorization'] = `Basic ${Buffer.from(
+      `${username}:${password}`
+    ).toString('base64')}`;
+  }
+  return headers;
+}
+
+export interface RemoteSpecResponse {
+  /** Undefined if the spec did not change since the `ifNoneMatch` ETag */
+  content?: string;
+  etag?: string;
+}
+
+/**
+ * Downloads a remote spec.
+ */
+export async function fetchRemoteSpec(
+  url: string,
+  opts: RemoteSpecOptions
+): Promise<string> {
+  const { content } = await requestRemoteSpec(url, opts);
+  return content as string;
+}
+
+/**
+ * Downloads a remote spec along with its ETag. With `ifNoneMatch`, the
+ * content is only returned if the spec changed. Requests use the global
+ * `fetch`, unless a CA bundle or proxy is configured, which are only
+ * supported by Node's http modules. Headers, including credentials, are not
+ * sent along redirects to other origins.
+ */
+export async function requestRemoteSpec(
+  url: string,
+  opts: RemoteSpecOptions & { ifNoneMatch?: string }
+): Promise<RemoteSpecResponse> {
+  const options = opts.fetch ?? {};
+  const headers = resolveFetchHeaders(options);
+  if (opts.ifNoneMatch) {
+    headers['If-None-Match'] = opts.ifNoneMatch;
+  }
+
+  logger.debug(`Fetching remote OpenAPI spec: ${url}`);
+  let response: SpecResponse;
+  if (options.caFile || options.proxy) {
+    response = await nodeFetch(new URL(url), {
+      headers,
+      ca: options.caFile ? readCaBundle(options.caFile, opts.root) : undefined,
+      proxy: options.proxy
+        ? new URL(interpolateEnv(options.proxy, 'proxy'))
+        : undefined,
+      signal: opts.signal,
+    });
+  } else {
+    response = await globalFetch(url, headers, opts.signal);
+  }
+
+  if (response.status === 304 && opts.ifNoneMatch) {
+    return { etag: response.etag ?? opts.ifNoneMatch };
+  }
+  if (!response.ok) {
+    throw new FileSystemError(
+      `Failed to fetch remote OpenAPI spec: ${response.status} ${response.statusText}`,
+      url,
+      'read'
+    );
+  }
+  return { content: response.body, etag: response.etag };
+}
+
+function readEnv(name: string, field: string, env: NodeJS.ProcessEnv): string {
+  const value = env[name];
+  if (value === undefined) {
+    throw new ConfigurationError(
+      `Environment variable ${name} referenced by ${field} is not set`
+    );
+  }
+  return value;
+}
+
+function readCaBundle(caFile: string, root: string): string[] {
+  const path = resolve(root, interpolateEnv(caFile, 'caFile'));
+  try {
+    return [...rootCertificates, readFileSync(path, 'utf-8')];
+  } catch (e) {
+    throw new FileSystemError(
+      e instanceof Error ? e.message : String(e),
+      path,
+      'read',
+      e
+    );
+  }
+}
+
+async function globalFetch(
+  url: string,
+  headers: Record<string, string>,
+  signal: AbortSignal | undefined,
+  redirects = 0
+): Promise<SpecResponse> {
+  // Redirects are followed here, to only send the headers to the same origin
+  const fetched = await fetch(url, { headers, signal, redirect: 'manual' });
+  const location = fetched.headers?.get('location');
+
+  if (fetched.status >= 300 && fetched.status < 400 && location) {
+    await fetched.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new FileSystemError('Too many redirects', url, 'read');
+    }
+    const next = new URL(location, url);
+    return globalFetch(
+      next.href,
+      next.origin === new URL(url).origin ? headers : {},
+      signal,
+      redirects + 1
+    );
+  }
+
+  return {
+    ok: fetched.ok,
+    status: fetched.status,
+    statusText: fetched.statusText,
+    etag: fetched.headers?.get('etag') ?? undefined,
+    body: fetched.ok ? await fetched.text() : '',
+  };
+}
+
+async function nodeFetch(
+  url: URL,
+  options: NodeRequestOptions,
+  redirects = 0
+): Promise<SpecResponse> {
+  const response = await sendRequest(url, options);
+  const { location } = response.headers;
+  const status = response.statusCode ?? 0;
+
+  if (status >= 300 && status < 400 && location) {
+    response.resume();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new FileSystemError('Too many redirects', url.href, 'read');
+    }
+    const next = new URL(location, url);
+    return nodeFetch(
+      next,
+      {
+        ...options,
+        headers: next.origin === url.origin ? options.headers : {},
+      },
+      redirects + 1
+    );
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of response) {
+    chunks.push(chunk as Buffer);
+  }
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: response.statusMessage ?? '',
+    etag: response.headers.etag,
+    body: Buffer.concat(chunks).toString('utf-8'),
+  };
+}
+
+async function sendRequest(
+  url: URL,
+  options: NodeRequestOptions
+): Promise<http.IncomingMessage> {
+  const { headers, ca, proxy, signal } = options;
+
+  let request: http.ClientRequest;
+  if (proxy && url.protocol === 'http:') {
+    // Plain HTTP requests are sent to the proxy with the absolute URL
+    request = requestModule(proxy).request(proxyEndpoint(proxy), {
+      path: url.href,
+      headers: { ...headers, host: url.host, ...proxyAuthorization(proxy) },
+      ca,
+      signal,
+    });
+  } else if (proxy) {
+    const socket = await openTunnel(proxy, url, ca, signal);
+    request = https.request(url, {
+      headers,
+      ca,
+      signal,
+      createConnection: () => connect({ socket, servername: url.hostname, ca }),
+    });
+  } else {
+    request = requestModule(url).request(url, { headers, ca, signal });
+  }
+
+  return new Promise((resolve, reject) => {
+    request.once('response', resolve);
+    request.once('error', reject);
+    request.end();
+  });
+}
+
+/**
+ * Opens a CONNECT tunnel through the proxy to the host of `target`.
+ */
+function openTunnel(
+  proxy: URL,
+  target: URL,
+  ca: string[] | undefined,
+  signal: AbortSignal | undefined
+): Promise<Socket> {
+  const authority = `${target.hostname}:${target.port || 443}`;
+  const request = requestModule(proxy).request(proxyEndpoint(proxy), {
+    method: 'CONNECT',
+    path: authority,
+    headers: { host: authority, ...proxyAuthorization(proxy) },
+    ca,
+    signal,
+  });
+
+  return new Promise((resolve, reject) => {
+    request.once('connect', (response, socket) => {
+      if (response.statusCode === 200) {
+        resolve(socket);
+        return;
+      }
+      socket.destroy();
+      reject(
+        new FileSystemError(
+          `Proxy ${proxy.host} refused the connection: ${response.statusCode} ${response.statusMessage}`,
+          target.href,
+          'read'
+        )
+      );
+    });
+    request.once('error', reject);
+    request.end();
+  });
+}
+
+function proxyAuthorization(proxy: URL): Record<string, string> {
+  if (!proxy.username) {
+    return {};
+  }
+  const credentials = `${decodeURIComponent(
+    proxy.username
+  )}:${decodeURIComponent(proxy.password)}`;
+  return {
+    'proxy-authorization': `Basic ${Buffer.from(credentials).toString(
+      'base64'
+    )}`,
+  };
+}
+
+/**
+ * The proxy URL without credentials, which Node would otherwise send as
+ * Authorization header.
+ */
+function proxyEndpoint(proxy: URL): URL {
+  const endpoint = new URL(proxy.href);
+  endpoint.username = '';
+  endpoint.password = '';
+  return endpoint;
+}
+
+function requestModule(url: URL): typeof http | typeof https {
+  return url.protocol === 'https:' ? https : http;
+}
@@ -0,0 +1,162 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ConfigurationError } from './errors';
+import {
+  hashSpecContent,
+  readLockedSpec,
+  readSpecLock,
+  refreshLockedSpec,
+  SPEC_CACHE_DIR,
+  SPEC_LOCK_FILE,
+  SpecLock,
+  writeCachedSpec,
+  writeSpecLock,
+} from './spec-lock';
+
+const SPEC_URL = 'https://example.com/api.yaml';
+
+describe('spec lock', () => {
+  const originalFetch = global.fetch;
+  let root: string;
+
+  function mockFetch(
+    response: Partial<{ ok: boolean; status: number; etag: string }> & {
+      body?: string;
+    }
+  ) {
+    global.fetch = jest.fn(async () => ({
+      ok: response.ok ?? true,
+      status: response.status ?? 200,
+      statusText: '',
+      headers: new Map([['etag', response.etag]]),
+      text: async () => response.body ?? '',
+    })) as unknown as typeof fetch;
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'core-spec-lock-'));
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should write entries sorted by SPEC_URL', () => {
+    writeSpecLock(root, {
+      version: 1,
+      specs: {
+        'https://b.com/a.yaml': { sha256: 'b' },
+        [SPEC_URL]: { sha256: 'a' },
+      },
+    });
+
+    expect(Object.keys(readSpecLock(root).specs)).toEqual([
+      'https://b.com/a.yaml',
+      SPEC_URL,
+    ]);
+  });
+
+  it('should reject unsupported lockfiles', () => {
+    writeFileSync(join(root, SPEC_LOCK_FILE), '{ "version": 2 }');
+
+    expect(() => readSpecLock(root)).toThrow(ConfigurationError);
+  });
+
+  describe('readLockedSpec', () => {
+    it('should fetch specs that are not locked', async () => {
+      mockFetch({ body: 'live' });
+
+      await expect(readLockedSpec(SPEC_URL, { root })).resolves.toBe('live');
+    });
+
+    it('should read locked specs from the cache without fetching', async () => {
+      const sha256 = writeCachedSpec(root, 'locked');
+      writeSpecLock(root, { version: 1, specs: { [SPEC_URL]: { sha256 } } });
+      mockFetch({ body: 'live' });
+
+      await expect(readLockedSpec(SPEC_URL, { root })).resolves.toBe('locked');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should fetch and cache locked specs missing from the cache', async () => {
+      writeSpecLock(root, {
+        version: 1,
+        specs: { [SPEC_URL]: { sha256: hashSpecContent('locked') } },
+      });
+      mockFetch({ body: 'locked' });
+
+      await expect(readLockedSpec(SPEC_URL, { root })).resolves.toBe('locked');
+      expect(
+        readFileSync(
+          join(root, SPEC_CACHE_DIR, hashSpecContent('locked')),
+          'utf-8'
+        )
+      ).toBe('locked');
+    });
+
+    it('should fail if the fetched spec does not match the lock', async () => {
+      writeSpecLock(root, {
+        version: 1,
+        specs: { [SPEC_URL]: { sha256: hashSpecContent('locked') } },
+      });
+      mockFetch({ body: 'changed' });
+
+      await expect(readLockedSpec(SPEC_URL, { root })).rejects.toThrow(
+        'changed since it was locked'
+      );
+    });
+  });
+
+  describe('refreshLockedSpec', () => {
+    it('should add new specs with their ETag', async () => {
+      const lock: SpecLock = { version: 1, specs: {} };
+      mockFetch({ body: 'v1', etag: '"1"' });
+
+      const result = await refreshLockedSpec(SPEC_URL, lock, { root });
+
+      expect(result).toEqual({ content: 'v1', change: 'added' });
+      expect(lock.specs[SPEC_URL]).toEqual({
+        etag: '"1"',
+        sha256: hashSpecContent('v1'),
+      });
+    });
+
+    it('should keep cached specs whose ETag did not change', async () => {
+      const sha256 = writeCachedSpec(root, 'v1');
+      const lock: SpecLock = {
+        version: 1,
+        specs: { [SPEC_URL]: { etag: '"1"', sha256 } },
+      };
+      mockFetch({ ok: false, status: 304 });
+
+      const result = await refreshLockedSpec(SPEC_URL, lock, { root });
+
+      expect(result).toEqual({ content: 'v1', change: 'unchanged' });
+      expect(global.fetch).toHaveBeenCalledWith(SPEC_URL, {
+        headers: { 'If-None-Match': '"1"' },
+        signal: undefined,
+        redirect: 'manual',
+      });
+    });
+
+    it('should update changed specs', async () => {
+      const lock: SpecLock = {
+        version: 1,
+        specs: {
+          [SPEC_URL]: { etag: '"1"', sha256: writeCachedSpec(root, 'v1') },
+        },
+      };
+      mockFetch({ body: 'v2', etag: '"2"' });
+
+      const result = await refreshLockedSpec(SPEC_URL, lock, { root });
+
+      expect(result.change).toBe('updated');
+      expect(lock.specs[SPEC_URL]).toEqual({
+        etag: '"2"',
+        sha256: hashSpecContent('v2'),
+      });
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { logger } from '@nx/devkit';
+import { ConfigurationError } from './errors';
+import {
+  fetchRemoteSpec,
+  RemoteSpecOptions,
+  requestRemoteSpec,
+} from './spec-fetch';
+
+export const SPEC_LOCK_FILE = 'openapi-specs.lock.json';
+export const SPEC_CACHE_DIR = '.nx-plugin-openapi/spec-cache';
+
+export interface SpecLockEntry {
+  etag?: string;
+  sha256: string;
+}
+
+export interface SpecLock {
+  version: 1;
+  /** Locked remote documents, keyed by URL */
+  specs: Record<string, SpecLockEntry>;
+}
+
+export type SpecLockChange = 'added' | 'updated' | 'unchanged';
+
+export function hashSpecContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Reads the spec lockfile of the workspace. Returns an empty lock if there
+ * is none.
+ */
+export function readSpecLock(root: string): SpecLock {
+  const path = join(root, SPEC_LOCK_FILE);
+  if (!existsSync(path)) {
+    return { version: 1, specs: {} };
+  }
+
+  let lock: SpecLock;
+  try {
+    lock = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (e) {
+    throw new ConfigurationError(
+      `Invalid JSON: ${e instanceof Error ? e.message : String(e)}`,
+      SPEC_LOCK_FILE
+    );
+  }
+  if (lock?.version !== 1 || typeof lock.specs !== 'object') {
+    throw new ConfigurationError(
+      `Unsupported lockfile version ${lock?.version}`,
+      SPEC_LOCK_FILE
+    );
+  }
+  return lock;
+}
+
+/**
+ * Writes the spec lockfile with its entries sorted by URL, to keep diffs
+ * small.
+ */
+export function writeSpecLock(root: string, lock: SpecLock): void {
+  const specs = Object.fromEntries(
+    Object.entries(lock.specs).sort(([a], [b]) => a.localeCompare(b))
+  );
+  writeFileSync(
+    join(root, SPEC_LOCK_FILE),
+    JSON.stringify({ version: 1, specs }, null, 2) + '\n'
+  );
+}
+
+/**
+ * Reads a spec from the content-addressed spec cache. Returns undefined if it
+ * is not cached or the cached file does not match its hash.
+ */
+export function readCachedSpec(
+  root: string,
+  sha256: string
+): string | undefined {
+  const path = join(root, SPEC_CACHE_DIR, sha256);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  const content = readFileSync(path, 'utf-8');
+  return hashSpecContent(content) === sha256 ? content : undefined;
+}
+
+/**
+ * Adds a spec to the spec cache and returns its hash.
+ */
+export function writeCachedSpec(root: string, content: string): string {
+  const sha256 = hashSpecContent(content);
+  const dir = join(root, SPEC_CACHE_DIR);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, sha256), content);
+  return sha256;
+}
+
+/**
+ * Reads a remote spec as locked in the spec lockfile: from the spec cache,
+ * or fetched if not cached yet, in which case the content must still match
+ * the locked hash. Specs that are not locked are fetched.
+ */
+export async function readLockedSpec(
+  url: string,
+  opts: RemoteSpecOptions
+): Promise<string> {
+  const entry = readSpecLock(opts.root).specs[url];
+  if (!entry) {
+    return fetchRemoteSpec(url, opts);
+  }
+
+  const cached = readCachedSpec(opts.root, entry.sha256);
+  if (cached !== undefined) {
+    logger.debug(`Using locked copy of ${url}`);
+    return cached;
+  }
+
+  const content = await fetchRemoteSpec(url, opts);
+  if (hashSpecContent(content) !== entry.sha256) {
+    throw new ConfigurationError(
+      `${url} changed since it was locked. Run the refresh-specs executor to update the lock.`,
+      SPEC_LOCK_FILE
+    );
+  }
+  writeCachedSpec(opts.root, content);
+  return content;
+}
+
+/**
+ * Fetches a remote spec again and updates its entry in `lock`. Specs whose
+ * ETag did not change are not downloaded again if they are cached.
+ */
+export async function refreshLockedSpec(
+  url: string,
+  lock: SpecLock,
+  opts: RemoteSpecOptions
+): Promise<{ content: string; change: SpecLockChange }> {
+  const previous = lock.specs[url];
+  const cached = previous
+    ? readCachedSpec(opts.root, previous.sha256)
+    : undefined;
+
+  const response = await requestRemoteSpec(url, {
+    ...opts,
+    ifNoneMatch: cached !== undefined ? previous?.etag : undefined,
+  });
+  const content = response.content ?? (cached as string);
+  const sha256 = writeCachedSpec(opts.root, content);
+  lock.specs[url] = { etag: response.etag, sha256 };
+
+  let change: SpecLockChange = 'unchanged';
+  if (!previous) change = 'added';
+  else if (previous.sha256 !== sha256) change = 'updated';
+  return { content, change };
+}
@@ -0,0 +1,88 @@
+import { ProjectConfiguration } from '@nx/devkit';
+import { ConfigurationError } from './errors';
+import {
+  getSpecReferences,
+  resolveInputSpec,
+  resolveSpecReference,
+} from './spec-reference';
+
+describe('spec references', () => {
+  const projects: Record<string, ProjectConfiguration> = {
+    backend: {
+      root: 'apps/backend',
+      targets: {
+        export: { outputs: ['{workspaceRoot}/dist/{projectRoot}'] },
+        'export-file': { outputs: ['{projectRoot}/openapi/api.json'] },
+        lint: {},
+      },
+    },
+  };
+
+  describe('resolveSpecReference', () => {
+    it('should resolve files below the project root without a target', () => {
+      expect(
+        resolveSpecReference(
+          { project: 'backend', file: './api.yaml' },
+          projects
+        )
+      ).toBe('apps/backend/api.yaml');
+    });
+
+    it('should resolve files below the target outputs', () => {
+      expect(
+        resolveSpecReference(
+          { project: 'backend', target: 'export', file: 'api.json' },
+          projects
+        )
+      ).toBe('dist/apps/backend/api.json');
+    });
+
+    it('should resolve outputs that are the file itself', () => {
+      expect(
+        resolveSpecReference(
+          { project: 'backend', target: 'export-file', file: 'api.json' },
+          projects
+        )
+      ).toBe('apps/backend/openapi/api.json');
+    });
+
+    it('should fail for unknown projects, targets and targets without outputs', () => {
+      for (const reference of [
+        { project: 'missing', file: 'api.json' },
+        { project: 'backend', target: 'missing', file: 'api.json' },
+        { project: 'backend', target: 'lint', file: 'api.json' },
+      ]) {
+        expect(() => resolveSpecReference(reference, projects)).toThrow(
+          ConfigurationError
+        );
+      }
+    });
+  });
+
+  it('should resolve all references of an InputSpec', async () => {
+    await expect(
+      resolveInputSpec(
+        {
+          a: 'specs/a.yaml',
+          b: { project: 'backend', target: 'export', file: 'b.json' },
+          c: { spec: { project: 'backend', file: 'c.yaml' }, outputPath: 'c' },
+        },
+        projects
+      )
+    ).resolves.toEqual({
+      a: 'specs/a.yaml',
+      b: 'dist/apps/backend/b.json',
+      c: { spec: 'apps/backend/c.yaml', outputPath: 'c' },
+    });
+  });
+
+  it('should return the references of an InputSpec', () => {
+    const reference = { project: 'backend', file: 'api.json' };
+
+    expect(getSpecReferences(reference)).toEqual([reference]);
+    expect(getSpecReferences({ a: 'a.yaml', b: reference })).toEqual([
+      reference,
+    ]);
+    expect(getSpecReferences(42)).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  getOutputsForTargetAndConfiguration,
+  joinPathFragments,
+  normalizePath,
+  ProjectConfiguration,
+} from '@nx/devkit';
+import { ConfigurationError } from './errors';
+import { getInputSpecEntries, mapInputSpec } from './input-spec';
+import { InputSpec, InputSpecOption, SpecReference } from './interfaces';
+import { isValidInputSpecOption } from './type-guards';
+
+/**
+ * Resolves a spec reference to a path relative to the workspace root: the
+ * file below the outputs of the referenced target, or below the project root
+ * without a target.
+ */
+export function resolveSpecReference(
+  reference: SpecReference,
+  projects: Record<string, ProjectConfiguration>
+): string {
+  const { project: projectName, target: targetName } = reference;
+  const project = projects[projectName];
+  if (!project) {
+    throw new ConfigurationError(
+      `Project '${projectName}' referenced by inputSpec does not exist`
+    );
+  }
+
+  const file = normalizePath(reference.file).replace(/^\.\//, '');
+  if (!targetName) {
+    return joinPathFragments(project.root, file);
+  }
+  if (!project.targets?.[targetName]) {
+    throw new ConfigurationError(
+      `Project '${projectName}' referenced by inputSpec has no target '${targetName}'`
+    );
+  }
+
+  const outputs = getOutputsForTargetAndConfiguration(
+    { project: projectName, target: targetName },
+    {},
+    { name: projectName, type: 'lib', data: project }
+  );
+  if (outputs.length === 0) {
+    throw new ConfigurationError(
+      `Target ${projectName}:${targetName} referenced by inputSpec has no outputs`
+    );
+  }
+  // An output can be the file itself or a directory containing it
+  return (
+    outputs.find((output) => output === file || output.endsWith(`/${file}`)) ??
+    joinPathFragments(outputs[0], file)
+  );
+}
+
+/**
+ * Replaces all spec references of an InputSpec by the paths of the files.
+ */
+export function resolveInputSpec(
+  inputSpec: InputSpecOption,
+  projects: Record<string, ProjectConfiguration>
+): Promise<InputSpec> {
+  return mapInputSpec(inputSpec, async ({ spec }) =>
+    typeof spec === 'string' ? spec : resolveSpecReference(spec, projects)
+  );
+}
+
+/**
+ * Returns the spec references of an InputSpec. Invalid InputSpecs have none.
+ */
+export function getSpecReferences(inputSpec: unknown): SpecReference[] {
+  if (!isValidInputSpecOption(inputSpec)) {
+    return [];
+  }
+  return getInputSpecEntries(inputSpec).flatMap(({ spec }) =>
+    typeof spec === 'string' ? [] : [spec]
+  );
+}
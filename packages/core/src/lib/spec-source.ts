@@ -0,0 +1,77 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { isAbsolute, join } from 'node:path';
+import { FileSystemError } from './errors';
+import { isRemoteSpec } from './input-spec';
+import { SpecFetchOptions } from './spec-fetch';
+import { readLockedSpec } from './spec-lock';
+
+export interface SpecSourceOptions {
+  /**
+   * Workspace root used to resolve relative spec paths
+   */
+  root: string;
+  /**
+   * Reads local files instead of the file system, e.g. to read specs as they
+   * were at a git revision
+   */
+  readFile?: (path: string) => Promise<string>;
+  /**
+   * Cancels fetching remote specs
+   */
+  signal?: AbortSignal;
+  /**
+   * Headers, CA bundle and proxy used to fetch remote specs
+   */
+  fetch?: SpecFetchOptions;
+  /**
+   * Reads remote specs instead of the spec lockfile and network, e.g. to
+   * refresh the lock
+   */
+  readRemote?: (url: string) => Promise<string>;
+}
+
+/**
+ * Resolves a local spec path against the workspace root.
+ * Remote specs are returned unchanged.
+ */
+export function resolveSpecLocation(spec: string, root: string): string {
+  if (isRemoteSpec(spec) || isAbsolute(spec)) {
+    return spec;
+  }
+  return join(root, spec);
+}
+
+/**
+ * Reads the raw content of a spec, either from disk or over HTTP(S).
+ * Remote specs locked in the spec lockfile are read from the spec cache.
+ */
+export async function readSpecSource(
+  spec: string,
+  opts: SpecSourceOptions
+): Promise<string> {
+  const location = resolveSpecLocation(spec, opts.root);
+
+  if (isRemoteSpec(location)) {
+    return opts.readRemote
+      ? opts.readRemote(location)
+      : readLockedSpec(location, opts);
+  }
+
+  if (opts.readFile) {
+    return opts.readFile(location);
+  }
+
+  if (!existsSync(location)) {
+    throw new FileSystemError('File does not exist', location, 'read');
+  }
+  try {
+    return readFileSync(location, 'utf-8');
+  } catch (e) {
+    throw new FileSystemError(
+      e instanceof Error ? e.message : String(e),
+      location,
+      'read',
+      e
+    );
+  }
+}
@@ -0,0 +1,304 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { logger } from '@nx/devkit';
+import { SpecTransformError } from './errors';
+import {
+  applyOverlay,
+  applySpecTransforms,
+  filterOperations,
+  loadSpecTransforms,
+  matchesPathGlob,
+  pruneComponents,
+} from './spec-transforms';
+
+function createDocument() {
+  return {
+    openapi: '3.0.3',
+    info: { title: 'API', version: '1' },
+    tags: [{ name: 'users' }, { name: 'internal' }],
+    paths: {
+      '/users': {
+        parameters: [],
+        get: { operationId: 'listUsers', tags: ['users'] },
+        post: { operationId: 'create_user', tags: ['users', 'internal'] },
+      },
+      '/users/{id}': { get: { operationId: 'getUser', tags: ['users'] } },
+      '/admin/jobs': { get: { operationId: 'listJobs', tags: ['internal'] } },
+    },
+  };
+}
+
+describe('spec transforms', () => {
+  describe('applyOverlay', () => {
+    it('should merge updates into objects and append them to arrays', () => {
+      const document = applyOverlay(createDocument(), {
+        overlay: '1.0.0',
+        actions: [
+          { target: '$.info', update: { title: 'Users API', 'x-logo': 'a' } },
+          { target: '$.tags', update: { name: 'admin' } },
+          {
+            target: "$.paths['/users'].post",
+            update: { operationId: 'createUser' },
+          },
+        ],
+      });
+
+      expect(document['info']).toEqual({
+        title: 'Users API',
+        version: '1',
+        'x-logo': 'a',
+      });
+      expect(document['tags']).toEqual([
+        { name: 'users' },
+        { name: 'internal' },
+        { name: 'admin' },
+      ]);
+      expect(document).toHaveProperty(
+        ['paths', '/users', 'post', 'operationId'],
+        'createUser'
+      );
+    });
+
+    it('should remove targets', () => {
+      const document = applyOverlay(createDocument(), {
+        overlay: '1.0.0',
+        actions: [
+          { target: "$.paths['/admin/jobs']", remove: true },
+          { target: "$.tags[?(@.name == 'internal')]", remove: true },
+        ],
+      });
+
+      expect(Object.keys(document['paths'] as object)).toEqual([
+        '/users',
+        '/users/{id}',
+      ]);
+      expect(document['tags']).toEqual([{ name: 'users' }]);
+    });
+
+    it('should warn about targets that match nothing', () => {
+      jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+
+      applyOverlay(
+        createDocument(),
+        { overlay: '1.0.0', actions: [{ target: '$.missing', remove: true }] },
+        'fix.overlay.yaml'
+      );
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        'fix.overlay.yaml: target $.missing did not match anything'
+      );
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('filterOperations', () => {
+    it('should keep included and remove excluded operations', () => {
+      const document = filterOperations(createDocument(), {
+        include: { tags: ['users'] },
+        exclude: { tags: ['internal'] },
+      });
+
+      expect(document['paths']).toEqual({
+        '/users': {
+          parameters: [],
+          get: { operationId: 'listUsers', tags: ['users'] },
+        },
+        '/users/{id}': { get: { operationId: 'getUser', tags: ['users'] } },
+      });
+    });
+
+    it('should filter by path globs', () => {
+      const document = filterOperations(createDocument(), {
+        exclude: { paths: ['/users/*'] },
+      });
+
+      expect(Object.keys(document['paths'] as object)).toEqual([
+        '/users',
+        '/admin/jobs',
+      ]);
+    });
+
+    it('should filter by operationId and method', () => {
+      const document = filterOperations(createDocument(), {
+        include: { operationIds: ['listUsers', 'create_user', 'listJobs'] },
+        exclude: { methods: ['POST'] },
+      });
+
+      expect(document['paths']).toEqual({
+        '/users': {
+          parameters: [],
+          get: { operationId: 'listUsers', tags: ['users'] },
+        },
+        '/admin/jobs': { get: { operationId: 'listJobs', tags: ['internal'] } },
+      });
+    });
+
+    it('should prune components when requested', () => {
+      const document = filterOperations(
+        {
+          openapi: '3.0.3',
+          paths: {
+            '/a': { get: { $ref: '#/components/schemas/A' } },
+            '/b': { get: { $ref: '#/components/schemas/B' } },
+          },
+          components: { schemas: { A: {}, B: {} } },
+        },
+        { exclude: { paths: ['/b'] }, prune: true }
+      );
+
+      expect(document['components']).toEqual({ schemas: { A: {} } });
+    });
+  });
+
+  describe('pruneComponents', () => {
+    it('should keep components referenced directly or through others', () => {
+      const document = pruneComponents({
+        openapi: '3.0.3',
+        paths: {
+          '/users': {
+            get: {
+              parameters: [{ $ref: '#/components/parameters/Page' }],
+              responses: {
+                '200': { $ref: '#/components/responses/Users' },
+              },
+            },
+          },
+        },
+        components: {
+          parameters: { Page: {}, Unused: {} },
+          responses: {
+            Users: {
+              content: {
+                'application/json': {
+                  schema: { $ref: '#/components/schemas/User/properties/list' },
+                },
+              },
+            },
+          },
+          schemas: {
+            User: {
+              properties: { address: { $ref: '#/components/schemas/Address' } },
+            },
+            Address: {},
+            Order: {
+              properties: { user: { $ref: '#/components/schemas/User' } },
+            },
+          },
+          securitySchemes: { token: { type: 'http' } },
+        },
+      });
+
+      expect(document['components']).toEqual({
+        parameters: { Page: {} },
+        responses: { Users: expect.any(Object) },
+        schemas: {
+          User: expect.any(Object),
+          Address: {},
+        },
+        securitySchemes: { token: { type: 'http' } },
+      });
+    });
+
+    it('should keep subschemas of referenced schemas with a discriminator', () => {
+      const document = pruneComponents({
+        swagger: '2.0',
+        paths: { '/pets': { get: { schema: { $ref: '#/definitions/Pet' } } } },
+        definitions: {
+          Pet: { discriminator: 'kind' },
+          Dog: {
+            allOf: [
+              { $ref: '#/definitions/Pet' },
+              { properties: { owner: { $ref: '#/definitions/Owner' } } },
+            ],
+          },
+          Owner: {},
+          Car: {},
+        },
+      });
+
+      expect(Object.keys(document['definitions'] as object)).toEqual([
+        'Pet',
+        'Dog',
+        'Owner',
+      ]);
+    });
+  });
+
+  describe('matchesPathGlob', () => {
+    it('should match * within and ** across segments', () => {
+      expect(matchesPathGlob('/users/{id}', '/users/*')).toBe(true);
+      expect(matchesPathGlob('/users/{id}/roles', '/users/*')).toBe(false);
+      expect(matchesPathGlob('/users/{id}/roles', '/users/**')).toBe(true);
+      expect(matchesPathGlob('/users', '/users/**')).toBe(true);
+      expect(matchesPathGlob('/v1/users', '/**/users')).toBe(true);
+    });
+  });
+
+  describe('loadSpecTransforms', () => {
+    let root: string;
+
+    beforeEach(() => {
+      root = mkdtempSync(join(tmpdir(), 'core-spec-transforms-'));
+    });
+
+    afterEach(() => {
+      rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should apply overlays, filters and modules in order', async () => {
+      writeFileSync(
+        join(root, 'rename.overlay.yaml'),
+        [
+          'overlay: 1.0.0',
+          'info: { title: Rename, version: 1.0.0 }',
+          'actions:',
+          "  - target: $.paths['/users'].post",
+          '    update: { operationId: createUser }',
+        ].join('\n')
+      );
+      writeFileSync(
+        join(root, 'transform.js'),
+        `module.exports.addServer = (doc) => {
+          doc.servers = [{ url: 'https://api.example.com' }];
+        };`
+      );
+
+      const transforms = await loadSpecTransforms(
+        [
+          { type: 'overlay', path: 'rename.overlay.yaml' },
+          { type: 'filter', exclude: { tags: ['internal'] } },
+          { type: 'module', path: 'transform.js', exportName: 'addServer' },
+        ],
+        { root }
+      );
+      const document = (await applySpecTransforms(
+        createDocument(),
+        transforms
+      )) as Record<string, unknown>;
+
+      expect(Object.keys(document['paths'] as object)).toEqual([
+        '/users',
+        '/users/{id}',
+      ]);
+      expect(document['servers']).toEqual([{ url: 'https://api.example.com' }]);
+    });
+
+    it('should fail for invalid overlays and modules', async () => {
+      writeFileSync(join(root, 'invalid.overlay.json'), '{ "actions": [] }');
+      writeFileSync(join(root, 'transform.js'), 'module.exports = {};');
+
+      await expect(
+        loadSpecTransforms(
+          [{ type: 'overlay', path: 'invalid.overlay.json' }],
+          {
+            root,
+          }
+        )
+      ).rejects.toThrow(SpecTransformError);
+      await expect(
+        loadSpecTransforms([{ type: 'module', path: 'transform.js' }], { root })
+      ).rejects.toThrow("Module does not export a function 'default'");
+    });
+  });
+});
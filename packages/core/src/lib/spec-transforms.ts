@@ -0,0 +1,514 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { logger } from '@nx/devkit';
+import { SpecTransformError } from './errors';
+import { queryJsonPath } from './json-path';
+import { parseSpecDocument } from './spec-document';
+import { importWorkspaceFile } from './utils/import-file';
+
+/**
+ * Selects operations of a spec. An operation matches if it matches all the
+ * given criteria, and a criterion if it matches one of its values.
+ */
+export interface OperationSelector {
+  /** Tags, an operation matches if it has one of them */
+  tags?: string[];
+  /**
+   * Path globs like `/users/**`. `*` matches within a path segment, `**`
+   * across segments.
+   */
+  paths?: string[];
+  operationIds?: string[];
+  /** HTTP methods like `get`, case-insensitive */
+  methods?: string[];
+}
+
+export interface OperationFilter {
+  include?: OperationSelector;
+  exclude?: OperationSelector;
+  /** Remove components that are no longer referenced afterwards */
+  prune?: boolean;
+}
+
+/**
+ * - `overlay`: applies an OpenAPI Overlay 1.0 document
+ * - `filter`: keeps the operations matching `include` and not matching
+ *   `exclude`, paths without operations are removed. With `prune`, unused
+ *   components are removed as well.
+ * - `module`: a workspace module exporting `(document) => document`
+ */
+export type SpecTransform =
+  | { type: 'overlay'; path: string }
+  | ({ type: 'filter' } & OperationFilter)
+  | { type: 'module'; path: string; exportName?: string };
+
+type JsonObject = Record<string, unknown>;
+
+export type SpecDocumentTransform = (
+  document: JsonObject
+) => Promise<JsonObject>;
+
+interface OverlayAction {
+  target: string;
+  description?: string;
+  update?: unknown;
+  remove?: boolean;
+}
+
+export interface OverlayDocument {
+  overlay: string;
+  info?: { title?: string; version?: string };
+  actions: OverlayAction[];
+}
+
+const HTTP_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace',
+];
+
+/**
+ * Loads the overlay documents and modules of the transforms, relative to the
+ * workspace root.
+ */
+export async function loadSpecTransforms(
+  transforms: SpecTransform[],
+  opts: { root: string }
+): Promise<SpecDocumentTransform[]> {
+  const loaded: SpecDocumentTransform[] = [];
+  for (const transform of transforms) {
+    const name = describeTransform(transform);
+    let apply: (document: JsonObject) => unknown;
+    try {
+      apply = await loadTransform(transform, opts.root);
+    } catch (e) {
+      throw new SpecTransformError(name, e);
+    }
+
+    loaded.push(async (document) => {
+      let result: unknown;
+      try {
+        result = await apply(document);
+      } catch (e) {
+        throw new SpecTransformError(name, e);
+      }
+      // Transforms can also modify the document in place
+      if (result === undefined) {
+        return document;
+      }
+      if (!result || typeof result !== 'object' || Array.isArray(result)) {
+        throw new SpecTransformError(
+          name,
+          new Error('Transform did not return a document')
+        );
+      }
+      return result as JsonObject;
+    });
+  }
+  return loaded;
+}
+
+/**
+ * Applies the transforms to a document, in order.
+ */
+export async function applySpecTransforms(
+  document: unknown,
+  transforms: SpecDocumentTransform[]
+): Promise<unknown> {
+  let result = document as JsonObject;
+  for (const transform of transforms) {
+    result = await transform(result);
+  }
+  return result;
+}
+
+/**
+ * Applies the actions of an OpenAPI Overlay to a document. Removed values
+ * are deleted from their parent. Updates are merged into objects
+ * recursively, appended to arrays and replace other values.
+ */
+export function applyOverlay(
+  document: JsonObject,
+  overlay: OverlayDocument,
+  name = 'overlay'
+): JsonObject {
+  for (const action of overlay.actions) {
+    const matches = queryJsonPath(document, action.target);
+    if (matches.length === 0) {
+      logger.warn(`${name}: target ${action.target} did not match anything`);
+      continue;
+    }
+
+    if (action.remove) {
+      // Backwards, so removing array items keeps the indexes of the others
+      for (const { path } of [...matches].reverse()) {
+        const parent = getParent(document, path);
+        const key = path[path.length - 1];
+        if (Array.isArray(parent)) parent.splice(Number(key), 1);
+        else if (parent) delete parent[key];
+      }
+    } else if (action.update !== undefined) {
+      for (const { path, value } of matches) {
+        const updated = applyUpdate(value, action.update);
+        const parent = getParent(document, path);
+        if (parent) {
+          (parent as JsonObject)[path[path.length - 1]] = updated;
+        } else if (isObject(updated)) {
+          document = updated;
+        }
+      }
+    }
+  }
+  return document;
+}
+
+/**
+ * Removes the operations not matching `include` or matching `exclude`, and
+ * paths without operations. With `prune`, components that are no longer
+ * referenced are removed too.
+ */
+export function filterOperations(
+  document: JsonObject,
+  filter: OperationFilter
+): JsonObject {
+  const paths = document['paths'];
+  if (!isObject(paths)) {
+    return document;
+  }
+
+  for (const [path, pathItem] of Object.entries(paths)) {
+    if (!isObject(pathItem)) continue;
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!isObject(operation)) continue;
+      const keep =
+        (!filter.include ||
+          matchesOperation(filter.include, path, method, operation)) &&
+        !(
+          filter.exclude &&
+          matchesOperation(filter.exclude, path, method, operation)
+        );
+      if (!keep) {
+        delete pathItem[method];
+      }
+    }
+    if (!HTTP_METHODS.some((method) => method in pathItem)) {
+      delete paths[path];
+    }
+  }
+  return filter.prune ? pruneComponents(document) : document;
+}
+
+/**
+ * Removes components (or Swagger 2.0 definitions, parameters and responses)
+ * that are not referenced from outside the components, directly or through
+ * other components. Subschemas of referenced schemas with a discriminator are
+ * kept, and so are security schemes, which are referenced by name.
+ */
+export function pruneComponents(document: JsonObject): JsonObject {
+  const sections = getComponentSections(document);
+  const used = new Set<string>();
+  const pending: unknown[] = [
+    Object.fromEntries(
+      Object.entries(document).filter(
+        ([key]) => !sections.some(({ path }) => path[0] === key)
+      )
+    ),
+  ];
+  if (isObject(document['components'])) {
+    // Sections that are not pruned can reference pruned ones
+    pending.push(
+      Object.entries(document['components'])
+        .filter(([key]) => !sections.some(({ path }) => path[1] === key))
+        .map(([, value]) => value)
+    );
+  }
+
+  const markUsed = (value: unknown) => {
+    for (const ref of collectRefs(value)) {
+      const component = toComponentKey(ref, sections);
+      if (component && !used.has(component.key)) {
+        used.add(component.key);
+        pending.push(component.value);
+      }
+    }
+  };
+
+  do {
+    while (pending.length > 0) {
+      markUsed(pending.pop());
+    }
+    // Subschemas aren't referenced by a discriminator without mapping, but
+    // are needed for the polymorphic model
+    for (const section of sections.filter((s) => s.schemas)) {
+      for (const [name, schema] of Object.entries(section.entries)) {
+        const key = `#/${[...section.path, name].join('/')}`;
+        if (used.has(key) || !isObject(schema)) continue;
+        const parents = Array.isArray(schema['allOf']) ? schema['allOf'] : [];
+        const extendsDiscriminator = parents.some((parent) => {
+          const ref = isObject(parent) ? parent['$ref'] : undefined;
+          const component =
+            typeof ref === 'string' ? toComponentKey(ref, sections) : undefined;
+          return (
+            !!component &&
+            used.has(component.key) &&
+            isObject(component.value) &&
+            'discriminator' in component.value
+          );
+        });
+        if (extendsDiscriminator) {
+          used.add(key);
+          pending.push(schema);
+        }
+      }
+    }
+  } while (pending.length > 0);
+
+  for (const section of sections) {
+    for (const name of Object.keys(section.entries)) {
+      if (!used.has(`#/${[...section.path, name].join('/')}`)) {
+        delete section.entries[name];
+      }
+    }
+  }
+  return document;
+}
+
+/**
+ * Whether a path matches a glob. `*` matches within a segment, `**` any
+ * number of segments.
+ */
+export function matchesPathGlob(path: string, glob: string): boolean {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    if (glob.startsWith('/**', i) && i + 3 === glob.length) {
+      pattern += '(?:/.*)?';
+      i += 2;
+    } else if (glob.startsWith('**', i)) {
+      pattern += '.*';
+      i += 1;
+    } else if (glob[i] === '*') {
+      pattern += '[^/]*';
+    } else {
+      pattern += glob[i].replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`).test(path);
+}
+
+function matchesOperation(
+  selector: OperationSelector,
+  path: string,
+  method: string,
+  operation: JsonObject
+): boolean {
+  const tags = Array.isArray(operation['tags']) ? operation['tags'] : [];
+  return (
+    (!selector.tags || selector.tags.some((tag) => tags.includes(tag))) &&
+    (!selector.paths ||
+      selector.paths.some((glob) => matchesPathGlob(path, glob))) &&
+    (!selector.operationIds ||
+      selector.operationIds.includes(operation['operationId'] as string)) &&
+    (!selector.methods ||
+      selector.methods.some((m) => m.toLowerCase() === method))
+  );
+}
+
+interface ComponentSection {
+  /** Path of the section in the document, e.g. `components/schemas` */
+  path: string[];
+  entries: JsonObject;
+  schemas: boolean;
+}
+
+const PRUNED_COMPONENTS = [
+  'schemas',
+  'parameters',
+  'responses',
+  'requestBodies',
+  'headers',
+  'examples',
+  'links',
+  'callbacks',
+  'pathItems',
+];
+
+function getComponentSections(document: JsonObject): ComponentSection[] {
+  const sections: ComponentSection[] = [];
+  const components = document['components'];
+  if (isObject(components)) {
+    for (const name of PRUNED_COMPONENTS) {
+      const entries = components[name];
+      if (isObject(entries)) {
+        sections.push({
+          path: ['components', name],
+          entries,
+          schemas: name === 'schemas',
+        });
+      }
+    }
+  }
+  if ('swagger' in document) {
+    for (const name of ['definitions', 'parameters', 'responses']) {
+      const entries = document[name];
+      if (isObject(entries)) {
+        sections.push({
+          path: [name],
+          entries,
+          schemas: name === 'definitions',
+        });
+      }
+    }
+  }
+  return sections;
+}
+
+/**
+ * The component an internal ref points to (or into).
+ */
+function toComponentKey(
+  ref: string,
+  sections: ComponentSection[]
+): { key: string; value: unknown } | undefined {
+  if (!ref.startsWith('#/')) {
+    return undefined;
+  }
+  const segments = ref
+    .slice(2)
+    .split('/')
+    .map((s) => s.replace(/~1/g, '/').replace(/~0/g, '~'));
+  for (const section of sections) {
+    const { path } = section;
+    if (
+      segments.length > path.length &&
+      path.every((key, i) => segments[i] === key)
+    ) {
+      const name = segments[path.length];
+      return {
+        key: `#/${[...path, name].join('/')}`,
+        value: section.entries[name],
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Internal refs of a value: `$ref`s and discriminator mappings.
+ */
+function collectRefs(value: unknown, refs: string[] = []): string[] {
+  if (Array.isArray(value)) {
+    for (const item of value) collectRefs(item, refs);
+  } else if (isObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === '$ref' && typeof child === 'string') {
+        refs.push(child);
+      } else if (key === 'mapping' && isObject(child)) {
+        for (const target of Object.values(child)) {
+          if (typeof target === 'string') refs.push(target);
+        }
+      }
+      collectRefs(child, refs);
+    }
+  }
+  return refs;
+}
+
+async function loadTransform(
+  transform: SpecTransform,
+  root: string
+): Promise<(document: JsonObject) => unknown> {
+  switch (transform.type) {
+    case 'overlay': {
+      const overlay = readOverlay(resolve(root, transform.path));
+      return (document) => applyOverlay(document, overlay, transform.path);
+    }
+    case 'filter':
+      return (document) => filterOperations(document, transform);
+    case 'module': {
+      const exportName = transform.exportName ?? 'default';
+      const mod = await importWorkspaceFile<Record<string, unknown>>(
+        resolve(root, transform.path),
+        root
+      );
+      const fn = mod[exportName];
+      if (typeof fn !== 'function') {
+        throw new Error(`Module does not export a function '${exportName}'`);
+      }
+      return fn as (document: JsonObject) => unknown;
+    }
+    default:
+      throw new Error(
+        `Unknown transform type '${(transform as { type: unknown }).type}'`
+      );
+  }
+}
+
+function readOverlay(path: string): OverlayDocument {
+  const overlay = parseSpecDocument(readFileSync(path, 'utf-8'), path);
+  if (
+    !isObject(overlay) ||
+    typeof overlay['overlay'] !== 'string' ||
+    !overlay['overlay'].startsWith('1.') ||
+    !Array.isArray(overlay['actions']) ||
+    !overlay['actions'].every(
+      (action) => isObject(action) && typeof action['target'] === 'string'
+    )
+  ) {
+    throw new Error(
+      'Not an OpenAPI Overlay 1.x document with an actions array'
+    );
+  }
+  return overlay as unknown as OverlayDocument;
+}
+
+function describeTransform(transform: SpecTransform): string {
+  return transform.type === 'filter'
+    ? 'filter'
+    : `${transform.type} ${transform.path}`;
+}
+
+function applyUpdate(target: unknown, update: unknown): unknown {
+  if (Array.isArray(target)) {
+    return target.concat(update);
+  }
+  if (isObject(target) && isObject(update)) {
+    return mergeObjects(target, update);
+  }
+  return update;
+}
+
+function mergeObjects(target: JsonObject, update: JsonObject): JsonObject {
+  const result = { ...target };
+  for (const [key, value] of Object.entries(update)) {
+    const current = result[key];
+    result[key] =
+      isObject(current) && isObject(value)
+        ? mergeObjects(current, value)
+        : value;
+  }
+  return result;
+}
+
+function getParent(
+  document: JsonObject,
+  path: string[]
+): JsonObject | unknown[] | undefined {
+  if (path.length === 0) {
+    return undefined;
+  }
+  let value: unknown = document;
+  for (const key of path.slice(0, -1)) {
+    value = (value as JsonObject)[key];
+  }
+  return value as JsonObject | unknown[];
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,132 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  detectSpecVersion,
+  validateSpec,
+  validateSpecContent,
+} from './spec-validator';
+
+describe('spec-validator', () => {
+  describe('detectSpecVersion', () => {
+    it('should detect supported versions', () => {
+      expect(detectSpecVersion({ swagger: '2.0' })).toBe('2.0');
+      expect(detectSpecVersion({ openapi: '3.0.3' })).toBe('3.0');
+      expect(detectSpecVersion({ openapi: '3.1.0' })).toBe('3.1');
+      expect(detectSpecVersion({ openapi: '4.0.0' })).toBeUndefined();
+      expect(detectSpecVersion('openapi')).toBeUndefined();
+    });
+  });
+
+  describe('validateSpecContent', () => {
+    it('should accept valid documents of every version', () => {
+      const specs = [
+        { swagger: '2.0', info: { title: 'A', version: '1' }, paths: {} },
+        { openapi: '3.0.3', info: { title: 'A', version: '1' }, paths: {} },
+        { openapi: '3.1.0', info: { title: 'A', version: '1' }, paths: {} },
+      ];
+
+      for (const spec of specs) {
+        const result = validateSpecContent(JSON.stringify(spec), 'api.json');
+        expect(result).toEqual(
+          expect.objectContaining({ valid: true, diagnostics: [] })
+        );
+      }
+    });
+
+    it('should report problems with pointer, line and column', () => {
+      const content = [
+        'openapi: 3.0.3',
+        'info:',
+        '  title: Demo',
+        'paths:',
+        '  /users:',
+        '    get:',
+        '      unknown: true',
+        '      responses:',
+        "        '200':",
+        '          description: OK',
+        '          content:',
+        '            application/json:',
+        '              schema:',
+        '                type: list',
+      ].join('\n');
+
+      const result = validateSpecContent(content, 'api.yaml');
+
+      expect(result.valid).toBe(false);
+      expect(result.version).toBe('3.0');
+      expect(result.diagnostics).toEqual([
+        {
+          severity: 'error',
+          code: 'spec-schema',
+          message: "Missing required property 'version'",
+          file: 'api.yaml',
+          pointer: '/info',
+          line: 2,
+          column: 1,
+        },
+        {
+          severity: 'error',
+          code: 'spec-schema',
+          message: "Property 'unknown' is not allowed",
+          file: 'api.yaml',
+          pointer: '/paths/~1users/get/unknown',
+          line: 7,
+          column: 7,
+        },
+        expect.objectContaining({
+          message: expect.stringContaining('Must be one of'),
+          pointer:
+            '/paths/~1users/get/responses/200/content/application~1json/schema/type',
+          line: 14,
+          column: 17,
+        }),
+      ]);
+    });
+
+    it('should report unsupported versions', () => {
+      const result = validateSpecContent('{"openapi": "4.0.0"}', 'api.json');
+
+      expect(result.valid).toBe(false);
+      expect(result.diagnostics[0].code).toBe('spec-version');
+    });
+
+    it('should report documents that cannot be parsed', () => {
+      const result = validateSpecContent('{"openapi": ', 'api.json');
+
+      expect(result.valid).toBe(false);
+      expect(result.diagnostics[0].code).toBe('spec-parse');
+    });
+  });
+
+  describe('validateSpec', () => {
+    let root: string;
+
+    beforeEach(() => {
+      root = mkdtempSync(join(tmpdir(), 'core-spec-validator-'));
+    });
+
+    afterEach(() => {
+      rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should validate spec files relative to the root', async () => {
+      writeFileSync(
+        join(root, 'api.json'),
+        JSON.stringify({ swagger: '2.0', info: { title: 'A' }, paths: {} })
+      );
+
+      const result = await validateSpec('api.json', { root });
+
+      expect(result.valid).toBe(false);
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({
+          file: join(root, 'api.json'),
+          pointer: '/info',
+          message: "Missing required property 'version'",
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { openapi } from '@apidevtools/openapi-schemas';
+import type { ErrorObject, ValidateFunction } from 'ajv';
+import Ajv2020 from 'ajv/dist/2020';
+import AjvDraft04 from 'ajv-draft-04';
+import addFormats from 'ajv-formats';
+import { Diagnostic, hasErrors, locateJsonPointer } from './diagnostics';
+import { parseJsonPointer, compileJsonPointer } from './json-pointer';
+import { parseSpecDocument } from './spec-document';
+import {
+  readSpecSource,
+  resolveSpecLocation,
+  SpecSourceOptions,
+} from './spec-source';
+
+export type SpecVersion = '2.0' | '3.0' | '3.1';
+
+export interface SpecValidationResult {
+  valid: boolean;
+  /** Detected spec version, undefined if it could not be determined */
+  version?: SpecVersion;
+  diagnostics: Diagnostic[];
+}
+
+// Keywords reporting that none of the alternatives matched, the errors of
+// the alternatives themselves are more useful
+const COMBINATOR_KEYWORDS = new Set(['oneOf', 'anyOf', 'if', 'not']);
+
+const validators = new Map<SpecVersion, ValidateFunction>();
+
+/**
+ * Validates an OpenAPI 3.0/3.1 or Swagger 2.0 spec against the official JSON
+ * Schema of its version.
+ *
+ * Only the root document is validated, refs to other documents are accepted
+ * wherever the spec allows Reference Objects.
+ */
+export async function validateSpec(
+  spec: string,
+  opts: SpecSourceOptions
+): Promise<SpecValidationResult> {
+  const location = resolveSpecLocation(spec, opts.root);
+  const content = await readSpecSource(location, opts);
+  return validateSpecContent(content, location);
+}
+
+/**
+ * Validates the raw content of a spec document, see {@link validateSpec}.
+ */
+export function validateSpecContent(
+  content: string,
+  file: string
+): SpecValidationResult {
+  let document: unknown;
+  try {
+    document = parseSpecDocument(content, file);
+  } catch (e) {
+    return {
+      valid: false,
+      diagnostics: [
+        {
+          severity: 'error',
+          code: 'spec-parse',
+          message: e instanceof Error ? e.message : String(e),
+          file,
+          pointer: '',
+        },
+      ],
+    };
+  }
+
+  const version = detectSpecVersion(document);
+  if (!version) {
+    return {
+      valid: false,
+      diagnostics: [
+        {
+          severity: 'error',
+          code: 'spec-version',
+          message:
+            "Unsupported or missing spec version, expected 'swagger: 2.0' or 'openapi: 3.0.x/3.1.x'",
+          file,
+          pointer: '',
+          ...locateJsonPointer(content, ''),
+        },
+      ],
+    };
+  }
+
+  const validate = getValidator(version);
+  validate(document);
+  const diagnostics = toDiagnostics(validate.errors ?? []).map(
+    ({ pointer, message }): Diagnostic => ({
+      severity: 'error',
+      code: 'spec-schema',
+      message,
+      file,
+      pointer,
+      ...locateJsonPointer(content, pointer),
+    })
+  );
+
+  return { valid: !hasErrors(diagnostics), version, diagnostics };
+}
+
+export function detectSpecVersion(document: unknown): SpecVersion | undefined {
+  if (!document || typeof document !== 'object') return undefined;
+  const doc = document as Record<string, unknown>;
+  if (String(doc['swagger']) === '2.0') return '2.0';
+  const match = /^3\.(0|1)\./.exec(String(doc['openapi'] ?? ''));
+  return match ? (`3.${match[1]}` as SpecVersion) : undefined;
+}
+
+function getValidator(version: SpecVersion): ValidateFunction {
+  let validate = validators.get(version);
+  if (!validate) {
+    const ajv =
+      version === '3.1'
+        ? new Ajv2020({ allErrors: true, strict: false, logger: false })
+        : new AjvDraft04({ allErrors: true, strict: false, logger: false });
+    addFormats(ajv);
+    ajv.addFormat('media-range', true);
+
+    const schemas = {
+      '2.0': openapi.v2,
+      '3.0': openapi.v3,
+      '3.1': openapi.v31,
+    };
+    validate = ajv.compile(schemas[version] as object);
+    validators.set(version, validate);
+  }
+  return validate;
+}
+
+function toDiagnostics(
+  errors: ErrorObject[]
+): { pointer: string; message: string }[] {
+  const relevant = errors.filter(
+    (error) =>
+      !COMBINATOR_KEYWORDS.has(error.keyword) &&
+      !isReferenceAlternative(error, errors)
+  );
+
+  const seen = new Set<string>();
+  const result: { pointer: string; message: string }[] = [];
+  for (const error of relevant) {
+    const diagnostic = toDiagnostic(error);
+    const key = `${diagnostic.pointer}|${diagnostic.message}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      result.push(diagnostic);
+    }
+  }
+  return result;
+}
+
+function toDiagnostic(error: ErrorObject): {
+  pointer: string;
+  message: string;
+} {
+  const params = error.params as Record<string, unknown>;
+  switch (error.keyword) {
+    case 'required':
+      return {
+        pointer: error.instancePath,
+        message: `Missing required property '${params['missingProperty']}'`,
+      };
+    case 'additionalProperties':
+      return {
+        pointer: compileJsonPointer([
+          ...parseJsonPointer(error.instancePath),
+          String(params['additionalProperty']),
+        ]),
+        message: `Property '${params['additionalProperty']}' is not allowed`,
+      };
+    case 'enum':
+      return {
+        pointer: error.instancePath,
+        message: `Must be one of: ${(params['allowedValues'] as unknown[])
+          .map((v) => JSON.stringify(v))
+          .join(', ')}`,
+      };
+    default:
+      return {
+        pointer: error.instancePath,
+        message: error.message
+          ? error.message.charAt(0).toUpperCase() + error.message.slice(1)
+          : `Failed '${error.keyword}' check`,
+      };
+  }
+}
+
+/**
+ * Errors caused by trying to match a value against the Reference Object
+ * alternative are noise when the value has other, more specific errors.
+ */
+function isReferenceAlternative(
+  error: ErrorObject,
+  errors: ErrorObject[]
+): boolean {
+  if (
+    error.keyword !== 'required' ||
+    (error.params as Record<string, unknown>)['missingProperty'] !== '$ref'
+  ) {
+    return false;
+  }
+  return errors.some(
+    (other) =>
+      other !== error &&
+      !COMBINATOR_KEYWORDS.has(other.keyword) &&
+      !(
+        other.keyword === 'required' &&
+        (other.params as Record<string, unknown>)['missingProperty'] === '$ref'
+      ) &&
+      (other.instancePath === error.instancePath ||
+        other.instancePath.startsWith(`${error.instancePath}/`))
+  );
+}
@@ -1,6 +1,7 @@
 import { 
   isGeneratorPlugin, 
   isValidInputSpec, 
+  isValidInputSpecOption,
   isValidGenerateOptions,
   assertValidPath 
 } from './type-guards';
@@ -94,6 +95,26 @@ describe('Type Guards', () => {
       expect(isValidInputSpec(spec)).toBe(false);
     });
 
+    it('should return true for service entries with own settings', () => {
+      const spec = {
+        service1: 'path/to/spec1.yaml',
+        service2: {
+          spec: 'path/to/spec2.yaml',
+          outputPath: 'client2',
+          generatorOptions: { apiNameSuffix: 'Client' },
+        },
+      };
+      expect(isValidInputSpec(spec)).toBe(true);
+    });
+
+    it('should return false for invalid service entries', () => {
+      expect(isValidInputSpec({ service1: { spec: '' } })).toBe(false);
+      expect(isValidInputSpec({ service1: { outputPath: 'out' } })).toBe(false);
+      expect(
+        isValidInputSpec({ service1: { spec: 'a.yaml', generatorOptions: [] } })
+      ).toBe(false);
+    });
+
     it('should return false for array', () => {
       expect(isValidInputSpec(['spec1', 'spec2'])).toBe(false);
     });
@@ -111,6 +132,30 @@ describe('Type Guards', () => {
     });
   });
 
+  describe('isValidInputSpecOption', () => {
+    it('should return true for spec references', () => {
+      const reference = { project: 'api', target: 'export', file: 'api.json' };
+      expect(isValidInputSpecOption(reference)).toBe(true);
+      expect(isValidInputSpecOption({ a: 'a.yaml', b: reference })).toBe(true);
+      expect(
+        isValidInputSpecOption({ a: { spec: reference, outputPath: 'a' } })
+      ).toBe(true);
+    });
+
+    it('should return false for invalid spec references', () => {
+      expect(isValidInputSpecOption({ a: { project: 'api' } })).toBe(false);
+      expect(
+        isValidInputSpecOption({ a: { project: 'api', file: 'api.json', x: 1 } })
+      ).toBe(false);
+    });
+
+    it('should not accept spec references as isValidInputSpec', () => {
+      const reference = { project: 'api', file: 'api.json' };
+      expect(isValidInputSpec(reference)).toBe(false);
+      expect(isValidInputSpec({ a: reference })).toBe(false);
+    });
+  });
+
   describe('isValidGenerateOptions', () => {
     it('should return true for valid options with string inputSpec', () => {
       const options: GenerateOptionsBase = {
@@ -1,4 +1,12 @@
-import { GenerateOptionsBase, GeneratorPlugin, InputSpec } from './interfaces';
+import {
+  GenerateOptionsBase,
+  GeneratorPlugin,
+  InputSpec,
+  InputSpecOption,
+  InputSpecService,
+  LintRule,
+  SpecReference,
+} from './interfaces';
 
 export function isGeneratorPlugin(obj: unknown): obj is GeneratorPlugin {
   return (
@@ -11,10 +19,76 @@ export function isGeneratorPlugin(obj: unknown): obj is GeneratorPlugin {
   );
 }
 
+export function isLintRule(obj: unknown): obj is LintRule {
+  if (!obj || typeof obj !== 'object') {
+    return false;
+  }
+  const { given, then } = obj as LintRule;
+  return (
+    (typeof given === 'string' ||
+      (Array.isArray(given) && given.every((g) => typeof g === 'string'))) &&
+    typeof then === 'function'
+  );
+}
+
+/**
+ * An object with exactly `project`, `file` and optionally `target` is a spec
+ * reference, also where a service map would be allowed.
+ */
+export function isSpecReference(obj: unknown): obj is SpecReference {
+  if (!obj || typeof obj !== 'object' || Array.isArray(obj)) {
+    return false;
+  }
+  const { project, target, file, ...rest } = obj as SpecReference;
+  return (
+    typeof project === 'string' &&
+    project.length > 0 &&
+    typeof file === 'string' &&
+    file.length > 0 &&
+    (target === undefined ||
+      (typeof target === 'string' && target.length > 0)) &&
+    Object.keys(rest).length === 0
+  );
+}
+
+export function isInputSpecService(
+  obj: unknown
+): obj is InputSpecService<string | SpecReference> {
+  if (!obj || typeof obj !== 'object' || Array.isArray(obj)) {
+    return false;
+  }
+  const { spec, outputPath, generatorOptions } = obj as InputSpecService<
+    string | SpecReference
+  >;
+  return (
+    ((typeof spec === 'string' && spec.length > 0) || isSpecReference(spec)) &&
+    (outputPath === undefined ||
+      (typeof outputPath === 'string' && outputPath.length > 0)) &&
+    (generatorOptions === undefined ||
+      (typeof generatorOptions === 'object' &&
+        generatorOptions !== null &&
+        !Array.isArray(generatorOptions)))
+  );
+}
+
 export function isValidInputSpec(spec: unknown): spec is InputSpec {
+  return (
+    isValidInputSpecOption(spec) &&
+    getSpecs(spec).every((s) => typeof s === 'string')
+  );
+}
+
+/**
+ * Like `isValidInputSpec`, but specs can also be references to other
+ * projects.
+ */
+export function isValidInputSpecOption(spec: unknown): spec is InputSpecOption {
   if (typeof spec === 'string') {
     return spec.length > 0;
   }
+  if (isSpecReference(spec)) {
+    return true;
+  }
 
   if (spec && typeof spec === 'object' && !Array.isArray(spec)) {
     const entries = Object.entries(spec);
@@ -23,9 +97,10 @@ export function isValidInputSpec(spec: unknown): spec is InputSpec {
       entries.every(
         ([key, value]) =>
           typeof key === 'string' &&
-          typeof value === 'string' &&
           key.length > 0 &&
-          value.length > 0
+          ((typeof value === 'string' && value.length > 0) ||
+            isSpecReference(value) ||
+            isInputSpecService(value))
       )
     );
   }
@@ -33,6 +108,15 @@ export function isValidInputSpec(spec: unknown): spec is InputSpec {
   return false;
 }
 
+function getSpecs(spec: InputSpecOption): Array<string | SpecReference> {
+  if (typeof spec === 'string' || isSpecReference(spec)) {
+    return [spec];
+  }
+  return Object.values(spec).map((value) =>
+    typeof value === 'string' || isSpecReference(value) ? value : value.spec
+  );
+}
+
 export function isValidGenerateOptions(
   options: unknown
 ): options is GenerateOptionsBase {
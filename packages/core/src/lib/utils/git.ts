@@ -0,0 +1,52 @@
+import { execFileSync } from 'node:child_process';
+import { relative, sep } from 'node:path';
+import { FileSystemError } from '../errors';
+
+// Relative to the workspace root, which is the working directory of git and
+// can be a subdirectory of the repository
+function toGitPath(root: string, path: string): string {
+  return `./${relative(root, path).split(sep).join('/')}`;
+}
+
+/**
+ * Whether a file exists at the given git revision.
+ */
+export function gitFileExists(
+  root: string,
+  ref: string,
+  path: string
+): boolean {
+  try {
+    execFileSync('git', ['cat-file', '-e', `${ref}:${toGitPath(root, path)}`], {
+      cwd: root,
+      stdio: 'ignore',
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads a file as it was at the given git revision.
+ */
+export function readGitFile(root: string, ref: string, path: string): string {
+  try {
+    return execFileSync('git', ['show', `${ref}:${toGitPath(root, path)}`], {
+      cwd: root,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      maxBuffer: 64 * 1024 * 1024,
+    });
+  } catch (e) {
+    const stderr = (e as { stderr?: string }).stderr?.trim();
+    throw new FileSystemError(
+      `Could not read file at git revision '${ref}'${
+        stderr ? `: ${stderr}` : ''
+      }`,
+      path,
+      'read',
+      e
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { ConfigurationError } from '../errors';
+import { importWorkspaceFile } from './import-file';
+
+jest.mock('nx/src/plugins/js/utils/register', () => {
+  throw new Error("Cannot find module 'nx/src/plugins/js/utils/register'");
+});
+
+describe('importWorkspaceFile', () => {
+  it('should name the file if the TypeScript support of nx is missing', async () => {
+    const result = importWorkspaceFile('/ws/tools/transform.ts', '/ws');
+
+    await expect(result).rejects.toThrow(ConfigurationError);
+    await expect(result).rejects.toThrow('/ws/tools/transform.ts');
+  });
+});
@@ -0,0 +1,51 @@
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { ConfigurationError } from '../errors';
+
+/**
+ * Imports a workspace file. TypeScript files are transpiled on the fly, like
+ * Nx does for local plugins.
+ */
+export async function importWorkspaceFile<T>(
+  path: string,
+  root: string
+): Promise<T> {
+  if (!/\.[cm]?ts$/.test(path)) {
+    return import(path);
+  }
+
+  const registerTsProject = await loadTsRegistration(path);
+  const tsConfig = ['tsconfig.base.json', 'tsconfig.json']
+    .map((file) => join(root, file))
+    .find((file) => existsSync(file));
+  const unregister = tsConfig ? registerTsProject(tsConfig) : undefined;
+  try {
+    return await import(path);
+  } finally {
+    unregister?.();
+  }
+}
+
+// Not part of the public API of nx, which is a peer dependency
+async function loadTsRegistration(
+  path: string
+): Promise<(tsConfigPath: string) => () => void> {
+  let registerTsProject: unknown;
+  try {
+    ({ registerTsProject } = await import('nx/src/plugins/js/utils/register'));
+  } catch (e) {
+    throw new ConfigurationError(
+      `TypeScript files require the TypeScript support of nx, which could not be loaded: ${
+        e instanceof Error ? e.message : e
+      }`,
+      path
+    );
+  }
+  if (typeof registerTsProject !== 'function') {
+    throw new ConfigurationError(
+      'TypeScript files require the TypeScript support of nx, which the installed nx version does not provide. Use a JavaScript file instead.',
+      path
+    );
+  }
+  return registerTsProject as (tsConfigPath: string) => () => void;
+}
@@ -131,6 +131,49 @@ describe('Validation', () => {
         expect(result.valid).toBe(false);
         expect(result.errors.some(e => e.field === 'inputSpec')).toBe(true);
       });
+
+      it('should pass for service entries with own settings', () => {
+        const options = {
+          inputSpec: {
+            users: 'users.yaml',
+            orders: {
+              spec: 'orders.yaml',
+              outputPath: 'orders-client',
+              generatorOptions: { apiNameSuffix: 'Client' },
+            },
+          },
+          outputPath: 'src/generated',
+        };
+
+        const result = validator.validate(options);
+
+        expect(result.valid).toBe(true);
+      });
+
+      it('should fail for service entries without spec', () => {
+        const options = {
+          inputSpec: { orders: { outputPath: 'orders' } },
+          outputPath: 'src/generated',
+        };
+
+        const result = validator.validate(options);
+
+        expect(result.valid).toBe(false);
+        expect(result.errors[0].field).toBe('inputSpec');
+      });
+
+      it('should fail for dangerous service output paths', () => {
+        const options = {
+          inputSpec: { orders: { spec: 'orders.yaml', outputPath: '../orders' } },
+          outputPath: 'src/generated',
+        };
+
+        const result = validator.validate(options);
+
+        expect(result.valid).toBe(false);
+        expect(result.errors[0]).toBeInstanceOf(InvalidPathError);
+        expect(result.errors[0].message).toContain('inputSpec.orders.outputPath');
+      });
     });
 
     describe('outputPath validation', () => {
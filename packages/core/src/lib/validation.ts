@@ -1,6 +1,6 @@
 // Core validation utilities
 import { ValidationError, InvalidPathError } from './errors';
-import { isValidInputSpec, assertValidPath } from './type-guards';
+import { isValidInputSpecOption, assertValidPath, isInputSpecService } from './type-guards';
 import { logger } from '@nx/devkit';
 
 export interface ValidationResult {
@@ -36,7 +36,7 @@ export class OptionsValidator {
   }
 
   private validateInputSpec(value: unknown): void {
-    if (!isValidInputSpec(value)) {
+    if (!isValidInputSpecOption(value)) {
       if (value === undefined || value === null) {
         this.addError('inputSpec is required', 'inputSpec', value);
       } else if (typeof value === 'string' && value.length === 0) {
@@ -45,11 +45,31 @@ export class OptionsValidator {
         this.addError('inputSpec object cannot be empty', 'inputSpec', value);
       } else {
         this.addError(
-          'inputSpec must be a non-empty string or an object with string values',
+          'inputSpec must be a non-empty string, a { project, target?, file } reference or an object with string, reference or { spec, outputPath?, generatorOptions? } values',
           'inputSpec',
           value
         );
       }
+      return;
+    }
+
+    if (typeof value === 'object') {
+      for (const [name, entry] of Object.entries(value)) {
+        if (isInputSpecService(entry) && entry.outputPath !== undefined) {
+          this.validateServiceOutputPath(name, entry.outputPath);
+        }
+      }
+    }
+  }
+
+  private validateServiceOutputPath(name: string, value: string): void {
+    const field = `inputSpec.${name}.outputPath`;
+    try {
+      assertValidPath(value, field);
+    } catch (error) {
+      if (error instanceof Error) {
+        this.errors.push(new InvalidPathError(value, error.message));
+      }
     }
   }
 
@@ -0,0 +1,439 @@
+import {
+  CreateDependenciesContext,
+  CreateNodesContextV2,
+  DependencyType,
+} from '@nx/devkit';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { createDependencies, createNodesV2 } from './plugin';
+
+describe('createNodesV2', () => {
+  const [pattern, createNodesFunction] = createNodesV2;
+  let workspaceRoot: string;
+  let context: CreateNodesContextV2;
+
+  function writeFile(path: string, content: unknown) {
+    const fullPath = join(workspaceRoot, path);
+    mkdirSync(dirname(fullPath), { recursive: true });
+    writeFileSync(
+      fullPath,
+      typeof content === 'string' ? content : JSON.stringify(content)
+    );
+  }
+
+  beforeEach(() => {
+    workspaceRoot = mkdtempSync(join(tmpdir(), 'core-plugin-'));
+    context = {
+      nxJsonConfiguration: {},
+      workspaceRoot,
+    };
+  });
+
+  afterEach(() => {
+    rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('should match config files and spec files', () => {
+    expect(pattern).toContain('openapi.config.json');
+    expect(pattern).toContain('*.openapi.{json,yaml,yml}');
+    expect(pattern).toContain('project.json');
+  });
+
+  it('should infer a target from openapi.config.json', async () => {
+    writeFile('apps/web/project.json', { name: 'web' });
+    writeFile('apps/web/openapi.config.json', {
+      generator: 'hey-api',
+      inputSpec: 'apps/web/api.yaml',
+      outputPath: 'apps/web/src/api',
+      generatorOptions: { client: 'fetch' },
+    });
+
+    const results = await createNodesFunction(
+      ['apps/web/openapi.config.json'],
+      undefined,
+      context
+    );
+
+    expect(results).toHaveLength(1);
+    const [file, result] = results[0];
+    expect(file).toBe('apps/web/openapi.config.json');
+    expect(result.projects?.['apps/web']?.targets?.['generate-api']).toEqual({
+      executor: '@nx-plugin-openapi/core:generate-api',
+      options: {
+        generator: 'hey-api',
+        inputSpec: 'apps/web/api.yaml',
+        outputPath: 'apps/web/src/api',
+        generatorOptions: { client: 'fetch' },
+      },
+      cache: true,
+      inputs: ['{projectRoot}/openapi.config.json', '{projectRoot}/api.yaml'],
+      outputs: ['{options.outputPath}'],
+      metadata: expect.objectContaining({ technologies: ['openapi'] }),
+    });
+  });
+
+  it('should add config and template inputs for openapi-tools', async () => {
+    writeFile('apps/web/project.json', { name: 'web' });
+    writeFile('apps/web/openapi.config.json', {
+      inputSpec: {
+        users: 'specs/users.json',
+        remote: 'https://example.com/openapi.json',
+      },
+      outputPath: 'apps/web/src/api',
+      generatorOptions: {
+        configFile: 'apps/web/openapi-config.json',
+        templateDirectory: 'tools/templates',
+      },
+    });
+
+    const results = await createNodesFunction(
+      ['apps/web/openapi.config.json'],
+      {},
+      context
+    );
+
+    const target = results[0][1].projects?.['apps/web']?.targets?.[
+      'generate-api'
+    ];
+    expect(target?.inputs).toEqual([
+      '{projectRoot}/openapi.config.json',
+      '{workspaceRoot}/specs/users.json',
+      '{projectRoot}/openapi-config.json',
+      '{workspaceRoot}/tools/templates/**/*',
+      '{workspaceRoot}/openapitools.json',
+    ]);
+  });
+
+  it('should add files referenced via $ref as inputs', async () => {
+    writeFile('apps/web/project.json', { name: 'web' });
+    writeFile(
+      'apps/web/api.openapi.yaml',
+      [
+        'paths:',
+        '  /users:',
+        "    $ref: 'paths/users.yaml'",
+        '  /shared:',
+        "    $ref: '../../specs/shared.yaml'",
+        '  /remote:',
+        "    $ref: 'https://example.com/remote.yaml'",
+      ].join('\n')
+    );
+    writeFile('apps/web/paths/users.yaml', 'get: {}');
+    writeFile('specs/shared.yaml', 'get: {}');
+
+    const results = await createNodesFunction(
+      ['apps/web/api.openapi.yaml'],
+      undefined,
+      context
+    );
+
+    const target = results[0][1].projects?.['apps/web']?.targets?.[
+      'generate-api'
+    ];
+    expect(target?.inputs).toEqual([
+      '{projectRoot}/api.openapi.yaml',
+      '{projectRoot}/paths/users.yaml',
+      '{workspaceRoot}/specs/shared.yaml',
+      '{workspaceRoot}/openapitools.json',
+    ]);
+  });
+
+  it('should infer a single spec from a *.openapi.yaml file', async () => {
+    writeFile('libs/client/project.json', { name: 'client' });
+    writeFile('libs/client/petstore.openapi.yaml', 'openapi: 3.0.0');
+
+    const results = await createNodesFunction(
+      ['libs/client/petstore.openapi.yaml'],
+      { outputPath: 'src/api' },
+      context
+    );
+
+    const target = results[0][1].projects?.['libs/client']?.targets?.[
+      'generate-api'
+    ];
+    expect(target?.options).toEqual({
+      generator: 'openapi-tools',
+      inputSpec: 'libs/client/petstore.openapi.yaml',
+      outputPath: 'libs/client/src/api',
+    });
+    expect(target?.inputs).toContain('{projectRoot}/petstore.openapi.yaml');
+  });
+
+  it('should create one target per project for multiple spec files', async () => {
+    writeFile('libs/client/project.json', { name: 'client' });
+    writeFile('libs/client/users.openapi.json', '{}');
+    writeFile('libs/client/orders.openapi.yml', 'openapi: 3.0.0');
+
+    const results = await createNodesFunction(
+      ['libs/client/users.openapi.json', 'libs/client/orders.openapi.yml'],
+      undefined,
+      context
+    );
+
+    expect(results).toHaveLength(1);
+    const target = results[0][1].projects?.['libs/client']?.targets?.[
+      'generate-api'
+    ];
+    expect(target?.options?.inputSpec).toEqual({
+      orders: 'libs/client/orders.openapi.yml',
+      users: 'libs/client/users.openapi.json',
+    });
+  });
+
+  it('should prefer openapi.config.json over spec files in the same project', async () => {
+    writeFile('libs/client/project.json', { name: 'client' });
+    writeFile('libs/client/users.openapi.json', '{}');
+    writeFile('libs/client/openapi.config.json', {
+      inputSpec: 'libs/client/users.openapi.json',
+      outputPath: 'libs/client/generated',
+    });
+
+    const results = await createNodesFunction(
+      ['libs/client/users.openapi.json', 'libs/client/openapi.config.json'],
+      undefined,
+      context
+    );
+
+    expect(results).toHaveLength(1);
+    expect(results[0][0]).toBe('libs/client/openapi.config.json');
+  });
+
+  it('should make an existing build target depend on the inferred target', async () => {
+    writeFile('apps/web/project.json', {
+      name: 'web',
+      targets: { build: { executor: 'nx:noop' } },
+    });
+    writeFile('apps/web/api.openapi.json', '{}');
+
+    const results = await createNodesFunction(
+      ['apps/web/api.openapi.json'],
+      { targetName: 'codegen' },
+      context
+    );
+
+    const targets = results[0][1].projects?.['apps/web']?.targets;
+    expect(targets?.['codegen']).toBeDefined();
+    expect(targets?.['build']).toEqual({ dependsOn: ['codegen'] });
+  });
+
+  it('should not add a build target when the project has none', async () => {
+    writeFile('apps/web/project.json', { name: 'web' });
+    writeFile('apps/web/api.openapi.json', '{}');
+
+    const results = await createNodesFunction(
+      ['apps/web/api.openapi.json'],
+      undefined,
+      context
+    );
+
+    expect(results[0][1].projects?.['apps/web']?.targets?.['build']).toBeUndefined();
+  });
+
+  it('should ignore marker files outside of projects', async () => {
+    writeFile('specs/api.openapi.json', '{}');
+
+    const results = await createNodesFunction(
+      ['specs/api.openapi.json'],
+      undefined,
+      context
+    );
+
+    expect(results[0][1]).toEqual({});
+  });
+
+  it('should make inferred targets depend on targets producing referenced specs', async () => {
+    writeFile('apps/web/project.json', { name: 'web' });
+    writeFile('apps/web/openapi.config.json', {
+      inputSpec: {
+        project: 'backend',
+        target: 'export-spec',
+        file: 'api.json',
+      },
+      outputPath: 'apps/web/src/api',
+    });
+
+    const results = await createNodesFunction(
+      ['apps/web/openapi.config.json'],
+      undefined,
+      context
+    );
+
+    const target = results[0][1].projects?.['apps/web']?.targets?.[
+      'generate-api'
+    ];
+    expect(target?.dependsOn).toEqual([
+      { projects: ['backend'], target: 'export-spec' },
+    ]);
+    expect(target?.inputs).toEqual([
+      '{projectRoot}/openapi.config.json',
+      '{workspaceRoot}/openapitools.json',
+      { dependentTasksOutputFiles: '**/api.json', transitive: false },
+    ]);
+  });
+
+  it('should add dependencies of spec references to targets in project.json', async () => {
+    writeFile('apps/web/project.json', {
+      name: 'web',
+      targets: {
+        'generate-api': {
+          executor: '@nx-plugin-openapi/core:generate-api',
+          options: {
+            inputSpec: {
+              orders: { project: 'orders', target: 'export', file: 'api.json' },
+              users: { project: 'users', file: 'users.yaml' },
+            },
+            outputPath: 'apps/web/src/api',
+          },
+        },
+        build: { executor: 'nx:noop' },
+      },
+    });
+
+    const results = await createNodesFunction(
+      ['apps/web/project.json'],
+      undefined,
+      context
+    );
+
+    expect(results).toEqual([
+      [
+        'apps/web/project.json',
+        {
+          projects: {
+            'apps/web': {
+              targets: {
+                'generate-api': {
+                  executor: '@nx-plugin-openapi/core:generate-api',
+                  dependsOn: [{ projects: ['orders'], target: 'export' }],
+                  inputs: [
+                    'default',
+                    '^default',
+                    {
+                      dependentTasksOutputFiles: '**/api.json',
+                      transitive: false,
+                    },
+                  ],
+                },
+              },
+            },
+          },
+        },
+      ],
+    ]);
+  });
+
+  it('should cache the output of export-spec targets', async () => {
+    writeFile('apps/backend/project.json', {
+      name: 'backend',
+      targets: {
+        'export-spec': {
+          executor: '@nx-plugin-openapi/core:export-spec',
+          options: {
+            entry: 'apps/backend/export.js',
+            outputFile: 'dist/api.json',
+          },
+        },
+      },
+    });
+
+    const results = await createNodesFunction(
+      ['apps/backend/project.json'],
+      undefined,
+      context
+    );
+
+    expect(
+      results[0][1].projects?.['apps/backend']?.targets?.['export-spec']
+    ).toEqual({
+      executor: '@nx-plugin-openapi/core:export-spec',
+      cache: true,
+      inputs: ['default', '^default'],
+      outputs: ['{options.outputFile}'],
+    });
+  });
+
+  it('should ignore project.json files without spec references', async () => {
+    writeFile('apps/web/project.json', {
+      name: 'web',
+      targets: {
+        'generate-api': {
+          executor: '@nx-plugin-openapi/core:generate-api',
+          options: { inputSpec: 'apps/web/api.yaml', outputPath: 'out' },
+        },
+      },
+    });
+
+    const results = await createNodesFunction(
+      ['apps/web/project.json'],
+      undefined,
+      context
+    );
+
+    expect(results).toEqual([['apps/web/project.json', {}]]);
+  });
+
+  it('should fail for invalid openapi.config.json', async () => {
+    writeFile('apps/web/project.json', { name: 'web' });
+    writeFile('apps/web/openapi.config.json', { outputPath: 'out' });
+
+    await expect(
+      createNodesFunction(['apps/web/openapi.config.json'], undefined, context)
+    ).rejects.toMatchObject({
+      errors: [
+        [
+          'apps/web/openapi.config.json',
+          expect.objectContaining({
+            message: expect.stringContaining('inputSpec is required'),
+          }),
+        ],
+      ],
+    });
+  });
+});
+
+describe('createDependencies', () => {
+  function createContext(
+    targets: Record<string, unknown>
+  ): CreateDependenciesContext {
+    return {
+      projects: {
+        web: { root: 'apps/web', targets },
+        backend: { root: 'apps/backend' },
+      },
+    } as unknown as CreateDependenciesContext;
+  }
+
+  it('should add edges to projects whose specs are referenced', () => {
+    const context = createContext({
+      'generate-api': {
+        executor: '@nx-plugin-openapi/core:generate-api',
+        options: {
+          inputSpec: {
+            a: { project: 'backend', target: 'export', file: 'a.json' },
+            b: { spec: { project: 'backend', file: 'b.json' } },
+          },
+        },
+      },
+    });
+
+    expect(createDependencies(undefined, context)).toEqual([
+      { source: 'web', target: 'backend', type: DependencyType.implicit },
+    ]);
+  });
+
+  it('should ignore unknown projects and other executors', () => {
+    const context = createContext({
+      'generate-api': {
+        executor: '@nx-plugin-openapi/core:generate-api',
+        options: { inputSpec: { project: 'missing', file: 'api.json' } },
+      },
+      other: {
+        executor: 'nx:run-commands',
+        options: { inputSpec: { project: 'backend', file: 'api.json' } },
+      },
+    });
+
+    expect(createDependencies(undefined, context)).toEqual([]);
+  });
+});
@@ -0,0 +1,419 @@
+import {
+  CreateDependencies,
+  CreateNodesContextV2,
+  createNodesFromFiles,
+  CreateNodesResult,
+  CreateNodesV2,
+  DependencyType,
+  normalizePath,
+  RawProjectGraphDependency,
+  readJsonFile,
+  TargetConfiguration,
+  TargetDependencyConfig,
+} from '@nx/devkit';
+import { existsSync } from 'node:fs';
+import { basename, dirname, join, relative } from 'node:path';
+import { CoreGenerateApiExecutorSchema } from '../executors/generate-api/schema';
+import { ConfigurationError } from '../lib/errors';
+import { InputSpec, SpecReference } from '../lib/interfaces';
+import { getInputSpecEntries, isRemoteSpec } from '../lib/input-spec';
+import { resolveSpecDependencies } from '../lib/spec-dependencies';
+import { getSpecReferences } from '../lib/spec-reference';
+import { OptionsValidator } from '../lib/validation';
+
+export interface OpenApiPluginOptions {
+  /**
+   * Name of the inferred target. Defaults to `generate-api`.
+   */
+  targetName?: string;
+  /**
+   * Name of the project's build target that should depend on the inferred
+   * target. Defaults to `build`.
+   */
+  buildTargetName?: string;
+  /**
+   * Generator plugin used for projects that only provide `*.openapi.*` files.
+   * Defaults to `openapi-tools`.
+   */
+  generator?: string;
+  /**
+   * Output path (relative to the project root) used for projects that only
+   * provide `*.openapi.*` files. Defaults to `src/generated/api`.
+   */
+  outputPath?: string;
+}
+
+export const OPENAPI_CONFIG_FILE = 'openapi.config.json';
+
+const SPEC_FILE_SUFFIX = /\.openapi\.(json|ya?ml)$/;
+const PROJECT_FILES = ['project.json', 'package.json'];
+type InputDefinition = Exclude<
+  NonNullable<TargetConfiguration['inputs']>[number],
+  string
+>;
+
+// Executors whose inputSpec can reference specs of other projects
+const SPEC_EXECUTORS = [
+  'generate-api',
+  'validate-spec',
+  'diff-spec',
+  'refresh-specs',
+].map((name) => `@nx-plugin-openapi/core:${name}`);
+const EXPORT_SPEC_EXECUTOR = '@nx-plugin-openapi/core:export-spec';
+
+export const createNodesV2: CreateNodesV2<OpenApiPluginOptions> = [
+  `**/{${OPENAPI_CONFIG_FILE},*.openapi.{json,yaml,yml},project.json}`,
+  async (configFiles, options, context) => {
+    const projectFiles = configFiles.filter(
+      (f) => basename(f) === 'project.json'
+    );
+
+    // Several marker files may live in the same project, but each project
+    // should only get one inferred target. Group them by directory and let
+    // a single file represent the project.
+    const markersByDir = new Map<string, string[]>();
+    for (const file of configFiles) {
+      if (basename(file) === 'project.json') continue;
+      const dir = dirname(file);
+      markersByDir.set(dir, [...(markersByDir.get(dir) ?? []), file]);
+    }
+
+    const primaryFiles = Array.from(markersByDir.values()).map(
+      (files) =>
+        files.find((f) => basename(f) === OPENAPI_CONFIG_FILE) ?? files[0]
+    );
+
+    return [
+      ...(await createNodesFromFiles(
+        (file, opts, ctx) =>
+          createNodesInternal(
+            file,
+            markersByDir.get(dirname(file)) ?? [file],
+            normalizeOptions(opts),
+            ctx
+          ),
+        primaryFiles,
+        options,
+        context
+      )),
+      ...(await createNodesFromFiles(
+        (file, _opts, ctx) => createProjectJsonNodes(file, ctx),
+        projectFiles,
+        options,
+        context
+      )),
+    ];
+  },
+];
+
+/**
+ * Adds a graph edge from every project to the projects whose specs its
+ * targets reference.
+ */
+export const createDependencies: CreateDependencies<OpenApiPluginOptions> = (
+  _options,
+  context
+) => {
+  const dependencies = new Map<string, RawProjectGraphDependency>();
+  for (const [source, project] of Object.entries(context.projects)) {
+    for (const target of Object.values(project.targets ?? {})) {
+      if (!SPEC_EXECUTORS.includes(target.executor ?? '')) continue;
+      for (const { project: dependency } of getSpecReferences(
+        target.options?.inputSpec
+      )) {
+        if (dependency === source || !context.projects[dependency]) continue;
+        dependencies.set(`${source}:${dependency}`, {
+          source,
+          target: dependency,
+          type: DependencyType.implicit,
+        });
+      }
+    }
+  }
+  return Array.from(dependencies.values());
+};
+
+/**
+ * Makes targets of project.json that reference specs of other projects
+ * depend on the targets producing them, and caches exported specs.
+ */
+function createProjectJsonNodes(
+  file: string,
+  context: CreateNodesContextV2
+): CreateNodesResult {
+  let json: { targets?: Record<string, TargetConfiguration> };
+  try {
+    json = readJsonFile(join(context.workspaceRoot, file));
+  } catch {
+    return {};
+  }
+
+  const targets: Record<string, TargetConfiguration> = {};
+  for (const [name, target] of Object.entries(json.targets ?? {})) {
+    if (target.executor === EXPORT_SPEC_EXECUTOR) {
+      targets[name] = {
+        executor: target.executor,
+        cache: true,
+        inputs: ['default', '^default'],
+        outputs: ['{options.outputFile}'],
+      };
+      continue;
+    }
+    if (!target.executor || !SPEC_EXECUTORS.includes(target.executor)) {
+      continue;
+    }
+    const { dependsOn, inputs } = getSpecReferenceTargetConfiguration(
+      target.options?.inputSpec
+    );
+    if (dependsOn.length > 0) {
+      targets[name] = {
+        executor: target.executor,
+        dependsOn,
+        inputs: ['default', '^default', ...inputs],
+      };
+    }
+  }
+
+  if (Object.keys(targets).length === 0) {
+    return {};
+  }
+  return { projects: { [dirname(file)]: { targets } } };
+}
+
+/**
+ * Task dependencies and inputs for the referenced specs that are produced by
+ * targets of other projects.
+ */
+function getSpecReferenceTargetConfiguration(inputSpec: unknown): {
+  dependsOn: TargetDependencyConfig[];
+  inputs: InputDefinition[];
+} {
+  const dependsOn = new Map<string, TargetDependencyConfig>();
+  const inputs = new Map<string, InputDefinition>();
+  for (const { project, target, file } of getSpecReferences(inputSpec)) {
+    if (!target) continue;
+    dependsOn.set(`${project}:${target}`, { projects: [project], target });
+    const pattern = `**/${normalizePath(file).replace(/^\.\//, '')}`;
+    inputs.set(pattern, {
+      dependentTasksOutputFiles: pattern,
+      transitive: false,
+    });
+  }
+  return {
+    dependsOn: Array.from(dependsOn.values()),
+    inputs: Array.from(inputs.values()),
+  };
+}
+
+function normalizeOptions(
+  options: OpenApiPluginOptions | undefined
+): Required<OpenApiPluginOptions> {
+  return {
+    targetName: options?.targetName ?? 'generate-api',
+    buildTargetName: options?.buildTargetName ?? 'build',
+    generator: options?.generator ?? 'openapi-tools',
+    outputPath: options?.outputPath ?? 'src/generated/api',
+  };
+}
+
+async function createNodesInternal(
+  file: string,
+  markers: string[],
+  options: Required<OpenApiPluginOptions>,
+  context: CreateNodesContextV2
+): Promise<CreateNodesResult> {
+  const projectRoot = dirname(file);
+
+  // Only infer targets for directories that are actual projects
+  const projectFile = PROJECT_FILES.find((f) =>
+    existsSync(join(context.workspaceRoot, projectRoot, f))
+  );
+  if (!projectFile) {
+    return {};
+  }
+
+  const executorOptions =
+    basename(file) === OPENAPI_CONFIG_FILE
+      ? readConfigFile(file, context)
+      : inferOptionsFromSpecFiles(projectRoot, markers, options);
+
+  const targets: Record<string, TargetConfiguration> = {
+    [options.targetName]: await buildGenerateApiTarget(
+      projectRoot,
+      file,
+      executorOptions,
+      context
+    ),
+  };
+
+  if (hasTarget(context, projectRoot, projectFile, options.buildTargetName)) {
+    targets[options.buildTargetName] = {
+      dependsOn: [options.targetName],
+    };
+  }
+
+  return {
+    projects: {
+      [projectRoot]: {
+        targets,
+      },
+    },
+  };
+}
+
+function readConfigFile(
+  file: string,
+  context: CreateNodesContextV2
+): CoreGenerateApiExecutorSchema {
+  let config: unknown;
+  try {
+    config = readJsonFile(join(context.workspaceRoot, file));
+  } catch (e) {
+    throw new ConfigurationError(
+      e instanceof Error ? e.message : String(e),
+      file
+    );
+  }
+
+  const result = new OptionsValidator().validate(config);
+  if (!result.valid) {
+    throw new ConfigurationError(
+      result.errors.map((e) => e.message).join('; '),
+      file
+    );
+  }
+
+  return config as CoreGenerateApiExecutorSchema;
+}
+
+function inferOptionsFromSpecFiles(
+  projectRoot: string,
+  markers: string[],
+  options: Required<OpenApiPluginOptions>
+): CoreGenerateApiExecutorSchema {
+  const specFiles = markers
+    .filter((f) => SPEC_FILE_SUFFIX.test(f))
+    .sort((a, b) => a.localeCompare(b));
+
+  // A single spec keeps the plain string form, several specs are generated
+  // into one subdirectory per service (named after the file)
+  const inputSpec: InputSpec =
+    specFiles.length === 1
+      ? specFiles[0]
+      : Object.fromEntries(
+          specFiles.map((f) => [basename(f).replace(SPEC_FILE_SUFFIX, ''), f])
+        );
+
+  return {
+    generator: options.generator,
+    inputSpec,
+    outputPath: join(projectRoot, options.outputPath),
+  };
+}
+
+async function buildGenerateApiTarget(
+  projectRoot: string,
+  markerFile: string,
+  options: CoreGenerateApiExecutorSchema,
+  context: CreateNodesContextV2
+): Promise<TargetConfiguration<CoreGenerateApiExecutorSchema>> {
+  const references = getSpecReferenceTargetConfiguration(options.inputSpec);
+  return {
+    executor: '@nx-plugin-openapi/core:generate-api',
+    options,
+    cache: true,
+    ...(references.dependsOn.length > 0
+      ? { dependsOn: references.dependsOn }
+      : {}),
+    inputs: [
+      ...(await getInputs(projectRoot, markerFile, options, context)),
+      ...references.inputs,
+    ],
+    outputs: ['{options.outputPath}'],
+    metadata: {
+      technologies: ['openapi'],
+      description: 'Generate API code from OpenAPI specifications',
+    },
+  };
+}
+
+async function getInputs(
+  projectRoot: string,
+  markerFile: string,
+  options: CoreGenerateApiExecutorSchema,
+  context: CreateNodesContextV2
+): Promise<string[]> {
+  const inputs = new Set<string>();
+
+  if (basename(markerFile) === OPENAPI_CONFIG_FILE) {
+    inputs.add(`{projectRoot}/${OPENAPI_CONFIG_FILE}`);
+  }
+
+  for (const { spec } of getInputSpecEntries<string | SpecReference>(
+    options.inputSpec
+  )) {
+    // Referenced specs are inputs of the tasks producing them
+    if (typeof spec !== 'string' || isRemoteSpec(spec)) continue;
+    inputs.add(toWorkspaceInput(projectRoot, spec));
+
+    // Files referenced through external $refs invalidate the cache as well
+    const { files } = await resolveSpecDependencies(spec, {
+      root: context.workspaceRoot,
+      followRemote: false,
+    });
+    for (const file of files) {
+      const path = normalizePath(relative(context.workspaceRoot, file));
+      if (!path.startsWith('..')) {
+        inputs.add(toWorkspaceInput(projectRoot, path));
+      }
+    }
+  }
+
+  const generatorOptions = options.generatorOptions ?? {};
+  const configFile = generatorOptions['configFile'];
+  if (typeof configFile === 'string' && configFile.length > 0) {
+    inputs.add(toWorkspaceInput(projectRoot, configFile));
+  }
+  const templateDirectory = generatorOptions['templateDirectory'];
+  if (typeof templateDirectory === 'string' && templateDirectory.length > 0) {
+    inputs.add(`${toWorkspaceInput(projectRoot, templateDirectory)}/**/*`);
+  }
+
+  for (const transform of options.transforms ?? []) {
+    if (transform.type !== 'filter') {
+      inputs.add(toWorkspaceInput(projectRoot, transform.path));
+    }
+  }
+
+  if ((options.generator ?? 'openapi-tools') === 'openapi-tools') {
+    inputs.add('{workspaceRoot}/openapitools.json');
+  }
+
+  return Array.from(inputs);
+}
+
+function toWorkspaceInput(projectRoot: string, path: string): string {
+  const normalized = path.replace(/^\.\//, '');
+  if (projectRoot !== '.' && normalized.startsWith(`${projectRoot}/`)) {
+    return `{projectRoot}/${normalized.slice(projectRoot.length + 1)}`;
+  }
+  return `{workspaceRoot}/${normalized}`;
+}
+
+function hasTarget(
+  context: CreateNodesContextV2,
+  projectRoot: string,
+  projectFile: string,
+  targetName: string
+): boolean {
+  try {
+    const json = readJsonFile(
+      join(context.workspaceRoot, projectRoot, projectFile)
+    );
+    const targets =
+      projectFile === 'package.json' ? json?.nx?.targets : json?.targets;
+    return Boolean(targets?.[targetName]);
+  } catch {
+    return false;
+  }
+}
@@ -34,8 +34,15 @@ jest.mock('../../generators/utils/log', () => ({
   log: mockLog,
 }));
 
+jest.mock('./utils/resolve-generator-cli', () => ({
+  resolveGeneratorCli: jest.fn(
+    () => 'node_modules/@openapitools/openapi-generator-cli/main.js'
+  ),
+}));
+
 // Import the executor after setting up mocks
 import executor from './executor';
+import { resolveGeneratorCli } from './utils/resolve-generator-cli';
 
 describe('GenerateApi Executor', () => {
   const baseContext: ExecutorContext = {
@@ -241,6 +248,24 @@ describe('GenerateApi Executor', () => {
       expect(mockLogger.error).toHaveBeenCalledWith(error);
     });
 
+    it('should fail if openapi-generator-cli is not installed', async () => {
+      const options: GenerateApiExecutorSchema = {
+        inputSpec: 'openapi.json',
+        outputPath: 'libs/api',
+      };
+
+      const error = new Error('@openapitools/openapi-generator-cli could not be found');
+      (resolveGeneratorCli as jest.Mock).mockImplementationOnce(() => {
+        throw error;
+      });
+
+      const result = await executor(options, baseContext);
+
+      expect(result.success).toBe(false);
+      expect(mockSpawn).not.toHaveBeenCalled();
+      expect(mockLogger.error).toHaveBeenCalledWith(error);
+    });
+
     it('should handle rmSync errors', async () => {
       const options: GenerateApiExecutorSchema = {
         inputSpec: 'openapi.json',
@@ -5,6 +5,7 @@ import { join } from 'path';
 import { GenerateApiExecutorSchema } from './schema';
 import { log } from '../../generators/utils/log';
 import { buildCommandArgs } from './utils/build-command';
+import { resolveGeneratorCli } from './utils/resolve-generator-cli';
 
 const runExecutor: PromiseExecutor<GenerateApiExecutorSchema> = async (
   options,
@@ -82,7 +83,7 @@ async function executeOpenApiGenerator(args: string[], context: ExecutorContext)
   return new Promise<void>((resolve, reject) => {
     const childProcess = spawn(
       'node',
-      ['node_modules/@openapitools/openapi-generator-cli/main.js', ...args],
+      [resolveGeneratorCli(context.root), ...args],
       {
         cwd: context.root,
         stdio: 'inherit',
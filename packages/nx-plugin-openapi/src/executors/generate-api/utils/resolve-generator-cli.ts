@@ -0,0 +1,15 @@
+const GENERATOR_CLI_MAIN = '@openapitools/openapi-generator-cli/main.js';
+
+/**
+ * Resolves the openapi-generator-cli entry script from the workspace root, so
+ * that it is also found with pnpm, Yarn PnP and nested workspaces.
+ */
+export function resolveGeneratorCli(root: string): string {
+  try {
+    return require.resolve(GENERATOR_CLI_MAIN, { paths: [root] });
+  } catch {
+    throw new Error(
+      `@openapitools/openapi-generator-cli could not be found from ${root}. Install it with "npm install -D @openapitools/openapi-generator-cli" (or your package manager's equivalent).`
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import { HeyApiGenerator } from './hey-api-generator';
-import { GeneratorContext } from '@nx-plugin-openapi/core';
+import {
+  GenerationCancelledError,
+  GeneratorContext,
+} from '@nx-plugin-openapi/core';
 
 jest.mock(
   '@hey-api/openapi-ts',
@@ -12,19 +15,25 @@ jest.mock(
 describe('HeyApiGenerator', () => {
   let generator: HeyApiGenerator;
   let mockContext: GeneratorContext;
-  let cleanOutputSpy: jest.SpyInstance;
+  let stagingSpy: jest.SpyInstance;
 
   beforeEach(() => {
     jest.clearAllMocks();
     generator = new HeyApiGenerator();
     mockContext = { root: '/workspace', workspaceName: 'test' };
-    // Spy on cleanOutput inherited from BaseGenerator
-    cleanOutputSpy = jest
+    // Generate directly into the output paths instead of staging directories
+    stagingSpy = jest
       .spyOn(
-        generator as unknown as { cleanOutput: (...a: unknown[]) => void },
-        'cleanOutput'
+        generator as unknown as {
+          generateStagedAll: (
+            ctx: GeneratorContext,
+            paths: string[],
+            generate: (stagingPaths: string[]) => Promise<unknown>
+          ) => Promise<unknown>;
+        },
+        'generateStagedAll'
       )
-      .mockImplementation(() => {});
+      .mockImplementation((_ctx, paths, generate) => generate(paths));
   });
 
   it('should have correct plugin name', () => {
@@ -45,7 +54,11 @@ describe('HeyApiGenerator', () => {
       mockContext
     );
 
-    expect(cleanOutputSpy).toHaveBeenCalledWith(mockContext, 'src/generated');
+    expect(stagingSpy).toHaveBeenCalledWith(
+      mockContext,
+      ['src/generated'],
+      expect.any(Function)
+    );
     expect(mod.generate).toHaveBeenCalledWith(
       expect.objectContaining({
         input: 'api.yaml',
@@ -68,7 +81,11 @@ describe('HeyApiGenerator', () => {
       mockContext
     );
 
-    expect(cleanOutputSpy).toHaveBeenCalledTimes(2);
+    expect(stagingSpy).toHaveBeenCalledWith(
+      mockContext,
+      ['src/api/users', 'src/api/products'],
+      expect.any(Function)
+    );
     expect(mod.generate).toHaveBeenCalledTimes(2);
     expect(mod.generate).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -83,4 +100,112 @@ describe('HeyApiGenerator', () => {
       })
     );
   });
+
+  it('should apply per-service settings', async () => {
+    const mod = (await import('@hey-api/openapi-ts')) as unknown as {
+      generate: jest.Mock;
+    };
+
+    await generator.generate(
+      {
+        inputSpec: {
+          users: 'users.yaml',
+          products: {
+            spec: 'products.yaml',
+            outputPath: 'catalog',
+            generatorOptions: { client: 'axios' },
+          },
+        },
+        outputPath: 'src/api',
+        generatorOptions: { client: 'fetch' },
+      } as unknown as Parameters<HeyApiGenerator['generate']>[0],
+      mockContext
+    );
+
+    expect(mod.generate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        input: 'users.yaml',
+        output: '/workspace/src/api/users',
+        client: 'fetch',
+      })
+    );
+    expect(mod.generate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        input: 'products.yaml',
+        output: '/workspace/src/api/catalog',
+        client: 'axios',
+      })
+    );
+  });
+
+  it('should always generate into the staging directory', async () => {
+    const mod = (await import('@hey-api/openapi-ts')) as unknown as {
+      generate: jest.Mock;
+    };
+
+    await generator.generate(
+      {
+        inputSpec: { users: 'users.yaml' },
+        outputPath: 'src/api',
+        generatorOptions: { output: 'libs/other' },
+      } as unknown as Parameters<HeyApiGenerator['generate']>[0],
+      mockContext
+    );
+
+    expect(mod.generate).toHaveBeenCalledWith(
+      expect.objectContaining({ output: '/workspace/src/api/users' })
+    );
+  });
+
+  it('should retry network failures only', async () => {
+    const mod = (await import('@hey-api/openapi-ts')) as unknown as {
+      generate: jest.Mock;
+    };
+    const options = {
+      inputSpec: 'https://example.com/api.yaml',
+      outputPath: 'src/generated',
+      retry: { delayMs: 0 },
+    } as unknown as Parameters<HeyApiGenerator['generate']>[0];
+
+    mod.generate.mockRejectedValueOnce(new TypeError('fetch failed'));
+    await generator.generate(options, mockContext);
+    expect(mod.generate).toHaveBeenCalledTimes(2);
+
+    mod.generate.mockClear();
+    mod.generate.mockRejectedValueOnce(new Error('Invalid spec'));
+    await expect(generator.generate(options, mockContext)).rejects.toThrow(
+      'Invalid spec'
+    );
+    expect(mod.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for openapi-ts to finish when aborted', async () => {
+    const mod = (await import('@hey-api/openapi-ts')) as unknown as {
+      generate: jest.Mock;
+    };
+    const controller = new AbortController();
+    let finish: () => void = () => undefined;
+    mod.generate.mockImplementationOnce(
+      () => new Promise<void>((resolve) => (finish = resolve))
+    );
+
+    let settled = false;
+    const result = generator
+      .generate(
+        {
+          inputSpec: 'api.yaml',
+          outputPath: 'src/generated',
+        } as unknown as Parameters<HeyApiGenerator['generate']>[0],
+        { ...mockContext, signal: controller.signal }
+      )
+      .finally(() => (settled = true));
+    await new Promise((resolve) => setImmediate(resolve));
+    controller.abort(new GenerationCancelledError('Cancelled', 'signal'));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(settled).toBe(false);
+    finish();
+    await expect(result).rejects.toThrow(GenerationCancelledError);
+    expect(mod.generate).toHaveBeenCalledTimes(1);
+  });
 });
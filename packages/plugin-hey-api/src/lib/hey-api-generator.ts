@@ -1,10 +1,15 @@
 import { join } from 'node:path';
 import { logger } from '@nx/devkit';
 import {
+  abortable,
   BaseGenerator,
   GeneratorContext,
   GeneratorPlugin,
   GenerateOptionsBase,
+  getInputSpecEntries,
+  getServiceOutputPath,
+  mergeGeneratorOptions,
+  withRetry,
 } from '@nx-plugin-openapi/core';
 
 export interface HeyApiOptions {
@@ -29,31 +34,66 @@ export class HeyApiGenerator
     logger.debug(`Input spec: ${JSON.stringify(inputSpec)}`);
     logger.debug(`Output path: ${outputPath}`);
 
+    // openapi-ts can't be cancelled. On abort, running calls are awaited
+    // before the staging directories are removed, so that they don't keep
+    // writing into them.
+    const running = new Set<Promise<void>>();
+    const invoke = (config: { input: string; output: string }) => {
+      const promise = this.invokeOpenApiTs(config);
+      running.add(promise);
+      const remove = () => running.delete(promise);
+      promise.then(remove, remove);
+      return abortable(promise, ctx.signal);
+    };
+    const settleRunning = async () => {
+      if (running.size > 0) {
+        logger.info(`Waiting for running openapi-ts calls to finish`);
+        await Promise.allSettled(running);
+      }
+    };
+
     if (typeof inputSpec === 'string') {
-      this.cleanOutput(ctx, outputPath);
-      await this.invokeOpenApiTs({
-        input: inputSpec,
-        output: join(ctx.root, outputPath),
-        ...generatorOptions,
-      });
+      await this.generateStaged(ctx, outputPath, (stagingPath) =>
+        withRetry(
+          () =>
+            invoke({
+              input: inputSpec,
+              ...generatorOptions,
+              // Always the staging directory, it replaces the output path
+              output: join(ctx.root, stagingPath),
+            }),
+          options.retry ?? {},
+          inputSpec,
+          ctx.signal
+        ).finally(settleRunning)
+      );
     } else {
-      const entries = Object.entries(inputSpec as Record<string, string>) as [
-        string,
-        string
-      ][];
+      const entries = getInputSpecEntries(inputSpec);
 
       logger.info(`Generating code for ${entries.length} services`);
 
-      for (const [serviceName, specPath] of entries) {
-        logger.info(`Generating service: ${serviceName}`);
-        const serviceOutputPath = join(outputPath, serviceName);
-        this.cleanOutput(ctx, serviceOutputPath);
-        await this.invokeOpenApiTs({
-          input: specPath,
-          output: join(ctx.root, serviceOutputPath),
-          ...generatorOptions,
-        });
-      }
+      // Services are swapped into place together once all of them succeeded
+      const serviceOutputPaths = entries.map((entry) =>
+        getServiceOutputPath(outputPath, entry)
+      );
+      await this.generateStagedAll(ctx, serviceOutputPaths, (stagingPaths) =>
+        this.generateServices(entries, options.concurrency, (entry, index) =>
+          withRetry(
+            () =>
+              invoke({
+                input: entry.spec,
+                ...mergeGeneratorOptions(
+                  generatorOptions,
+                  entry.generatorOptions
+                ),
+                output: join(ctx.root, stagingPaths[index]),
+              }),
+            options.retry ?? {},
+            `${entry.name} (${entry.spec})`,
+            ctx.signal
+          )
+        ).finally(settleRunning)
+      );
     }
 
     logger.info(`hey-api code generation completed successfully`);
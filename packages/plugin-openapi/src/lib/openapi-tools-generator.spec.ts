@@ -1,11 +1,17 @@
 import { spawn } from 'node:child_process';
 import { EventEmitter } from 'node:events';
+import { PassThrough } from 'node:stream';
+import { logger } from '@nx/devkit';
 import { OpenApiToolsGenerator } from './openapi-tools-generator';
 import {
   buildCommandArgs,
   OpenApiGeneratorOptions,
 } from './utils/build-command';
-import { GenerateOptionsBase, GeneratorContext } from '@nx-plugin-openapi/core';
+import {
+  GenerateOptionsBase,
+  GenerationCancelledError,
+  GeneratorContext,
+} from '@nx-plugin-openapi/core';
 
 // Mock node:child_process
 jest.mock('node:child_process', () => ({
@@ -14,20 +20,32 @@ jest.mock('node:child_process', () => ({
 
 // Mock build-command utility
 jest.mock('./utils/build-command', () => ({
+  ...jest.requireActual('./utils/build-command'),
   buildCommandArgs: jest.fn(),
 }));
 
+jest.mock('./utils/generator-cli', () => ({
+  prepareGeneratorCli: jest.fn(() => ({
+    args: ['node_modules/@openapitools/openapi-generator-cli/main.js'],
+    dispose: jest.fn(),
+  })),
+}));
+
 type MockChildProcess = EventEmitter & { on: jest.Mock };
-type GeneratorWithCleanOutput = {
-  cleanOutput: (...args: unknown[]) => unknown;
+type GeneratorWithStaging = {
+  generateStagedAll: (
+    ctx: GeneratorContext,
+    paths: string[],
+    generate: (stagingPaths: string[]) => Promise<unknown>
+  ) => Promise<unknown>;
 };
 
 describe('OpenApiToolsGenerator', () => {
   let generator: OpenApiToolsGenerator;
   let mockContext: GeneratorContext;
   let mockChildProcess: MockChildProcess;
-  let generatorWithCleanOutput: GeneratorWithCleanOutput;
-  let cleanOutputSpy: jest.SpyInstance;
+  let generatorWithStaging: GeneratorWithStaging;
+  let stagingSpy: jest.SpyInstance;
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -57,11 +75,11 @@ describe('OpenApiToolsGenerator', () => {
       options.outputPath,
     ]);
 
-    // Mock cleanOutput method
-    generatorWithCleanOutput = generator as unknown as GeneratorWithCleanOutput;
-    cleanOutputSpy = jest
-      .spyOn(generatorWithCleanOutput, 'cleanOutput')
-      .mockImplementation(() => {});
+    // Generate directly into the output paths instead of staging directories
+    generatorWithStaging = generator as unknown as GeneratorWithStaging;
+    stagingSpy = jest
+      .spyOn(generatorWithStaging, 'generateStagedAll')
+      .mockImplementation((_ctx, paths, generate) => generate(paths));
   });
 
   describe('name', () => {
@@ -72,7 +90,7 @@ describe('OpenApiToolsGenerator', () => {
 
   describe('generate', () => {
     describe('with single input spec', () => {
-      it('should clean output and execute generator', async () => {
+      it('should stage output and execute generator', async () => {
         const options = {
           inputSpec: 'api.yaml',
           outputPath: 'src/generated',
@@ -88,9 +106,10 @@ describe('OpenApiToolsGenerator', () => {
 
         await generatePromise;
 
-        expect(cleanOutputSpy).toHaveBeenCalledWith(
+        expect(stagingSpy).toHaveBeenCalledWith(
           mockContext,
-          'src/generated'
+          ['src/generated'],
+          expect.any(Function)
         );
         expect(buildCommandArgs).toHaveBeenCalledWith({
           generator: 'typescript-axios',
@@ -107,7 +126,11 @@ describe('OpenApiToolsGenerator', () => {
             '-o',
             'src/generated',
           ],
-          { cwd: '/workspace', stdio: 'inherit' }
+          {
+            cwd: '/workspace',
+            stdio: ['ignore', 'pipe', 'pipe'],
+            detached: process.platform !== 'win32',
+          }
         );
       });
 
@@ -133,6 +156,137 @@ describe('OpenApiToolsGenerator', () => {
         expect(attemptCount).toBe(1);
       }, 10000);
 
+      it('should attach diagnostics parsed from the output', async () => {
+        const options = {
+          inputSpec: 'api.yaml',
+          outputPath: 'src/generated',
+        };
+        const errorSpy = jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+        jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+
+        (spawn as jest.Mock).mockImplementation(() => {
+          const childProcess = new EventEmitter() as MockChildProcess & {
+            stdout: PassThrough;
+          };
+          childProcess.stdout = new PassThrough();
+          childProcess.on = jest.fn(childProcess.on.bind(childProcess));
+          childProcess.stdout.end(
+            [
+              '[main] INFO  o.o.codegen.DefaultGenerator - Generating',
+              'Errors: ',
+              "\t-attribute paths.'/pets'(get).responses is missing",
+            ].join('\n')
+          );
+          childProcess.stdout.on('end', () =>
+            setTimeout(() => childProcess.emit('close', 1), 0)
+          );
+          return childProcess;
+        });
+
+        const error = await generator
+          .generate(options, mockContext)
+          .catch((e) => e);
+
+        expect(error.message).toBe('Failed to generate code after 1 attempts');
+        expect(error.diagnostics).toEqual([
+          {
+            severity: 'error',
+            code: 'generator-validation',
+            message: "attribute paths.'/pets'(get).responses is missing",
+            file: 'api.yaml',
+            pointer: '/paths/~1pets/get/responses',
+          },
+        ]);
+        expect(errorSpy).toHaveBeenCalledWith(
+          "api.yaml - error generator-validation: attribute paths.'/pets'(get).responses is missing (#/paths/~1pets/get/responses)"
+        );
+        expect(errorSpy).not.toHaveBeenCalledWith(
+          expect.stringContaining('INFO')
+        );
+        errorSpy.mockRestore();
+      });
+
+      it('should kill the generator process when aborted', async () => {
+        const controller = new AbortController();
+        const killSpy = jest
+          .spyOn(process, 'kill')
+          .mockImplementation(() => true);
+        jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+        generator.setRetryOptions({ maxAttempts: 3 });
+
+        (spawn as jest.Mock).mockImplementation(() => {
+          const childProcess = Object.assign(new EventEmitter(), {
+            pid: 4242,
+            exitCode: null,
+          }) as unknown as MockChildProcess;
+          childProcess.on = jest.fn(childProcess.on.bind(childProcess));
+          killSpy.mockImplementation(() => {
+            process.nextTick(() => childProcess.emit('close', null));
+            return true;
+          });
+          return childProcess;
+        });
+
+        const result = generator.generate(
+          { inputSpec: 'api.yaml', outputPath: 'src/generated' },
+          { ...mockContext, signal: controller.signal }
+        );
+        setTimeout(
+          () =>
+            controller.abort(
+              new GenerationCancelledError('Generation timed out', 'timeout')
+            ),
+          5
+        );
+
+        await expect(result).rejects.toThrow('Generation timed out');
+        if (process.platform !== 'win32') {
+          expect(killSpy).toHaveBeenCalledWith(-4242, 'SIGTERM');
+        }
+        expect(spawn).toHaveBeenCalledTimes(1);
+        killSpy.mockRestore();
+      });
+
+      it('should not start the generator when already aborted', async () => {
+        const controller = new AbortController();
+        controller.abort(new GenerationCancelledError('Cancelled', 'signal'));
+
+        await expect(
+          generator.generate(
+            { inputSpec: 'api.yaml', outputPath: 'src/generated' },
+            { ...mockContext, signal: controller.signal }
+          )
+        ).rejects.toThrow(GenerationCancelledError);
+        expect(spawn).not.toHaveBeenCalled();
+      });
+
+      it('should not retry validation errors', async () => {
+        generator.setRetryOptions({ maxAttempts: 3 });
+        jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+        jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+
+        (spawn as jest.Mock).mockImplementation(() => {
+          const childProcess = new EventEmitter() as MockChildProcess & {
+            stdout: PassThrough;
+          };
+          childProcess.stdout = new PassThrough();
+          childProcess.on = jest.fn(childProcess.on.bind(childProcess));
+          childProcess.stdout.end('Errors:\n\t-attribute info.version is missing\n');
+          childProcess.stdout.on('end', () =>
+            setTimeout(() => childProcess.emit('close', 1), 0)
+          );
+          return childProcess;
+        });
+
+        await expect(
+          generator.generate(
+            { inputSpec: 'api.yaml', outputPath: 'src/generated' },
+            mockContext
+          )
+        ).rejects.toThrow('Failed to generate code after 1 attempts');
+        expect(spawn).toHaveBeenCalledTimes(1);
+      });
+
       it('should handle process error', async () => {
         const options = {
           inputSpec: 'api.yaml',
@@ -223,19 +377,12 @@ describe('OpenApiToolsGenerator', () => {
 
         await generatePromise;
 
-        // Should clean output for each service
-        expect(cleanOutputSpy).toHaveBeenCalledTimes(3);
-        expect(cleanOutputSpy).toHaveBeenCalledWith(
-          mockContext,
-          'src/api/users'
-        );
-        expect(cleanOutputSpy).toHaveBeenCalledWith(
+        // Should stage the outputs of all services together
+        expect(stagingSpy).toHaveBeenCalledTimes(1);
+        expect(stagingSpy).toHaveBeenCalledWith(
           mockContext,
-          'src/api/products'
-        );
-        expect(cleanOutputSpy).toHaveBeenCalledWith(
-          mockContext,
-          'src/api/orders'
+          ['src/api/users', 'src/api/products', 'src/api/orders'],
+          expect.any(Function)
         );
 
         // Should build command args for each service
@@ -292,6 +439,99 @@ describe('OpenApiToolsGenerator', () => {
         );
       }, 10000);
 
+      it('should run services in parallel with prefixed verbose output', async () => {
+        const options = {
+          inputSpec: { users: 'users.yaml', orders: 'orders.yaml' },
+          outputPath: 'src/api',
+          concurrency: 2,
+        } as unknown as OpenApiGeneratorOptions & GenerateOptionsBase;
+        const infoSpy = jest.spyOn(logger, 'info').mockImplementation(() => undefined);
+
+        let running = 0;
+        let maxRunning = 0;
+        (spawn as jest.Mock).mockImplementation((_command, args: string[]) => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          const childProcess = new EventEmitter() as MockChildProcess & {
+            stdout: PassThrough;
+            stderr: PassThrough;
+          };
+          childProcess.stdout = new PassThrough();
+          childProcess.stderr = new PassThrough();
+          childProcess.on = jest.fn(childProcess.on.bind(childProcess));
+          setTimeout(() => {
+            childProcess.stdout.end(`generated ${args[args.indexOf('-i') + 1]}\n`);
+            setTimeout(() => {
+              running--;
+              childProcess.emit('close', 0);
+            }, 5);
+          }, 5);
+          return childProcess;
+        });
+
+        await generator.generate(options, { ...mockContext, verbose: true });
+
+        expect(maxRunning).toBe(2);
+        expect(spawn).toHaveBeenCalledWith(
+          'node',
+          expect.any(Array),
+          expect.objectContaining({ stdio: ['ignore', 'pipe', 'pipe'] })
+        );
+        expect(infoSpy).toHaveBeenCalledWith('[users] generated users.yaml');
+        expect(infoSpy).toHaveBeenCalledWith('[orders] generated orders.yaml');
+        infoSpy.mockRestore();
+      });
+
+      it('should apply per-service output paths and generator options', async () => {
+        const options = {
+          inputSpec: {
+            users: 'users.yaml',
+            orders: {
+              spec: 'orders.yaml',
+              outputPath: 'orders-client',
+              generatorOptions: {
+                apiNameSuffix: 'Client',
+                additionalProperties: { providedIn: 'any' },
+              },
+            },
+          },
+          outputPath: 'src/api',
+          generatorOptions: {
+            generator: 'typescript-angular',
+            apiNameSuffix: 'Api',
+            additionalProperties: { providedIn: 'root', withInterfaces: true },
+          },
+        } as unknown as OpenApiGeneratorOptions & GenerateOptionsBase;
+        (spawn as jest.Mock).mockImplementation(() => {
+          const childProcess = new EventEmitter() as MockChildProcess;
+          childProcess.on = jest.fn(childProcess.on.bind(childProcess));
+          process.nextTick(() => childProcess.emit('close', 0));
+          return childProcess;
+        });
+
+        await generator.generate(options, mockContext);
+
+        expect(stagingSpy).toHaveBeenCalledWith(
+          mockContext,
+          ['src/api/users', 'src/api/orders-client'],
+          expect.any(Function)
+        );
+        expect(buildCommandArgs).toHaveBeenCalledWith({
+          generator: 'typescript-angular',
+          apiNameSuffix: 'Api',
+          additionalProperties: { providedIn: 'root', withInterfaces: true },
+          inputSpec: 'users.yaml',
+          outputPath: 'src/api/users',
+        });
+        expect(buildCommandArgs).toHaveBeenCalledWith({
+          generator: 'typescript-angular',
+          apiNameSuffix: 'Client',
+          additionalProperties: { providedIn: 'any', withInterfaces: true },
+          inputSpec: 'orders.yaml',
+          outputPath: 'src/api/orders-client',
+        });
+      });
+
       it('should maintain service output structure', async () => {
         const options = {
           inputSpec: {
@@ -321,6 +561,114 @@ describe('OpenApiToolsGenerator', () => {
       });
     });
 
+    describe('with batch mode', () => {
+      const options = {
+        inputSpec: { users: 'users.yaml', orders: 'orders.yaml' },
+        outputPath: 'src/api',
+        generatorOptions: { batch: true },
+      } as unknown as OpenApiGeneratorOptions & GenerateOptionsBase;
+
+      const mockSpawnExitCodes = (...codes: number[]) => {
+        (spawn as jest.Mock).mockImplementation(() => {
+          const childProcess = new EventEmitter() as MockChildProcess;
+          childProcess.on = jest.fn(childProcess.on.bind(childProcess));
+          const code = codes.shift() ?? 0;
+          process.nextTick(() => childProcess.emit('close', code));
+          return childProcess;
+        });
+      };
+
+      it('should generate all services with one batch call', async () => {
+        mockSpawnExitCodes(0);
+
+        await generator.generate(options, mockContext);
+
+        expect(spawn).toHaveBeenCalledTimes(1);
+        expect(spawn).toHaveBeenCalledWith(
+          'node',
+          [
+            'node_modules/@openapitools/openapi-generator-cli/main.js',
+            'batch',
+            '--fail-fast',
+            '--root-dir',
+            '/workspace',
+            expect.stringMatching(/service-0\.json$/),
+            expect.stringMatching(/service-1\.json$/),
+          ],
+          {
+            cwd: '/workspace',
+            stdio: ['ignore', 'pipe', 'pipe'],
+            detached: process.platform !== 'win32',
+          }
+        );
+        expect(buildCommandArgs).not.toHaveBeenCalled();
+      });
+
+      it('should fall back to one call per service if batch fails', async () => {
+        jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+        mockSpawnExitCodes(1, 0, 0);
+
+        await generator.generate(options, mockContext);
+
+        expect(spawn).toHaveBeenCalledTimes(3);
+        expect(buildCommandArgs).toHaveBeenCalledWith(
+          expect.objectContaining({
+            inputSpec: 'users.yaml',
+            outputPath: 'src/api/users',
+          })
+        );
+        expect(logger.warn).toHaveBeenCalledWith(
+          expect.stringContaining('Batch generation failed')
+        );
+      });
+
+      it('should not fall back if batch reports errors', async () => {
+        jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+        (spawn as jest.Mock).mockImplementation(() => {
+          const childProcess = new EventEmitter() as MockChildProcess & {
+            stdout: PassThrough;
+          };
+          childProcess.stdout = new PassThrough();
+          childProcess.on = jest.fn(childProcess.on.bind(childProcess));
+          childProcess.stdout.end(
+            [
+              'Errors: ',
+              "\t-attribute paths.'/users'(get).responses is missing",
+            ].join('\n')
+          );
+          childProcess.stdout.on('end', () =>
+            setTimeout(() => childProcess.emit('close', 1), 0)
+          );
+          return childProcess;
+        });
+
+        const error = await generator
+          .generate(options, mockContext)
+          .catch((e) => e);
+
+        expect(spawn).toHaveBeenCalledTimes(1);
+        expect(buildCommandArgs).not.toHaveBeenCalled();
+        expect(error.diagnostics).toEqual([
+          expect.objectContaining({ severity: 'error' }),
+        ]);
+      });
+
+      it('should not use batch mode for unsupported options', async () => {
+        mockSpawnExitCodes(0, 0);
+
+        await generator.generate(
+          {
+            ...options,
+            generatorOptions: { batch: true, configFile: 'config.json' },
+          },
+          mockContext
+        );
+
+        expect(spawn).toHaveBeenCalledTimes(2);
+        expect(buildCommandArgs).toHaveBeenCalledTimes(2);
+      });
+    });
+
     describe('process spawning', () => {
       it('should use correct node executable path', async () => {
         const options = {
@@ -362,7 +710,7 @@ describe('OpenApiToolsGenerator', () => {
         );
       });
 
-      it('should inherit stdio', async () => {
+      it('should capture stdio', async () => {
         const options = {
           inputSpec: 'api.yaml',
           outputPath: 'output',
@@ -377,13 +725,36 @@ describe('OpenApiToolsGenerator', () => {
           expect.any(String),
           expect.any(Array),
           expect.objectContaining({
-            stdio: 'inherit',
+            stdio: ['ignore', 'pipe', 'pipe'],
           })
         );
       });
     });
   });
 
+  describe('validate', () => {
+    it('should validate shared and per-service generator options', () => {
+      expect(() =>
+        generator.validate({
+          inputSpec: 'api.yaml',
+          outputPath: 'src/generated',
+          generatorOptions: { generatorName: 'typescript-fetch' },
+        })
+      ).not.toThrow();
+      expect(() =>
+        generator.validate({
+          inputSpec: {
+            users: {
+              spec: 'users.yaml',
+              generatorOptions: { generatorName: 'react' },
+            },
+          },
+          outputPath: 'src/generated',
+        } as unknown as OpenApiGeneratorOptions & GenerateOptionsBase)
+      ).toThrow("Unknown generatorName 'react'");
+    });
+  });
+
   describe('inheritance', () => {
     it('should extend BaseGenerator', () => {
       expect(generator).toHaveProperty('cleanOutput');
@@ -1,42 +1,76 @@
 import { spawn } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
 import { join } from 'node:path';
+import { createInterface } from 'node:readline';
 import {
   BaseGenerator,
   GeneratorContext,
   GeneratorPlugin,
   GenerateOptionsBase,
   ExecutionError,
+  formatDiagnostic,
+  GenerationCancelledError,
+  getAbortError,
+  RetryOptions,
+  throwIfAborted,
+  withRetry,
+  getInputSpecEntries,
+  getServiceOutputPath,
+  mergeGeneratorOptions,
 } from '@nx-plugin-openapi/core';
 import { logger } from '@nx/devkit';
 import {
   buildCommandArgs,
   OpenApiGeneratorOptions,
 } from './utils/build-command';
+import {
+  buildBatchCommandArgs,
+  buildBatchConfig,
+  getUnbatchableOptions,
+} from './utils/batch-config';
+import { GeneratorCli, prepareGeneratorCli } from './utils/generator-cli';
+import { parseGeneratorOutput } from './utils/generator-output';
+import { killProcessTree } from './utils/process-tree';
+import {
+  openApiGeneratorOptionsSchema,
+  validateOpenApiGeneratorOptions,
+} from './options-schema';
 
-interface RetryOptions {
-  maxAttempts?: number;
-  delayMs?: number;
-  backoffMultiplier?: number;
-}
+// Lines of output shown when a run fails without recognizable errors
+const OUTPUT_TAIL_LINES = 20;
 
 export class OpenApiToolsGenerator
   extends BaseGenerator
   implements GeneratorPlugin<OpenApiGeneratorOptions>
 {
   readonly name = 'openapi-tools';
-  private retryOptions: Required<RetryOptions> = {
-    maxAttempts: 3,
-    delayMs: 1000,
-    backoffMultiplier: 2,
-  };
+  private retryOptions: RetryOptions = {};
 
-  setRetryOptions(options: Partial<RetryOptions>): void {
+  setRetryOptions(options: RetryOptions): void {
     this.retryOptions = {
       ...this.retryOptions,
       ...options,
     };
   }
 
+  getSchema(): unknown {
+    return openApiGeneratorOptionsSchema;
+  }
+
+  validate(options: OpenApiGeneratorOptions & GenerateOptionsBase): void {
+    const generatorOptions = (options.generatorOptions ||
+      {}) as Partial<OpenApiGeneratorOptions>;
+    validateOpenApiGeneratorOptions(generatorOptions);
+    if (typeof options.inputSpec !== 'string') {
+      for (const entry of getInputSpecEntries(options.inputSpec)) {
+        validateOpenApiGeneratorOptions(
+          mergeGeneratorOptions(generatorOptions, entry.generatorOptions)
+        );
+      }
+    }
+  }
+
   async generate(
     options: OpenApiGeneratorOptions & GenerateOptionsBase,
     ctx: GeneratorContext
@@ -49,102 +83,255 @@ export class OpenApiToolsGenerator
     logger.debug(`Input spec: ${JSON.stringify(inputSpec)}`);
     logger.debug(`Output path: ${outputPath}`);
 
-    if (typeof inputSpec === 'string') {
-      this.cleanOutput(ctx, outputPath);
-      const args = buildCommandArgs({
-        ...generatorOptions,
-        inputSpec,
-        outputPath,
-      });
-      await this.executeWithRetry(args, ctx, inputSpec);
-    } else {
-      const entries = Object.entries(inputSpec as Record<string, string>) as [
-        string,
-        string
-      ][];
+    const cli = prepareGeneratorCli(ctx.root, generatorOptions);
+    try {
+      if (typeof inputSpec === 'string') {
+        await this.generateStaged(ctx, outputPath, async (stagingPath) => {
+          const args = buildCommandArgs({
+            ...generatorOptions,
+            inputSpec,
+            outputPath: stagingPath,
+          });
+          await this.executeWithRetry(
+            [...cli.args, ...args],
+            ctx,
+            options.retry,
+            inputSpec,
+            inputSpec
+          );
+        });
+      } else {
+        const entries = getInputSpecEntries(inputSpec);
       
-      logger.info(`Generating code for ${entries.length} services`);
+        logger.info(`Generating code for ${entries.length} services`);
       
-      for (const [serviceName, specPath] of entries) {
-        logger.info(`Generating service: ${serviceName}`);
-        const serviceOutputPath = join(outputPath, serviceName);
-        this.cleanOutput(ctx, serviceOutputPath);
-        const args = buildCommandArgs({
-          ...generatorOptions,
-          inputSpec: specPath,
-          outputPath: serviceOutputPath,
+        // Services are swapped into place together once all of them succeeded
+        const serviceOutputPaths = entries.map((entry) =>
+          getServiceOutputPath(outputPath, entry)
+        );
+        // Output of parallel runs is prefixed with the service name
+        const prefixOutput = (options.concurrency ?? 1) > 1;
+        await this.generateStagedAll(ctx, serviceOutputPaths, async (stagingPaths) => {
+          const serviceOptions = entries.map((entry, index) => ({
+            ...mergeGeneratorOptions(generatorOptions, entry.generatorOptions),
+            inputSpec: entry.spec,
+            outputPath: stagingPaths[index],
+          }));
+
+          if (generatorOptions.batch && entries.length > 1) {
+            const generated = await this.generateBatch(
+              serviceOptions,
+              cli,
+              ctx,
+              options.concurrency
+            );
+            if (generated) {
+              return;
+            }
+            // Drop partial output of the batch run before generating again
+            stagingPaths.forEach((stagingPath) => this.cleanOutput(ctx, stagingPath));
+          }
+
+          await this.generateServices(entries, options.concurrency, async (entry, index) => {
+            const args = buildCommandArgs(serviceOptions[index]);
+            await this.executeWithRetry(
+              [...cli.args, ...args],
+              ctx,
+              options.retry,
+              entry.spec,
+              `${entry.name} (${entry.spec})`,
+              prefixOutput ? entry.name : undefined
+            );
+          });
         });
-        await this.executeWithRetry(args, ctx, `${serviceName} (${specPath})`);
       }
+    } finally {
+      cli.dispose();
     }
     
     logger.info(`OpenAPI code generation completed successfully`);
   }
 
+  /**
+   * Generates all services with a single openapi-generator `batch` call, so
+   * the JVM is only started once. Returns false if the services have to be
+   * generated one by one instead, because they use options batch mode does
+   * not support or batch mode is not available (e.g. an openapi-generator
+   * version without the batch command). Errors reported for the specs or
+   * options are rethrown.
+   */
+  private async generateBatch(
+    serviceOptions: OpenApiGeneratorOptions[],
+    cli: GeneratorCli,
+    ctx: GeneratorContext,
+    concurrency: number | undefined
+  ): Promise<boolean> {
+    const unbatchable = getUnbatchableOptions(serviceOptions);
+    if (unbatchable.length > 0) {
+      logger.info(
+        `Batch mode does not support ${unbatchable.join(', ')}, generating each service separately`
+      );
+      return false;
+    }
+
+    const configDir = mkdtempSync(join(tmpdir(), 'nx-plugin-openapi-batch-'));
+    try {
+      const configFiles = serviceOptions.map((service, index) => {
+        const configFile = join(configDir, `service-${index}.json`);
+        writeFileSync(configFile, JSON.stringify(buildBatchConfig(service), null, 2));
+        return configFile;
+      });
+
+      logger.info(`Generating ${configFiles.length} services in batch mode`);
+      await this.executeOpenApiGenerator(
+        [
+          ...cli.args,
+          ...buildBatchCommandArgs(configFiles, { rootDir: ctx.root, threads: concurrency }),
+        ],
+        ctx,
+        serviceOptions.map((service) => service.inputSpec).join(', ')
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof GenerationCancelledError) {
+        throw error;
+      }
+      // Problems with the specs or options would fail one by one as well
+      if (
+        error instanceof ExecutionError &&
+        error.diagnostics.some((d) => d.severity === 'error')
+      ) {
+        throw error;
+      }
+      logger.warn(
+        `Batch generation failed, generating each service separately: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return false;
+    } finally {
+      rmSync(configDir, { recursive: true, force: true });
+    }
+  }
+
   private async executeWithRetry(
     args: string[],
     ctx: GeneratorContext,
-    specIdentifier: string
+    retry: RetryOptions | undefined,
+    spec: string,
+    specIdentifier: string,
+    logPrefix?: string
   ): Promise<void> {
-    let lastError: Error | undefined;
-    
-    for (let attempt = 1; attempt <= this.retryOptions.maxAttempts; attempt++) {
-      try {
-        logger.debug(`Attempt ${attempt} of ${this.retryOptions.maxAttempts} for ${specIdentifier}`);
-        await this.executeOpenApiGenerator(args, ctx);
-        return; // Success
-      } catch (error) {
-        lastError = error as Error;
-        logger.warn(`Attempt ${attempt} failed for ${specIdentifier}: ${lastError.message}`);
-        
-        if (attempt < this.retryOptions.maxAttempts) {
-          const delay = this.retryOptions.delayMs * Math.pow(this.retryOptions.backoffMultiplier, attempt - 1);
-          logger.info(`Retrying in ${delay}ms...`);
-          await this.delay(delay);
-        }
+    let attempts = 0;
+    try {
+      await withRetry(
+        (attempt) => {
+          attempts = attempt;
+          return this.executeOpenApiGenerator(args, ctx, spec, logPrefix);
+        },
+        { ...this.retryOptions, ...retry },
+        specIdentifier,
+        ctx.signal
+      );
+    } catch (error) {
+      if (error instanceof GenerationCancelledError) {
+        throw error;
       }
+      logger.error(`Generation failed for ${specIdentifier} after ${attempts} attempt(s)`);
+      throw new ExecutionError(
+        `Failed to generate code after ${attempts} attempts`,
+        'openapi-generator',
+        undefined,
+        error,
+        error instanceof ExecutionError ? error.diagnostics : []
+      );
     }
-    
-    // All attempts failed
-    logger.error(`All ${this.retryOptions.maxAttempts} attempts failed for ${specIdentifier}`);
-    throw new ExecutionError(
-      `Failed to generate code after ${this.retryOptions.maxAttempts} attempts`,
-      'openapi-generator',
-      undefined,
-      lastError
-    );
   }
 
+  // fullArgs start with the CLI arguments of prepareGeneratorCli
   private async executeOpenApiGenerator(
-    args: string[],
-    ctx: GeneratorContext
+    fullArgs: string[],
+    ctx: GeneratorContext,
+    spec: string,
+    logPrefix?: string
   ): Promise<void> {
+    const { signal } = ctx;
+    throwIfAborted(signal);
+
     return new Promise<void>((resolve, reject) => {
       const command = 'node';
-      const fullArgs = ['node_modules/@openapitools/openapi-generator-cli/main.js', ...args];
+      const prefix = logPrefix ? `[${logPrefix}] ` : '';
       
       logger.debug(`Executing: ${command} ${fullArgs.join(' ')}`);
       
       const childProcess = spawn(command, fullArgs, { 
         cwd: ctx.root, 
-        stdio: 'inherit' 
+        stdio: ['ignore', 'pipe', 'pipe'],
+        // Own process group, so the JVM can be killed together with the CLI
+        detached: process.platform !== 'win32'
       });
+
+      const onAbort = () => {
+        logger.warn(`${prefix}Stopping OpenAPI Generator: ${getAbortError(signal as AbortSignal).message}`);
+        killProcessTree(childProcess);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Output is captured for diagnostics and only shown as is in verbose mode
+      const output: string[] = [];
+      for (const stream of [childProcess.stdout, childProcess.stderr]) {
+        if (!stream) continue;
+        createInterface({ input: stream }).on('line', (line) => {
+          output.push(line);
+          if (ctx.verbose) {
+            logger.info(`${prefix}${line}`);
+          }
+        });
+      }
       
       childProcess.on('close', (code) => {
+        signal?.removeEventListener('abort', onAbort);
+        if (signal?.aborted) {
+          reject(getAbortError(signal));
+          return;
+        }
+
+        const diagnostics = parseGeneratorOutput(output, spec);
+        for (const diagnostic of diagnostics) {
+          const message = `${prefix}${formatDiagnostic(diagnostic)}`;
+          if (diagnostic.severity === 'error') {
+            logger.error(message);
+          } else {
+            logger.warn(message);
+          }
+        }
+
         if (code === 0) {
           logger.debug(`OpenAPI Generator completed successfully`);
           resolve();
         } else {
+          const errorCount = diagnostics.filter((d) => d.severity === 'error').length;
+          if (errorCount === 0 && !ctx.verbose && output.length > 0) {
+            // Nothing recognizable, show the end of the output instead
+            logger.error(
+              output.slice(-OUTPUT_TAIL_LINES).map((line) => `${prefix}${line}`).join('\n')
+            );
+          }
           const error = new ExecutionError(
-            `OpenAPI Generator exited with code ${code}`,
+            errorCount > 0
+              ? `OpenAPI Generator reported ${errorCount} error${errorCount === 1 ? '' : 's'} for ${spec}`
+              : `OpenAPI Generator exited with code ${code}`,
             `${command} ${fullArgs.join(' ')}`,
-            code ?? undefined
+            code ?? undefined,
+            undefined,
+            diagnostics
           );
           reject(error);
         }
       });
       
       childProcess.on('error', (error) => {
+        signal?.removeEventListener('abort', onAbort);
         logger.error(`Failed to spawn OpenAPI Generator process: ${error.message}`);
         reject(new ExecutionError(
           `Failed to spawn process: ${error.message}`,
@@ -155,10 +342,6 @@ export class OpenApiToolsGenerator
       });
     });
   }
-
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
 
 export default new OpenApiToolsGenerator();
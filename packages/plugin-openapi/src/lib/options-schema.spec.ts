@@ -0,0 +1,63 @@
+import { ValidationError } from '@nx-plugin-openapi/core';
+import {
+  openApiGeneratorOptionsSchema,
+  validateOpenApiGeneratorOptions,
+} from './options-schema';
+
+describe('validateOpenApiGeneratorOptions', () => {
+  it('should accept known generator names and key/value maps', () => {
+    expect(() =>
+      validateOpenApiGeneratorOptions({
+        generatorName: 'typescript-axios',
+        additionalProperties: { withSeparateModelsAndApi: true },
+        typeMappings: { DateTime: 'Date' },
+      })
+    ).not.toThrow();
+    expect(() => validateOpenApiGeneratorOptions({})).not.toThrow();
+  });
+
+  it('should reject unknown generator names with suggestions', () => {
+    expect(() =>
+      validateOpenApiGeneratorOptions({ generatorName: 'axios' })
+    ).toThrow(ValidationError);
+    expect(() =>
+      validateOpenApiGeneratorOptions({ generatorName: 'axios' })
+    ).toThrow(
+      "Unknown generatorName 'axios'. Did you mean 'typescript-axios'?"
+    );
+  });
+
+  it('should reject invalid key/value maps', () => {
+    expect(() =>
+      validateOpenApiGeneratorOptions({
+        typeMappings: ['DateTime=Date'] as unknown as Record<string, string>,
+      })
+    ).toThrow('typeMappings must be an object of key/value pairs');
+    expect(() =>
+      validateOpenApiGeneratorOptions({
+        additionalProperties: {
+          nested: { a: 1 },
+        } as unknown as Record<string, string>,
+      })
+    ).toThrow(
+      'additionalProperties.nested must be a string, number or boolean'
+    );
+  });
+
+  it('should reject invalid generator versions', () => {
+    expect(() =>
+      validateOpenApiGeneratorOptions({ generatorVersion: '7.10.0' })
+    ).not.toThrow();
+    expect(() =>
+      validateOpenApiGeneratorOptions({ generatorVersion: 'latest' })
+    ).toThrow(
+      "generatorVersion must be an openapi-generator version like 7.10.0, got 'latest'"
+    );
+  });
+
+  it('should expose the known generator names in the schema', () => {
+    expect(
+      openApiGeneratorOptionsSchema.properties.generatorName.enum
+    ).toContain('typescript-fetch');
+  });
+});
@@ -0,0 +1,138 @@
+import { ValidationError } from '@nx-plugin-openapi/core';
+import {
+  KEY_VALUE_FLAG_MAP,
+  OpenApiGeneratorOptions,
+} from './utils/build-command';
+import {
+  DEFAULT_GENERATOR_NAME,
+  isKnownGeneratorName,
+  KNOWN_GENERATOR_NAMES,
+} from './utils/generator-names';
+
+const GENERATOR_VERSION_PATTERN = /^\d+\.\d+\.\d+(-[0-9A-Za-z.-]+)?$/;
+
+const keyValueMapSchema = (description: string) => ({
+  type: 'object',
+  description,
+  additionalProperties: { type: ['string', 'number', 'boolean'] },
+});
+
+/**
+ * JSON schema of the openapi-tools generatorOptions that need validation.
+ * Other options are passed through to openapi-generator as flags.
+ */
+export const openApiGeneratorOptionsSchema = {
+  type: 'object',
+  properties: {
+    generatorName: {
+      type: 'string',
+      enum: [...new Set(KNOWN_GENERATOR_NAMES)].sort(),
+      default: DEFAULT_GENERATOR_NAME,
+      description: 'openapi-generator generator to use (-g)',
+    },
+    additionalProperties: keyValueMapSchema(
+      'Generator specific properties (--additional-properties)'
+    ),
+    typeMappings: keyValueMapSchema(
+      'Maps OpenAPI types to generated types (--type-mappings)'
+    ),
+    importMappings: keyValueMapSchema(
+      'Maps types to imports (--import-mappings)'
+    ),
+    schemaMappings: keyValueMapSchema(
+      'Maps schemas to existing types (--schema-mappings)'
+    ),
+    nameMappings: keyValueMapSchema(
+      'Maps property names to generated names (--name-mappings)'
+    ),
+    openapiNormalizer: keyValueMapSchema(
+      'Rules of the OpenAPI normalizer (--openapi-normalizer)'
+    ),
+    generatorCliPath: {
+      type: 'string',
+      description:
+        'Path of the openapi-generator-cli entry script, relative to the workspace root',
+    },
+    generatorVersion: {
+      type: 'string',
+      pattern: GENERATOR_VERSION_PATTERN.source,
+      description:
+        'openapi-generator version to use instead of the one pinned in openapitools.json',
+    },
+    batch: {
+      type: 'boolean',
+      default: false,
+      description:
+        'Generate all services of an inputSpec map with one openapi-generator batch call',
+    },
+  },
+  additionalProperties: true,
+};
+
+/**
+ * Validates the generatorName and the key/value map options.
+ */
+export function validateOpenApiGeneratorOptions(
+  options: Partial<OpenApiGeneratorOptions>
+): void {
+  const { generatorName } = options;
+  if (generatorName !== undefined) {
+    if (typeof generatorName !== 'string' || generatorName.length === 0) {
+      throw new ValidationError(
+        'generatorName must be a non-empty string',
+        'generatorName',
+        generatorName
+      );
+    }
+    if (!isKnownGeneratorName(generatorName)) {
+      const suggestions = KNOWN_GENERATOR_NAMES.filter(
+        (name) => name.includes(generatorName) || generatorName.includes(name)
+      ).slice(0, 5);
+      throw new ValidationError(
+        `Unknown generatorName '${generatorName}'.${
+          suggestions.length > 0
+            ? ` Did you mean ${suggestions.map((s) => `'${s}'`).join(', ')}?`
+            : ''
+        } See https://openapi-generator.tech/docs/generators for all generators`,
+        'generatorName',
+        generatorName
+      );
+    }
+  }
+
+  const { generatorVersion } = options;
+  if (
+    generatorVersion !== undefined &&
+    (typeof generatorVersion !== 'string' ||
+      !GENERATOR_VERSION_PATTERN.test(generatorVersion))
+  ) {
+    throw new ValidationError(
+      `generatorVersion must be an openapi-generator version like 7.10.0, got '${generatorVersion}'`,
+      'generatorVersion',
+      generatorVersion
+    );
+  }
+
+  for (const key of Object.keys(KEY_VALUE_FLAG_MAP) as Array<
+    keyof typeof KEY_VALUE_FLAG_MAP
+  >) {
+    const map: unknown = options[key];
+    if (map === undefined) continue;
+    if (!map || typeof map !== 'object' || Array.isArray(map)) {
+      throw new ValidationError(
+        `${key} must be an object of key/value pairs`,
+        key,
+        map
+      );
+    }
+    for (const [name, value] of Object.entries(map)) {
+      if (!['string', 'number', 'boolean'].includes(typeof value)) {
+        throw new ValidationError(
+          `${key}.${name} must be a string, number or boolean`,
+          key,
+          value
+        );
+      }
+    }
+  }
+}
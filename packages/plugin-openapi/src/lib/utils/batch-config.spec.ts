@@ -0,0 +1,91 @@
+import {
+  buildBatchCommandArgs,
+  buildBatchConfig,
+  getUnbatchableOptions,
+} from './batch-config';
+
+describe('batch-config', () => {
+  describe('buildBatchConfig', () => {
+    it('should map generate options to batch config keys', () => {
+      expect(
+        buildBatchConfig({
+          inputSpec: 'apis/users.yaml',
+          outputPath: 'libs/users/src',
+          templateDirectory: 'templates',
+          skipValidateSpec: true,
+          strictSpec: true,
+          minimalUpdate: true,
+          apiNameSuffix: 'Api',
+          additionalProperties: { supportsES6: true },
+          batch: true,
+        })
+      ).toEqual({
+        generatorName: 'typescript-angular',
+        inputSpec: 'apis/users.yaml',
+        outputDir: 'libs/users/src',
+        templateDir: 'templates',
+        validateSpec: false,
+        strictSpecBehavior: true,
+        enableMinimalUpdate: true,
+        apiNameSuffix: 'Api',
+        additionalProperties: { supportsES6: true },
+      });
+    });
+
+    it('should use the configured generator name', () => {
+      expect(
+        buildBatchConfig({
+          inputSpec: 'api.yaml',
+          outputPath: 'out',
+          generatorName: 'typescript-fetch',
+        })
+      ).toEqual({
+        generatorName: 'typescript-fetch',
+        inputSpec: 'api.yaml',
+        outputDir: 'out',
+      });
+    });
+
+    it('should require inputSpec and outputPath', () => {
+      expect(() => buildBatchConfig({ outputPath: 'out' })).toThrow(
+        'inputSpec is required for OpenAPI generator'
+      );
+      expect(() => buildBatchConfig({ inputSpec: 'api.yaml' })).toThrow(
+        'outputPath is required for OpenAPI generator'
+      );
+    });
+  });
+
+  describe('getUnbatchableOptions', () => {
+    it('should report options batch mode does not support', () => {
+      expect(
+        getUnbatchableOptions([
+          { inputSpec: 'a.yaml', configFile: 'config.json' },
+          { inputSpec: 'b.yaml', dryRun: false },
+          { inputSpec: 'c.yaml', configFile: 'other.json' },
+        ])
+      ).toEqual(['configFile']);
+      expect(getUnbatchableOptions([{ inputSpec: 'a.yaml' }])).toEqual([]);
+    });
+  });
+
+  describe('buildBatchCommandArgs', () => {
+    it('should build batch arguments', () => {
+      expect(
+        buildBatchCommandArgs(['/tmp/a.json', '/tmp/b.json'], {
+          rootDir: '/workspace',
+          threads: 4,
+        })
+      ).toEqual([
+        'batch',
+        '--fail-fast',
+        '--root-dir',
+        '/workspace',
+        '--threads',
+        '4',
+        '/tmp/a.json',
+        '/tmp/b.json',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { DEFAULT_GENERATOR_NAME } from './generator-names';
+import { OpenApiGeneratorOptions } from './build-command';
+
+/**
+ * Options that map to a different key in openapi-generator batch config files.
+ * All other supported options use the same key as in the generate options.
+ */
+const BATCH_CONFIG_KEY_MAP: Partial<
+  Record<keyof OpenApiGeneratorOptions, string>
+> = {
+  outputPath: 'outputDir',
+  templateDirectory: 'templateDir',
+  minimalUpdate: 'enableMinimalUpdate',
+  strictSpec: 'strictSpecBehavior',
+};
+
+/**
+ * Options that can not be expressed in a batch config file. Services using
+ * them are generated with one `generate` call each.
+ */
+const UNBATCHABLE_OPTIONS: Array<keyof OpenApiGeneratorOptions> = [
+  'configFile',
+  'dryRun',
+];
+
+/** Options of the plugin itself that are not passed to openapi-generator */
+const PLUGIN_OPTIONS: Array<keyof OpenApiGeneratorOptions> = [
+  'batch',
+  'generatorCliPath',
+  'generatorVersion',
+];
+
+/**
+ * Returns the options of the given services that prevent batch generation.
+ */
+export function getUnbatchableOptions(
+  services: OpenApiGeneratorOptions[]
+): string[] {
+  const found = new Set<string>();
+  for (const options of services) {
+    for (const key of UNBATCHABLE_OPTIONS) {
+      if (options[key] !== undefined && options[key] !== false) {
+        found.add(key);
+      }
+    }
+  }
+  return [...found];
+}
+
+/**
+ * Builds the content of an openapi-generator batch config file for one
+ * service.
+ */
+export function buildBatchConfig(
+  options: OpenApiGeneratorOptions
+): Record<string, unknown> {
+  if (!options.inputSpec) {
+    throw new Error('inputSpec is required for OpenAPI generator');
+  }
+  if (!options.outputPath) {
+    throw new Error('outputPath is required for OpenAPI generator');
+  }
+
+  const config: Record<string, unknown> = {
+    generatorName: options.generatorName || DEFAULT_GENERATOR_NAME,
+  };
+  for (const [key, value] of Object.entries(options) as [
+    keyof OpenApiGeneratorOptions,
+    unknown
+  ][]) {
+    if (
+      key === 'generatorName' ||
+      PLUGIN_OPTIONS.includes(key) ||
+      value === undefined ||
+      value === null ||
+      value === ''
+    ) {
+      continue;
+    }
+    if (key === 'skipValidateSpec') {
+      config['validateSpec'] = !value;
+      continue;
+    }
+    config[BATCH_CONFIG_KEY_MAP[key] ?? key] = value;
+  }
+  return config;
+}
+
+/**
+ * Builds the arguments of an openapi-generator `batch` call for the given
+ * config files.
+ */
+export function buildBatchCommandArgs(
+  configFiles: string[],
+  options: { rootDir: string; threads?: number }
+): string[] {
+  const args = ['batch', '--fail-fast', '--root-dir', options.rootDir];
+  if (options.threads && options.threads > 1) {
+    args.push('--threads', String(options.threads));
+  }
+  args.push(...configFiles);
+  return args;
+}
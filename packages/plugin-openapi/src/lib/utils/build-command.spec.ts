@@ -21,7 +21,7 @@ describe('buildCommandArgs', () => {
       ]);
     });
 
-    it('should always use typescript-angular as generator', () => {
+    it('should default to typescript-angular as generator', () => {
       const options: OpenApiGeneratorOptions = {
         inputSpec: 'spec.json',
         outputPath: 'output',
@@ -35,6 +35,71 @@ describe('buildCommandArgs', () => {
     });
   });
 
+  describe('generatorName', () => {
+    it('should pass the generator name', () => {
+      const options: OpenApiGeneratorOptions = {
+        inputSpec: 'spec.json',
+        outputPath: 'output',
+        generatorName: 'typescript-fetch',
+      };
+
+      const result = buildCommandArgs(options);
+
+      expect(result.slice(3, 5)).toEqual(['-g', 'typescript-fetch']);
+    });
+  });
+
+  describe('key/value maps', () => {
+    it('should add one flag per entry', () => {
+      const options: OpenApiGeneratorOptions = {
+        inputSpec: 'api.yaml',
+        outputPath: 'output',
+        additionalProperties: { supportsES6: true, npmVersion: '1.0.0' },
+        typeMappings: { DateTime: 'Date' },
+        importMappings: { Date: 'date-fns' },
+        schemaMappings: { Pet: 'models.Pet' },
+        nameMappings: { _type: 'type' },
+        openapiNormalizer: { REF_AS_PARENT_IN_ALLOF: true },
+      };
+
+      const result = buildCommandArgs(options);
+
+      expect(result.slice(7)).toEqual([
+        '--additional-properties',
+        'supportsES6=true',
+        '--additional-properties',
+        'npmVersion=1.0.0',
+        '--type-mappings',
+        'DateTime=Date',
+        '--import-mappings',
+        'Date=date-fns',
+        '--schema-mappings',
+        'Pet=models.Pet',
+        '--name-mappings',
+        '_type=type',
+        '--openapi-normalizer',
+        'REF_AS_PARENT_IN_ALLOF=true',
+      ]);
+    });
+
+    it('should skip empty values', () => {
+      const warn = jest
+        .spyOn(console, 'warn')
+        .mockImplementation(() => undefined);
+      const options: OpenApiGeneratorOptions = {
+        inputSpec: 'api.yaml',
+        outputPath: 'output',
+        typeMappings: { DateTime: '' },
+      };
+
+      const result = buildCommandArgs(options);
+
+      expect(result).not.toContain('--type-mappings');
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+
   describe('boolean flags', () => {
     it('should add boolean flags when true', () => {
       const options: OpenApiGeneratorOptions = {
@@ -1,6 +1,11 @@
+import { DEFAULT_GENERATOR_NAME } from './generator-names';
+
+export type KeyValueMap = Record<string, string | number | boolean>;
+
 export interface OpenApiGeneratorOptions {
   inputSpec?: string;
   outputPath?: string;
+  generatorName?: string;
   configFile?: string;
   skipValidateSpec?: boolean;
   auth?: string;
@@ -31,8 +36,39 @@ export interface OpenApiGeneratorOptions {
   skipOperationExample?: boolean;
   strictSpec?: boolean;
   templateDirectory?: string;
+  additionalProperties?: KeyValueMap;
+  typeMappings?: KeyValueMap;
+  importMappings?: KeyValueMap;
+  schemaMappings?: KeyValueMap;
+  nameMappings?: KeyValueMap;
+  openapiNormalizer?: KeyValueMap;
+  // Generate all services of an inputSpec map with one batch call
+  batch?: boolean;
+  // openapi-generator-cli entry script, relative to the workspace root
+  generatorCliPath?: string;
+  // openapi-generator version used instead of the one of openapitools.json
+  generatorVersion?: string;
 }
 
+type KeyValueOption = keyof Pick<
+  OpenApiGeneratorOptions,
+  | 'additionalProperties'
+  | 'typeMappings'
+  | 'importMappings'
+  | 'schemaMappings'
+  | 'nameMappings'
+  | 'openapiNormalizer'
+>;
+
+export const KEY_VALUE_FLAG_MAP: Record<KeyValueOption, string> = {
+  additionalProperties: '--additional-properties',
+  typeMappings: '--type-mappings',
+  importMappings: '--import-mappings',
+  schemaMappings: '--schema-mappings',
+  nameMappings: '--name-mappings',
+  openapiNormalizer: '--openapi-normalizer',
+};
+
 export type RequiredOptions = Required<Pick<OpenApiGeneratorOptions, 'inputSpec' | 'outputPath'>>;
 export type CompleteOptions = RequiredOptions & OpenApiGeneratorOptions;
 
@@ -92,7 +128,7 @@ export function buildCommandArgs(options: OpenApiGeneratorOptions): string[] {
   const args: string[] = [];
   args.push('generate');
   args.push('-i', options.inputSpec);
-  args.push('-g', 'typescript-angular');
+  args.push('-g', options.generatorName || DEFAULT_GENERATOR_NAME);
   args.push('-o', options.outputPath);
 
   for (const [optionKey, flagConfig] of Object.entries(OPTION_FLAG_MAP) as [
@@ -135,5 +171,23 @@ export function buildCommandArgs(options: OpenApiGeneratorOptions): string[] {
     }
   }
 
+  // Handle key/value maps, one flag per entry
+  for (const [optionKey, flag] of Object.entries(KEY_VALUE_FLAG_MAP) as [
+    KeyValueOption,
+    string
+  ][]) {
+    const map = options[optionKey];
+    if (!map || typeof map !== 'object') {
+      continue;
+    }
+    for (const [key, value] of Object.entries(map)) {
+      if (key && value !== undefined && value !== null && value !== '') {
+        args.push(flag, `${key}=${value}`);
+      } else {
+        console.warn(`Skipping invalid ${optionKey} entry: key="${key}", value="${value}"`);
+      }
+    }
+  }
+
   return args;
 }
@@ -0,0 +1,115 @@
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { logger } from '@nx/devkit';
+import { ExecutionError } from '@nx-plugin-openapi/core';
+import {
+  GENERATOR_CLI_PACKAGE,
+  prepareGeneratorCli,
+  resolveGeneratorCliPath,
+} from './generator-cli';
+
+describe('generator-cli', () => {
+  let root: string;
+
+  const installCli = () => {
+    const packageDir = join(root, 'node_modules', GENERATOR_CLI_PACKAGE);
+    mkdirSync(packageDir, { recursive: true });
+    writeFileSync(
+      join(packageDir, 'package.json'),
+      JSON.stringify({
+        name: GENERATOR_CLI_PACKAGE,
+        bin: { 'openapi-generator-cli': 'main.js' },
+      })
+    );
+    writeFileSync(join(packageDir, 'main.js'), '');
+    return join(packageDir, 'main.js');
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'generator-cli-spec-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('resolveGeneratorCliPath', () => {
+    it('should resolve the CLI from the workspace root', () => {
+      const mainPath = installCli();
+
+      expect(resolveGeneratorCliPath(root)).toBe(mainPath);
+    });
+
+    it('should use generatorCliPath relative to the workspace root', () => {
+      mkdirSync(join(root, 'tools'));
+      writeFileSync(join(root, 'tools/cli.js'), '');
+
+      expect(resolveGeneratorCliPath(root, 'tools/cli.js')).toBe(
+        join(root, 'tools/cli.js')
+      );
+      expect(() => resolveGeneratorCliPath(root, 'tools/missing.js')).toThrow(
+        'generatorCliPath tools/missing.js does not exist'
+      );
+    });
+
+    it('should explain how to install a missing CLI', () => {
+      expect(() => resolveGeneratorCliPath(root)).toThrow(ExecutionError);
+      expect(() => resolveGeneratorCliPath(root)).toThrow(
+        `Install it with "npm install -D ${GENERATOR_CLI_PACKAGE}"`
+      );
+    });
+  });
+
+  describe('prepareGeneratorCli', () => {
+    it('should only pass the CLI script without generatorVersion', () => {
+      const mainPath = installCli();
+
+      expect(prepareGeneratorCli(root, {}).args).toEqual([mainPath]);
+    });
+
+    it('should pin generatorVersion with a copy of openapitools.json', () => {
+      jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+      const mainPath = installCli();
+      writeFileSync(
+        join(root, 'openapitools.json'),
+        JSON.stringify({
+          'generator-cli': { version: '7.0.0', storageDir: 'tools/jars' },
+        })
+      );
+
+      const cli = prepareGeneratorCli(root, { generatorVersion: '7.10.0' });
+
+      expect(cli.args.slice(0, 2)).toEqual([mainPath, '--openapitools']);
+      expect(JSON.parse(readFileSync(cli.args[2], 'utf-8'))).toEqual({
+        'generator-cli': { version: '7.10.0', storageDir: 'tools/jars' },
+      });
+      expect(logger.warn).toHaveBeenCalledWith(
+        'generatorVersion 7.10.0 overrides version 7.0.0 of openapitools.json'
+      );
+
+      cli.dispose();
+
+      expect(() => readFileSync(cli.args[2])).toThrow();
+    });
+
+    it('should use openapitools.json if it pins the same version', () => {
+      const mainPath = installCli();
+      writeFileSync(
+        join(root, 'openapitools.json'),
+        JSON.stringify({ 'generator-cli': { version: '7.10.0' } })
+      );
+
+      expect(
+        prepareGeneratorCli(root, { generatorVersion: '7.10.0' }).args
+      ).toEqual([mainPath]);
+    });
+  });
+});
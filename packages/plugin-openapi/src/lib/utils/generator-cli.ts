@@ -0,0 +1,119 @@
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { logger } from '@nx/devkit';
+import { ExecutionError } from '@nx-plugin-openapi/core';
+
+export const GENERATOR_CLI_PACKAGE = '@openapitools/openapi-generator-cli';
+
+export interface GeneratorCliOptions {
+  generatorCliPath?: string;
+  generatorVersion?: string;
+}
+
+export interface GeneratorCli {
+  /** Arguments of `node` that start openapi-generator-cli, before the command */
+  args: string[];
+  /** Removes temporary files created for this CLI invocation */
+  dispose(): void;
+}
+
+/**
+ * Locates the openapi-generator-cli entry script. Uses `generatorCliPath`
+ * (relative to the workspace root) if given, otherwise resolves the package
+ * from the workspace root like Node.js would, which also works with pnpm,
+ * Yarn PnP and nested workspaces.
+ */
+export function resolveGeneratorCliPath(
+  root: string,
+  generatorCliPath?: string
+): string {
+  if (generatorCliPath) {
+    const cliPath = resolve(root, generatorCliPath);
+    if (!existsSync(cliPath)) {
+      throw new ExecutionError(
+        `generatorCliPath ${generatorCliPath} does not exist`,
+        `node ${cliPath}`
+      );
+    }
+    return cliPath;
+  }
+
+  let packageJsonPath: string;
+  try {
+    packageJsonPath = require.resolve(`${GENERATOR_CLI_PACKAGE}/package.json`, {
+      paths: [root],
+    });
+  } catch (e) {
+    throw new ExecutionError(
+      `${GENERATOR_CLI_PACKAGE} could not be found from ${root}. ` +
+        `Install it with "npm install -D ${GENERATOR_CLI_PACKAGE}" (or your package manager's equivalent), ` +
+        `or set generatorCliPath to its main.js`,
+      `node ${GENERATOR_CLI_PACKAGE}`,
+      undefined,
+      e
+    );
+  }
+
+  const { bin } = JSON.parse(readFileSync(packageJsonPath, 'utf-8')) as {
+    bin?: string | Record<string, string>;
+  };
+  const entry =
+    (typeof bin === 'string' ? bin : bin?.['openapi-generator-cli']) ??
+    'main.js';
+  return join(dirname(packageJsonPath), entry);
+}
+
+/**
+ * Prepares the openapi-generator-cli invocation. A pinned `generatorVersion`
+ * is passed to the CLI as a temporary copy of the workspace openapitools.json
+ * with the version replaced, so its other settings still apply.
+ */
+export function prepareGeneratorCli(
+  root: string,
+  options: GeneratorCliOptions
+): GeneratorCli {
+  const args = [resolveGeneratorCliPath(root, options.generatorCliPath)];
+  const { generatorVersion } = options;
+  if (!generatorVersion) {
+    return { args, dispose: () => undefined };
+  }
+
+  const configPath = join(root, 'openapitools.json');
+  const config: Record<string, unknown> = existsSync(configPath)
+    ? JSON.parse(readFileSync(configPath, 'utf-8'))
+    : {};
+  const cliConfig = (config['generator-cli'] ?? {}) as Record<string, unknown>;
+  if (cliConfig['version'] === generatorVersion) {
+    return { args, dispose: () => undefined };
+  }
+  if (cliConfig['version']) {
+    logger.warn(
+      `generatorVersion ${generatorVersion} overrides version ${cliConfig['version']} of openapitools.json`
+    );
+  }
+
+  const configDir = mkdtempSync(join(tmpdir(), 'nx-plugin-openapi-cli-'));
+  const versionConfigPath = join(configDir, 'openapitools.json');
+  writeFileSync(
+    versionConfigPath,
+    JSON.stringify(
+      {
+        ...config,
+        'generator-cli': { ...cliConfig, version: generatorVersion },
+      },
+      null,
+      2
+    )
+  );
+  return {
+    args: [...args, '--openapitools', versionConfigPath],
+    dispose: () => rmSync(configDir, { recursive: true, force: true }),
+  };
+}
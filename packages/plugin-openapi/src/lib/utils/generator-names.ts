@@ -0,0 +1,168 @@
+export const DEFAULT_GENERATOR_NAME = 'typescript-angular';
+
+/**
+ * Generators shipped with openapi-generator 7.x, see
+ * https://openapi-generator.tech/docs/generators
+ */
+export const KNOWN_GENERATOR_NAMES: readonly string[] = [
+  // Clients
+  'ada',
+  'android',
+  'apex',
+  'bash',
+  'c',
+  'clojure',
+  'cpp-qt-client',
+  'cpp-restsdk',
+  'cpp-tiny',
+  'cpp-ue4',
+  'crystal',
+  'csharp',
+  'csharp-functions',
+  'dart',
+  'dart-dio',
+  'eiffel',
+  'elixir',
+  'elm',
+  'erlang-client',
+  'erlang-proper',
+  'go',
+  'groovy',
+  'haskell-http-client',
+  'java',
+  'java-helidon-client',
+  'java-micronaut-client',
+  'javascript',
+  'javascript-apollo-deprecated',
+  'javascript-closure-angular',
+  'javascript-flowtyped',
+  'jaxrs-cxf-client',
+  'jetbrains-http-client',
+  'jmeter',
+  'julia-client',
+  'k6',
+  'kotlin',
+  'lua',
+  'n4js',
+  'nim',
+  'objc',
+  'ocaml',
+  'perl',
+  'php',
+  'php-dt',
+  'php-nextgen',
+  'powershell',
+  'python',
+  'python-pydantic-v1',
+  'r',
+  'ruby',
+  'rust',
+  'scala-akka',
+  'scala-gatling',
+  'scala-http4s',
+  'scala-pekko',
+  'scala-sttp',
+  'scala-sttp4',
+  'scalaz',
+  'swift-combine',
+  'swift5',
+  'swift6',
+  'typescript',
+  'typescript-angular',
+  'typescript-aurelia',
+  'typescript-axios',
+  'typescript-fetch',
+  'typescript-inversify',
+  'typescript-jquery',
+  'typescript-nestjs',
+  'typescript-node',
+  'typescript-redux-query',
+  'typescript-rxjs',
+  'xojo-client',
+  'zapier',
+  // Servers
+  'ada-server',
+  'aspnet-fastendpoints',
+  'aspnetcore',
+  'cpp-pistache-server',
+  'cpp-qt-qhttpengine-server',
+  'cpp-restbed-server',
+  'cpp-restbed-server-deprecated',
+  'erlang-server',
+  'fsharp-functions',
+  'fsharp-giraffe-server',
+  'go-echo-server',
+  'go-gin-server',
+  'go-server',
+  'graphql-nodejs-express-server',
+  'haskell',
+  'haskell-yesod',
+  'java-camel',
+  'java-helidon-server',
+  'java-inflector',
+  'java-micronaut-server',
+  'java-msf4j',
+  'java-pkmst',
+  'java-play-framework',
+  'java-undertow-server',
+  'java-vertx-web',
+  'java-wiremock',
+  'jaxrs-cxf',
+  'jaxrs-cxf-cdi',
+  'jaxrs-cxf-extended',
+  'jaxrs-jersey',
+  'jaxrs-resteasy',
+  'jaxrs-resteasy-eap',
+  'jaxrs-spec',
+  'julia-server',
+  'kotlin-misk',
+  'kotlin-server',
+  'kotlin-spring',
+  'kotlin-vertx',
+  'kotlin-wiremock',
+  'nodejs-express-server',
+  'php-flight',
+  'php-laravel',
+  'php-lumen',
+  'php-mezzio-ph',
+  'php-slim4',
+  'php-symfony',
+  'python-aiohttp',
+  'python-blueplanet',
+  'python-fastapi',
+  'python-flask',
+  'ruby-on-rails',
+  'ruby-sinatra',
+  'rust-axum',
+  'rust-server',
+  'scala-akka-http-server',
+  'scala-cask',
+  'scala-finch',
+  'scala-lagom-server',
+  'scala-play-server',
+  'scalatra',
+  'spring',
+  // Documentation
+  'asciidoc',
+  'cwiki',
+  'dynamic-html',
+  'html',
+  'html2',
+  'markdown',
+  'openapi',
+  'openapi-yaml',
+  'plantuml',
+  // Schemas and configuration
+  'avro-schema',
+  'graphql-schema',
+  'ktorm-schema',
+  'mysql-schema',
+  'postgresql-schema',
+  'protobuf-schema',
+  'wsdl-schema',
+  'apache2',
+];
+
+export function isKnownGeneratorName(name: string): boolean {
+  return KNOWN_GENERATOR_NAMES.includes(name);
+}
@@ -0,0 +1,94 @@
+import { attributeToPointer, parseGeneratorOutput } from './generator-output';
+
+describe('generator-output', () => {
+  describe('parseGeneratorOutput', () => {
+    it('should extract spec validation errors and warnings', () => {
+      const output = [
+        'Exception in thread "main" org.openapitools.codegen.SpecValidationException: There were issues with the specification.',
+        ' | Error count: 2, Warning count: 1',
+        'Errors: ',
+        "\t-attribute paths.'/pets'(get).responses is missing",
+        '\t-attribute info.version is missing',
+        'Warnings: ',
+        '\t-Unused model: Pet',
+        '',
+        '\tat org.openapitools.codegen.config.CodegenConfigurator.toContext(CodegenConfigurator.java:620)',
+      ];
+
+      expect(parseGeneratorOutput(output, 'api.yaml')).toEqual([
+        {
+          severity: 'error',
+          code: 'generator-exception',
+          message:
+            'SpecValidationException: There were issues with the specification.',
+          file: 'api.yaml',
+          pointer: '',
+        },
+        {
+          severity: 'error',
+          code: 'generator-validation',
+          message: "attribute paths.'/pets'(get).responses is missing",
+          file: 'api.yaml',
+          pointer: '/paths/~1pets/get/responses',
+        },
+        {
+          severity: 'error',
+          code: 'generator-validation',
+          message: 'attribute info.version is missing',
+          file: 'api.yaml',
+          pointer: '/info/version',
+        },
+        {
+          severity: 'warning',
+          code: 'generator-validation',
+          message: 'Unused model: Pet',
+          file: 'api.yaml',
+          pointer: '',
+        },
+      ]);
+    });
+
+    it('should extract ERROR and WARN log lines', () => {
+      const output = [
+        '[main] INFO  o.o.codegen.DefaultGenerator - Generating api',
+        '[main] WARN  o.o.codegen.DefaultCodegen - Unknown type found: Foo',
+        '[main] ERROR o.o.codegen.DefaultGenerator - Could not process model',
+      ];
+
+      expect(parseGeneratorOutput(output, 'api.yaml')).toEqual([
+        {
+          severity: 'warning',
+          code: 'generator-log',
+          message: 'Unknown type found: Foo',
+          file: 'api.yaml',
+          pointer: '',
+        },
+        {
+          severity: 'error',
+          code: 'generator-log',
+          message: 'Could not process model',
+          file: 'api.yaml',
+          pointer: '',
+        },
+      ]);
+    });
+
+    it('should return no diagnostics for regular output', () => {
+      expect(
+        parseGeneratorOutput(
+          ['[main] INFO  o.o.codegen.TemplateManager - writing file api.ts'],
+          'api.yaml'
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('attributeToPointer', () => {
+    it('should convert attribute paths to JSON pointers', () => {
+      expect(
+        attributeToPointer('attribute components.schemas.Pet.items is missing')
+      ).toBe('/components/schemas/Pet/items');
+      expect(attributeToPointer('Unused model: Pet')).toBe('');
+    });
+  });
+});
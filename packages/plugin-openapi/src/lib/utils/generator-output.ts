@@ -0,0 +1,87 @@
+import { compileJsonPointer, Diagnostic } from '@nx-plugin-openapi/core';
+
+// [main] WARN  o.o.codegen.DefaultCodegen - Unknown type found
+const LOG_LINE = /^\[[^\]]*\]\s+(ERROR|WARN)\s+\S+\s+-\s+(.+)$/;
+// Exception in thread "main" org.openapitools.codegen.SpecValidationException: ...
+const EXCEPTION_LINE = /^Exception in thread "[^"]*" ([\w.$]+): (.+)$/;
+// attribute paths.'/pets'(get).responses is missing
+const ATTRIBUTE_MESSAGE = /^attribute (\S+)/;
+
+/**
+ * Extracts errors and warnings from openapi-generator output: the error and
+ * warning lists of spec validation, ERROR/WARN log lines and uncaught
+ * exceptions. `spec` is used as the file of the diagnostics.
+ */
+export function parseGeneratorOutput(
+  lines: string[],
+  spec: string
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  let section: Diagnostic['severity'] | undefined;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+
+    if (/^Errors:$/.test(trimmed)) {
+      section = 'error';
+      continue;
+    }
+    if (/^Warnings:$/.test(trimmed)) {
+      section = 'warning';
+      continue;
+    }
+    if (section && trimmed.startsWith('-')) {
+      const message = trimmed.slice(1).trim();
+      diagnostics.push({
+        severity: section,
+        code: 'generator-validation',
+        message,
+        file: spec,
+        pointer: attributeToPointer(message),
+      });
+      continue;
+    }
+    section = undefined;
+
+    const logLine = LOG_LINE.exec(trimmed);
+    if (logLine) {
+      diagnostics.push({
+        severity: logLine[1] === 'ERROR' ? 'error' : 'warning',
+        code: 'generator-log',
+        message: logLine[2],
+        file: spec,
+        pointer: '',
+      });
+      continue;
+    }
+
+    const exception = EXCEPTION_LINE.exec(trimmed);
+    if (exception) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'generator-exception',
+        message: `${exception[1].split('.').pop()}: ${exception[2]}`,
+        file: spec,
+        pointer: '',
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Converts the attribute path of a validation message, like
+ * `paths.'/pets'(get).responses`, to a JSON pointer. Returns an empty pointer
+ * if the message does not name an attribute.
+ */
+export function attributeToPointer(message: string): string {
+  const match = ATTRIBUTE_MESSAGE.exec(message);
+  if (!match) return '';
+
+  // Quoted keys and parenthesized operations are single tokens
+  const tokens = (match[1].match(/'[^']*'|\([^)]*\)|[^.'()]+/g) ?? []).map(
+    (part) => (/^['(]/.test(part) ? part.slice(1, -1) : part)
+  );
+  return compileJsonPointer(tokens);
+}
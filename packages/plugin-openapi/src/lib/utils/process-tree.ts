@@ -0,0 +1,24 @@
+import { ChildProcess, spawn } from 'node:child_process';
+
+/**
+ * Kills a child process including the processes it started, e.g. the JVM
+ * started by openapi-generator-cli. On POSIX systems the child has to be
+ * spawned `detached`, so that it leads its own process group.
+ */
+export function killProcessTree(child: ChildProcess): void {
+  if (child.pid === undefined || child.exitCode !== null) {
+    return;
+  }
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], {
+      stdio: 'ignore',
+    });
+    return;
+  }
+  try {
+    process.kill(-child.pid, 'SIGTERM');
+  } catch {
+    // Not a process group leader, kill the child only
+    child.kill('SIGTERM');
+  }
+}